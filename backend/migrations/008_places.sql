@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS places (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  address TEXT NULL,
+  timezone TEXT NOT NULL,
+  opening_hours JSONB NULL,
+  safety_tier TEXT NOT NULL DEFAULT 'standard' CHECK (safety_tier IN ('preferred', 'standard', 'limited')),
+  is_public BOOLEAN NOT NULL DEFAULT TRUE,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  source TEXT NOT NULL DEFAULT 'import',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_places_geo
+ON places (latitude, longitude)
+WHERE active = TRUE AND is_public = TRUE;
@@ -0,0 +1,60 @@
+CREATE TABLE IF NOT EXISTS trusted_contacts (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  phone TEXT NULL,
+  email TEXT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (phone IS NOT NULL OR email IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS safety_checkins (
+  id TEXT PRIMARY KEY,
+  offer_id TEXT NOT NULL REFERENCES meetup_offers(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  due_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'reminded', 'escalated', 'ok', 'panic')),
+  reminded_at TIMESTAMPTZ NULL,
+  escalated_at TIMESTAMPTZ NULL,
+  responded_at TIMESTAMPTZ NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (offer_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS panic_events (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  offer_id TEXT NULL REFERENCES meetup_offers(id) ON DELETE SET NULL,
+  place_id TEXT NULL,
+  place_label TEXT NULL,
+  latitude DOUBLE PRECISION NULL,
+  longitude DOUBLE PRECISION NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS safety_notifications (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  contact_id TEXT NULL REFERENCES trusted_contacts(id) ON DELETE SET NULL,
+  checkin_id TEXT NULL REFERENCES safety_checkins(id) ON DELETE SET NULL,
+  panic_event_id TEXT NULL REFERENCES panic_events(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('missed_checkin', 'panic')),
+  channel TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  error TEXT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_trusted_contacts_user
+ON trusted_contacts (user_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_safety_checkins_status_due
+ON safety_checkins (status, due_at);
+
+CREATE INDEX IF NOT EXISTS idx_safety_checkins_user_status
+ON safety_checkins (user_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_panic_events_user_created
+ON panic_events (user_id, created_at DESC);
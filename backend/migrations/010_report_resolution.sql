@@ -0,0 +1,33 @@
+ALTER TABLE user_reports
+ADD COLUMN IF NOT EXISTS resolution TEXT NULL;
+
+ALTER TABLE user_reports
+ADD COLUMN IF NOT EXISTS resolution_note TEXT NULL;
+
+ALTER TABLE user_reports
+ADD COLUMN IF NOT EXISTS reviewed_by TEXT NULL REFERENCES users(id) ON DELETE SET NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'user_reports_resolution_check'
+      AND conrelid = 'user_reports'::regclass
+  ) THEN
+    ALTER TABLE user_reports
+    ADD CONSTRAINT user_reports_resolution_check
+    CHECK (resolution IS NULL OR resolution IN ('dismissed', 'warned', 'banned', 'pair_closed'));
+  END IF;
+END $$;
+
+-- Admins can force-close a reported pair, which needs its own closure reason.
+ALTER TABLE pair_closures
+DROP CONSTRAINT IF EXISTS pair_closures_reason_check;
+
+ALTER TABLE pair_closures
+ADD CONSTRAINT pair_closures_reason_check
+CHECK (reason IN ('unmatched', 'blocked', 'admin_closed'));
+
+CREATE INDEX IF NOT EXISTS idx_user_reports_reporter_created
+ON user_reports (reporter_user_id, created_at DESC);
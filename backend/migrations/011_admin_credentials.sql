@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS admin_credentials (
+  id TEXT PRIMARY KEY,
+  admin_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ NULL,
+  revoked_at TIMESTAMPTZ NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_credentials_admin
+ON admin_credentials (admin_user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_logs_admin
+ON admin_audit_logs (admin_user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_logs_action
+ON admin_audit_logs (action, created_at DESC);
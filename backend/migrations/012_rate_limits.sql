@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  window_start BIGINT NOT NULL,
+  window_ms INT NOT NULL,
+  max_hits INT NOT NULL,
+  current_count INT NOT NULL DEFAULT 0,
+  previous_count INT NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_expires
+ON rate_limit_buckets (expires_at);
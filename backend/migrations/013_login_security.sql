@@ -0,0 +1,38 @@
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS failed_login_count INT NOT NULL DEFAULT 0;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS last_failed_login_at TIMESTAMPTZ NULL;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS login_locked_until TIMESTAMPTZ NULL;
+
+CREATE TABLE IF NOT EXISTS login_events (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NULL REFERENCES users(id) ON DELETE CASCADE,
+  username TEXT NOT NULL,
+  ip TEXT NULL,
+  user_agent TEXT NULL,
+  device_id TEXT NULL,
+  outcome TEXT NOT NULL CHECK (
+    outcome IN ('success', 'bad_password', 'unknown_user', 'throttled', 'locked', 'banned')
+  ),
+  new_device BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS user_login_devices (
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  device_key TEXT NOT NULL,
+  label TEXT NULL,
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_ip TEXT NULL,
+  PRIMARY KEY (user_id, device_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_events_user_created
+ON login_events (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_login_events_username_created
+ON login_events (username, created_at DESC);
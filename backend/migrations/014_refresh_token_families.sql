@@ -0,0 +1,32 @@
+-- Every refresh token a session has issued, so a rotated token presented
+-- again can be recognised as reuse instead of an unknown token.
+CREATE TABLE IF NOT EXISTS auth_refresh_tokens (
+  token_hash TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL REFERENCES auth_refresh_sessions(id) ON DELETE CASCADE,
+  parent_token_hash TEXT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  rotated_at TIMESTAMPTZ NULL,
+  revoked_at TIMESTAMPTZ NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_refresh_tokens_session
+ON auth_refresh_tokens (session_id, created_at DESC);
+
+INSERT INTO auth_refresh_tokens (token_hash, session_id, created_at, revoked_at)
+SELECT refresh_token_hash, id, created_at, revoked_at
+FROM auth_refresh_sessions
+ON CONFLICT (token_hash) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS security_events (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  session_id TEXT NULL,
+  ip TEXT NULL,
+  user_agent TEXT NULL,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_events_user_created
+ON security_events (user_id, created_at DESC);
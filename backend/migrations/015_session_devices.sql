@@ -0,0 +1,16 @@
+-- Device details for each refresh session so users can review and revoke
+-- where they are signed in.
+ALTER TABLE auth_refresh_sessions ADD COLUMN IF NOT EXISTS name TEXT NULL;
+ALTER TABLE auth_refresh_sessions ADD COLUMN IF NOT EXISTS device_label TEXT NULL;
+ALTER TABLE auth_refresh_sessions ADD COLUMN IF NOT EXISTS platform TEXT NOT NULL DEFAULT 'unknown';
+ALTER TABLE auth_refresh_sessions ADD COLUMN IF NOT EXISTS device_id TEXT NULL;
+ALTER TABLE auth_refresh_sessions ADD COLUMN IF NOT EXISTS ip TEXT NULL;
+ALTER TABLE auth_refresh_sessions ADD COLUMN IF NOT EXISTS user_agent TEXT NULL;
+ALTER TABLE auth_refresh_sessions ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMPTZ NULL;
+
+-- Push tokens registered from a session stop receiving pushes once it is revoked.
+ALTER TABLE user_push_tokens
+ADD COLUMN IF NOT EXISTS session_id TEXT NULL REFERENCES auth_refresh_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_user_push_tokens_session
+ON user_push_tokens (session_id);
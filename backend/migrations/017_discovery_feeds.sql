@@ -0,0 +1,17 @@
+-- Ranked discovery snapshots. A feed keeps its order while the user pages
+-- through it, and filters_key ties it to the filters it was built with.
+CREATE TABLE IF NOT EXISTS discovery_feeds (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  variant TEXT NOT NULL,
+  filters_key TEXT NOT NULL,
+  ranked_user_ids TEXT[] NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_discovery_feeds_user_created
+ON discovery_feeds (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_discovery_feeds_expires
+ON discovery_feeds (expires_at);
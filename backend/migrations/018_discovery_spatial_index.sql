@@ -0,0 +1,16 @@
+-- Discovery narrows candidates to a lat/lng box before computing exact
+-- distances. Only verified, unbanned users are ever candidates.
+CREATE INDEX IF NOT EXISTS idx_users_discovery_geo
+ON users (latitude, longitude)
+WHERE verified = TRUE AND is_banned = FALSE;
+
+-- With the optional cube + earthdistance extensions, discovery uses an
+-- earth_box lookup instead, backed by a GiST index.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'earthdistance') THEN
+    EXECUTE 'CREATE INDEX IF NOT EXISTS idx_users_discovery_earth
+             ON users USING gist (ll_to_earth(latitude, longitude))
+             WHERE verified = TRUE AND is_banned = FALSE';
+  END IF;
+END $$;
@@ -0,0 +1,19 @@
+-- Users can pause their profile or limit discovery to people they've liked.
+-- Existing matches and chats are unaffected either way.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS discoverable BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS discovery_visibility TEXT NOT NULL DEFAULT 'everyone';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'users_discovery_visibility_check'
+      AND conrelid = 'users'::regclass
+  ) THEN
+    ALTER TABLE users
+    ADD CONSTRAINT users_discovery_visibility_check
+    CHECK (discovery_visibility IN ('everyone', 'liked_only'));
+  END IF;
+END $$;
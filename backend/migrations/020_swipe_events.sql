@@ -0,0 +1,28 @@
+-- Append-only swipe history. `swipes` keeps the current decision per pair;
+-- every swipe also lands here with the decision it replaced, so the latest
+-- one can be rewound without losing what came before.
+CREATE TABLE IF NOT EXISTS swipe_events (
+  id TEXT PRIMARY KEY,
+  from_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  to_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  decision TEXT NOT NULL CHECK (decision IN ('left', 'right')),
+  previous_decision TEXT CHECK (previous_decision IN ('left', 'right')),
+  previous_created_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  undone_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_swipe_events_from_created
+ON swipe_events (from_user_id, created_at DESC);
+
+-- The daily quota is counted from this table, so the last day of swipes is
+-- carried over; without it every free member's quota would reset on deploy.
+INSERT INTO swipe_events (id, from_user_id, to_user_id, decision, created_at)
+SELECT 'swipe_' || md5(s.from_user_id || ':' || s.to_user_id), s.from_user_id, s.to_user_id, s.decision, s.created_at
+FROM swipes s
+WHERE s.created_at >= NOW() - INTERVAL '24 hours'
+  AND NOT EXISTS (
+    SELECT 1 FROM swipe_events e
+    WHERE e.from_user_id = s.from_user_id AND e.to_user_id = s.to_user_id AND e.created_at = s.created_at
+  )
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,13 @@
+-- Per-participant chat cursors: the created_at of the newest message from the
+-- other member that this member has read, and that has reached their device.
+CREATE TABLE IF NOT EXISTS message_reads (
+  match_id TEXT NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMPTZ,
+  last_delivered_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (match_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_reads_user
+ON message_reads (user_id);
@@ -0,0 +1,4 @@
+-- Presence for chats: when the member last used the app, and whether they let
+-- their matches see it.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS last_active_at TIMESTAMPTZ NULL;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS share_last_active BOOLEAN NOT NULL DEFAULT TRUE;
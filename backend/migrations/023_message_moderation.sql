@@ -0,0 +1,16 @@
+-- Messages flagged or blocked by the moderation classifier land in the same
+-- admin queue as member reports. The recipient stands in as the reporter so
+-- pair actions (close_pair) keep working; `source` tells the two apart.
+ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'user';
+ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS message_id TEXT NULL REFERENCES messages(id) ON DELETE SET NULL;
+ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS moderation JSONB NULL;
+
+ALTER TABLE user_reports
+DROP CONSTRAINT IF EXISTS user_reports_source_check;
+
+ALTER TABLE user_reports
+ADD CONSTRAINT user_reports_source_check
+CHECK (source IN ('user', 'moderation'));
+
+CREATE INDEX IF NOT EXISTS idx_user_reports_source_status_created
+ON user_reports (source, status, created_at DESC);
@@ -0,0 +1,17 @@
+-- Photo and voice-note messages. The file itself lives in upload storage and
+-- is deleted when the pair is closed; the body may be empty when there is one.
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_kind TEXT NULL;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_url TEXT NULL;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_mime_type TEXT NULL;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_size_bytes INTEGER NULL;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_duration_seconds REAL NULL;
+
+ALTER TABLE messages
+DROP CONSTRAINT IF EXISTS messages_attachment_kind_check;
+
+ALTER TABLE messages
+ADD CONSTRAINT messages_attachment_kind_check
+CHECK (
+  (attachment_kind IS NULL AND attachment_url IS NULL)
+  OR (attachment_kind IN ('image', 'audio') AND attachment_url IS NOT NULL)
+);
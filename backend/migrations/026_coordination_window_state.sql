@@ -0,0 +1,7 @@
+-- The expiry sweep used to clear coordination_ends_at, which lost when the
+-- window closed. Keep the timestamp and mark the window as expired instead.
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS coordination_expired BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_matches_coordination_open
+ON matches (coordination_ends_at)
+WHERE coordination_ends_at IS NOT NULL AND coordination_expired = FALSE;
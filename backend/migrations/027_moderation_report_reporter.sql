@@ -0,0 +1,24 @@
+-- Moderation reports no longer borrow the recipient as their reporter: the
+-- reporter is NULL and the other chat member is kept as the counterpart, which
+-- close_pair uses. Repeats of the same rule from the same sender in the same
+-- match are folded into one open report (hit_count, last_seen_at).
+ALTER TABLE user_reports ALTER COLUMN reporter_user_id DROP NOT NULL;
+ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS counterpart_user_id TEXT NULL REFERENCES users(id) ON DELETE CASCADE;
+ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS match_id TEXT NULL REFERENCES matches(id) ON DELETE SET NULL;
+ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS rule_key TEXT NULL;
+ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS hit_count INT NOT NULL DEFAULT 1;
+ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ NULL;
+
+UPDATE user_reports
+SET counterpart_user_id = reporter_user_id,
+    reporter_user_id = NULL,
+    last_seen_at = created_at
+WHERE source = 'moderation' AND reporter_user_id IS NOT NULL;
+
+ALTER TABLE user_reports
+ADD CONSTRAINT user_reports_reporter_source_check
+CHECK (source = 'moderation' OR reporter_user_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_user_reports_moderation_open
+ON user_reports (target_user_id, match_id, rule_key, last_seen_at DESC)
+WHERE source = 'moderation' AND status = 'open';
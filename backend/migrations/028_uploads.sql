@@ -0,0 +1,24 @@
+-- Every file stored through /uploads, with who uploaded it and what the server
+-- measured. Message attachments are claimed from here by their uploader, once,
+-- so a message can only point at the sender's own file and only files owned by
+-- a purged chat's messages are deleted with it.
+CREATE TABLE IF NOT EXISTS uploads (
+  id TEXT PRIMARY KEY,
+  owner_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('image', 'audio')),
+  stored_name TEXT NOT NULL UNIQUE,
+  url TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  duration_seconds REAL NULL,
+  message_id TEXT NULL REFERENCES messages(id) ON DELETE SET NULL,
+  attached_at TIMESTAMPTZ NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_uploads_owner_created
+ON uploads (owner_user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_uploads_message
+ON uploads (message_id)
+WHERE message_id IS NOT NULL;
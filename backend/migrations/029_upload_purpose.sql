@@ -0,0 +1,17 @@
+-- Profile photos, verification images and message attachments all go through
+-- /uploads. Tagging each upload with its purpose keeps a profile photo or
+-- verification selfie from being claimed as an attachment and then deleted
+-- with the chat.
+ALTER TABLE uploads
+ADD COLUMN IF NOT EXISTS purpose TEXT NOT NULL DEFAULT 'profile_photo';
+
+UPDATE uploads
+SET purpose = 'message_attachment'
+WHERE attached_at IS NOT NULL OR kind = 'audio';
+
+ALTER TABLE uploads
+DROP CONSTRAINT IF EXISTS uploads_purpose_check;
+
+ALTER TABLE uploads
+ADD CONSTRAINT uploads_purpose_check
+CHECK (purpose IN ('message_attachment', 'profile_photo', 'verification'));
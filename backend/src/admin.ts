@@ -0,0 +1,243 @@
+import { createHash, randomBytes } from "node:crypto";
+import { pool } from "./db.js";
+
+const AUDIT_EXPORT_BATCH_SIZE = 500;
+const AUDIT_EXPORT_MAX_ROWS = Math.max(1000, Number(process.env.AUDIT_EXPORT_MAX_ROWS ?? 50000));
+
+const id = (prefix: string) => `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
+
+export type AuditLogFilters = {
+  adminUserId?: string;
+  action?: string;
+  targetUserId?: string;
+  from?: string;
+  to?: string;
+};
+
+export type AuditLogRow = {
+  id: string;
+  adminUserId: string;
+  adminName: string;
+  action: string;
+  targetUserId: string | null;
+  targetName: string | null;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+};
+
+function hashAdminKey(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// Each admin key belongs to one admin user, so key-based requests are logged
+// against a real account rather than a shared service identity.
+export async function createAdminCredential(adminUserId: string, label: string) {
+  const cleanedLabel = label.trim();
+  if (!cleanedLabel) {
+    throw new Error("Credential label is required.");
+  }
+  const userRes = await pool.query(`SELECT id, is_admin FROM users WHERE id = $1`, [adminUserId]);
+  if (!userRes.rows[0]?.is_admin) {
+    throw new Error("Credentials can only be issued to admin users.");
+  }
+  const key = `vak_${randomBytes(24).toString("hex")}`;
+  const credentialId = id("akey");
+  await pool.query(
+    `INSERT INTO admin_credentials (id, admin_user_id, label, key_hash, created_at)
+     VALUES ($1, $2, $3, $4, NOW())`,
+    [credentialId, adminUserId, cleanedLabel, hashAdminKey(key)]
+  );
+  return { id: credentialId, adminUserId, label: cleanedLabel, key };
+}
+
+export async function listAdminCredentials() {
+  const { rows } = await pool.query(
+    `SELECT
+       c.id,
+       c.admin_user_id AS "adminUserId",
+       u.first_name AS "adminFirstName",
+       u.last_name AS "adminLastName",
+       c.label,
+       c.created_at AS "createdAt",
+       c.last_used_at AS "lastUsedAt",
+       c.revoked_at AS "revokedAt"
+     FROM admin_credentials c
+     JOIN users u ON u.id = c.admin_user_id
+     ORDER BY c.created_at DESC`
+  );
+  return rows;
+}
+
+export async function revokeAdminCredential(credentialId: string) {
+  const { rowCount } = await pool.query(
+    `UPDATE admin_credentials
+     SET revoked_at = NOW()
+     WHERE id = $1 AND revoked_at IS NULL`,
+    [credentialId]
+  );
+  if (!rowCount) {
+    throw new Error("Active credential not found.");
+  }
+  return { ok: true as const, id: credentialId };
+}
+
+export async function resolveAdminCredential(key: string) {
+  const { rows } = await pool.query(
+    `UPDATE admin_credentials c
+     SET last_used_at = NOW()
+     FROM users u
+     WHERE c.key_hash = $1
+       AND c.revoked_at IS NULL
+       AND u.id = c.admin_user_id
+       AND u.is_admin = TRUE
+       AND u.is_banned = FALSE
+     RETURNING c.id, c.admin_user_id`,
+    [hashAdminKey(key)]
+  );
+  const row = rows[0];
+  if (!row) {
+    throw new Error("Unauthorized admin access.");
+  }
+  return { credentialId: String(row.id), adminUserId: String(row.admin_user_id) };
+}
+
+function encodeCursor(createdAt: string, rowId: string) {
+  return Buffer.from(`${createdAt}|${rowId}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string) {
+  const [createdAt, rowId] = Buffer.from(cursor, "base64url").toString("utf8").split("|");
+  if (!createdAt || !rowId || Number.isNaN(new Date(createdAt).getTime())) {
+    throw new Error("Invalid cursor.");
+  }
+  return { createdAt, rowId };
+}
+
+function parseDateFilter(value: string | undefined, label: string) {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${label} date.`);
+  }
+  return date.toISOString();
+}
+
+async function queryAuditLogPage(filters: AuditLogFilters, limit: number, cursor?: string | null) {
+  const whereParts: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.adminUserId) {
+    params.push(filters.adminUserId);
+    whereParts.push(`al.admin_user_id = $${params.length}`);
+  }
+  if (filters.action) {
+    params.push(filters.action);
+    whereParts.push(`al.action = $${params.length}`);
+  }
+  if (filters.targetUserId) {
+    params.push(filters.targetUserId);
+    whereParts.push(`al.target_user_id = $${params.length}`);
+  }
+  const from = parseDateFilter(filters.from, "from");
+  if (from) {
+    params.push(from);
+    whereParts.push(`al.created_at >= $${params.length}::timestamptz`);
+  }
+  const to = parseDateFilter(filters.to, "to");
+  if (to) {
+    params.push(to);
+    whereParts.push(`al.created_at < $${params.length}::timestamptz`);
+  }
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    params.push(decoded.createdAt, decoded.rowId);
+    whereParts.push(`(al.created_at, al.id) < ($${params.length - 1}::timestamptz, $${params.length})`);
+  }
+
+  const whereClause = whereParts.length > 0 ? `WHERE ${whereParts.join(" AND ")}` : "";
+  params.push(limit + 1);
+
+  // The cursor keeps microsecond precision; a JS Date would truncate it and
+  // skip rows written in the same millisecond.
+  const { rows } = await pool.query(
+    `SELECT
+       al.id,
+       al.admin_user_id AS "adminUserId",
+       TRIM(CONCAT(admin.first_name, ' ', admin.last_name)) AS "adminName",
+       al.action,
+       al.target_user_id AS "targetUserId",
+       CASE WHEN target.id IS NULL THEN NULL ELSE TRIM(CONCAT(target.first_name, ' ', target.last_name)) END AS "targetName",
+       al.metadata,
+       al.created_at AS "createdAt",
+       to_char(al.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS "cursorAt"
+     FROM admin_audit_logs al
+     JOIN users admin ON admin.id = al.admin_user_id
+     LEFT JOIN users target ON target.id = al.target_user_id
+     ${whereClause}
+     ORDER BY al.created_at DESC, al.id DESC
+     LIMIT $${params.length}`,
+    params
+  );
+
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+  return {
+    rows: pageRows.map(({ cursorAt: _cursorAt, ...row }) => row as AuditLogRow),
+    nextCursor: hasMore && last ? encodeCursor(String(last.cursorAt), String(last.id)) : null
+  };
+}
+
+export async function listAdminAuditLogs(
+  filters: AuditLogFilters,
+  options?: { limit?: number; cursor?: string | null }
+) {
+  const limit = Math.max(1, Math.min(Number(options?.limit ?? 50), 200));
+  return queryAuditLogPage(filters, limit, options?.cursor);
+}
+
+export async function* iterateAdminAuditLogs(filters: AuditLogFilters) {
+  let cursor: string | null = null;
+  let exported = 0;
+  while (exported < AUDIT_EXPORT_MAX_ROWS) {
+    const page = await queryAuditLogPage(
+      filters,
+      Math.min(AUDIT_EXPORT_BATCH_SIZE, AUDIT_EXPORT_MAX_ROWS - exported),
+      cursor
+    );
+    if (page.rows.length > 0) {
+      yield page.rows;
+    }
+    exported += page.rows.length;
+    if (!page.nextCursor) {
+      return;
+    }
+    cursor = page.nextCursor;
+  }
+}
+
+export const AUDIT_LOG_CSV_HEADER = "id,created_at,admin_user_id,admin_name,action,target_user_id,target_name,metadata";
+
+function csvField(value: unknown) {
+  const raw = value === null || value === undefined ? "" : String(value);
+  // Neutralise spreadsheet formulas coming from user-supplied text such as ban reasons.
+  const text = /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatAuditLogCsvRow(row: AuditLogRow) {
+  return [
+    row.id,
+    new Date(row.createdAt).toISOString(),
+    row.adminUserId,
+    row.adminName,
+    row.action,
+    row.targetUserId,
+    row.targetName,
+    JSON.stringify(row.metadata ?? {})
+  ]
+    .map(csvField)
+    .join(",");
+}
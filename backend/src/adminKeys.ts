@@ -0,0 +1,34 @@
+import { pool } from "./db.js";
+import { createAdminCredential, listAdminCredentials, revokeAdminCredential } from "./admin.js";
+
+const USAGE = [
+  "Usage:",
+  "  npm run admin:keys -- create <adminUserId> <label>",
+  "  npm run admin:keys -- revoke <credentialId>",
+  "  npm run admin:keys -- list"
+].join("\n");
+
+async function run() {
+  const [command, ...args] = process.argv.slice(2);
+  if (command === "create" && args[0] && args[1]) {
+    const credential = await createAdminCredential(args[0], args.slice(1).join(" "));
+    console.log(`Created ${credential.id} for ${credential.adminUserId} (${credential.label}).`);
+    console.log(`Key (shown once, send it as x-admin-key): ${credential.key}`);
+  } else if (command === "revoke" && args[0]) {
+    await revokeAdminCredential(args[0]);
+    console.log(`Revoked ${args[0]}.`);
+  } else if (command === "list") {
+    for (const row of await listAdminCredentials()) {
+      const state = row.revokedAt ? "revoked" : "active";
+      console.log(`${row.id}\t${row.adminUserId}\t${row.label}\t${state}\tlast used ${row.lastUsedAt ?? "never"}`);
+    }
+  } else {
+    throw new Error(USAGE);
+  }
+  await pool.end();
+}
+
+run().catch((err) => {
+  console.error("Admin key command failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,177 @@
+import type { PoolClient } from "pg";
+import { pool } from "./db.js";
+import { greatCircleMilesSql, type SpatialMode } from "./geo.js";
+import { buildDiscoveryCandidateQuery } from "./logic.js";
+
+const USAGE = "Usage: npm run bench:discovery -- [userCount=30000] [--plans]";
+
+// Metro centres the seeded users cluster around, with a share spread across
+// the continental US so the prefilter has something to throw away.
+const METROS = [
+  [40.7128, -74.006],
+  [34.0522, -118.2437],
+  [41.8781, -87.6298],
+  [29.7604, -95.3698],
+  [37.7749, -122.4194]
+];
+
+type PlanSummary = {
+  label: string;
+  executionMs: number;
+  rows: number;
+  scans: string[];
+  text: string[];
+};
+
+async function seedUsers(client: PoolClient, count: number) {
+  await client.query(
+    `INSERT INTO users (
+       id, first_name, age, gender, preferred_gender, bio, verified, verification_status,
+       hobbies, latitude, longitude, last_location_at, max_distance_miles
+     )
+     SELECT
+       'bench_' || g,
+       'Bench',
+       18 + (g % 40),
+       CASE WHEN g % 2 = 0 THEN 'male' ELSE 'female' END,
+       CASE WHEN g % 2 = 0 THEN 'female' ELSE 'male' END,
+       '',
+       g % 10 <> 0,
+       CASE WHEN g % 10 <> 0 THEN 'approved' ELSE 'unsubmitted' END,
+       (ARRAY['hiking', 'coffee', 'music', 'films', 'cooking'])[1 + (g % 5):2 + (g % 5)],
+       CASE WHEN g % 5 = 0
+         THEN 25 + random() * 24
+         ELSE (($2::float8[])[1 + (g % $3)][1]) + (random() - 0.5) * 1.5
+       END,
+       CASE WHEN g % 5 = 0
+         THEN -124 + random() * 57
+         ELSE (($2::float8[])[1 + (g % $3)][2]) + (random() - 0.5) * 1.5
+       END,
+       NOW() - random() * INTERVAL '14 days',
+       25
+     FROM generate_series(1, $1) AS g`,
+    [count, METROS, METROS.length]
+  );
+  await client.query("ANALYZE users");
+}
+
+function collectScans(node: Record<string, unknown>, out: string[]) {
+  const type = String(node["Node Type"]);
+  if (/Scan/.test(type) && node["Relation Name"] === "users") {
+    out.push(node["Index Name"] ? `${type} using ${node["Index Name"]}` : type);
+  }
+  for (const child of (node.Plans as Record<string, unknown>[] | undefined) ?? []) {
+    collectScans(child, out);
+  }
+}
+
+async function explain(
+  client: PoolClient,
+  label: string,
+  text: string,
+  values: unknown[],
+  showPlans: boolean
+): Promise<PlanSummary> {
+  const { rows } = await client.query(`EXPLAIN (ANALYZE, BUFFERS, FORMAT JSON) ${text}`, values);
+  const plan = rows[0]["QUERY PLAN"][0] as Record<string, unknown>;
+  const root = plan.Plan as Record<string, unknown>;
+  const scans: string[] = [];
+  collectScans(root, scans);
+  const textPlan = showPlans ? await client.query(`EXPLAIN ${text}`, values) : { rows: [] };
+  return {
+    label,
+    executionMs: Number(plan["Execution Time"]),
+    rows: Number(root["Actual Rows"]),
+    scans,
+    text: textPlan.rows.map((row) => String(row["QUERY PLAN"]))
+  };
+}
+
+// The query discovery ran before the spatial prefilter: the distance is
+// computed twice for every candidate row and no index can narrow the scan.
+function legacyQuery(viewer: Record<string, unknown>) {
+  return {
+    text: `SELECT u.id, ${greatCircleMilesSql("$2", "$3")} AS distance_miles
+           FROM users u
+           WHERE u.id <> $1
+             AND u.verified = TRUE
+             AND u.latitude IS NOT NULL
+             AND u.longitude IS NOT NULL
+             AND u.gender = $5
+             AND u.preferred_gender = $6
+             AND ${greatCircleMilesSql("$2", "$3")} <= $4
+           ORDER BY distance_miles ASC, u.id ASC`,
+    values: [
+      viewer.id,
+      Number(viewer.latitude),
+      Number(viewer.longitude),
+      Number(viewer.max_distance_miles),
+      String(viewer.preferred_gender),
+      String(viewer.gender)
+    ]
+  };
+}
+
+async function run() {
+  const args = process.argv.slice(2);
+  const showPlans = args.includes("--plans");
+  const count = Number(args.find((arg) => !arg.startsWith("--")) ?? 30000);
+  if (!Number.isInteger(count) || count < 1000) {
+    throw new Error(USAGE);
+  }
+
+  // Everything happens in one transaction that is rolled back, so the seeded
+  // users never outlive the run.
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    console.log(`Seeding ${count} users...`);
+    await seedUsers(client, count);
+
+    const { rows: extensionRows } = await client.query(
+      `SELECT COUNT(*)::int AS installed FROM pg_extension WHERE extname IN ('cube', 'earthdistance')`
+    );
+    const modes: SpatialMode[] = Number(extensionRows[0]?.installed ?? 0) === 2 ? ["bbox", "earthdistance"] : ["bbox"];
+    if (modes.length === 1) {
+      console.log("cube/earthdistance not installed; skipping the earthdistance plan.");
+    }
+
+    const { rows: viewerRows } = await client.query(
+      `SELECT id, latitude, longitude, max_distance_miles, gender, preferred_gender,
+              preferred_age_min, preferred_age_max, age
+       FROM users
+       WHERE id = 'bench_1'`
+    );
+    const viewer = viewerRows[0];
+
+    const legacy = legacyQuery(viewer);
+    const summaries = [await explain(client, "legacy (ACOS full scan)", legacy.text, legacy.values, showPlans)];
+    for (const mode of modes) {
+      const query = await buildDiscoveryCandidateQuery(viewer, mode);
+      summaries.push(await explain(client, `${mode} prefilter`, query.text, query.values, showPlans));
+    }
+
+    console.log("");
+    for (const summary of summaries) {
+      console.log(
+        `${summary.label.padEnd(26)} ${summary.executionMs.toFixed(2).padStart(9)} ms  ` +
+          `${String(summary.rows).padStart(5)} rows  users: ${summary.scans.join(", ") || "-"}`
+      );
+    }
+    if (showPlans) {
+      for (const summary of summaries) {
+        console.log(`\n=== ${summary.label} ===`);
+        console.log(summary.text.join("\n"));
+      }
+    }
+  } finally {
+    await client.query("ROLLBACK");
+    client.release();
+  }
+  await pool.end();
+}
+
+run().catch((err) => {
+  console.error("Discovery benchmark failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,46 @@
+import { classifyMessage, type ModerationVerdict } from "./moderation.js";
+
+// Sample messages and the verdict the rules classifier should give them. The
+// allow cases are everyday and safety phrasing the rules must not catch.
+const CASES: Array<[string, ModerationVerdict]> = [
+  ["text me when you get home", "allow"],
+  ["Let me know you got home safe!", "allow"],
+  ["I'll share my live location with a friend before we meet", "allow"],
+  ["Want to meet at the cafe on 5th at 7?", "allow"],
+  ["I work in crypto, you?", "allow"],
+  ["I'll venmo you for the drinks", "allow"],
+  ["my instagram is all dogs honestly", "allow"],
+  ["See you on 12/03/2025 at 19:30", "allow"],
+  ["text me on whatsapp instead", "warn"],
+  ["what's your snap?", "warn"],
+  ["my ig is @sunny.days", "warn"],
+  ["call me at 415-555-0134", "warn"],
+  ["email me at sam@example.com", "warn"],
+  ["come over to my place after", "warn"],
+  ["send me money for the train and I'll pay you back", "flag"],
+  ["cashapp me $50", "flag"],
+  ["great investment opportunity, guaranteed returns", "flag"],
+  ["check this out https://example.com/x", "flag"],
+  ["you are so pathetic", "flag"],
+  ["k1ll y0urself", "block"],
+  ["I know where you live", "block"]
+];
+
+async function main() {
+  let failures = 0;
+  for (const [body, expected] of CASES) {
+    const result = await classifyMessage({ body, matchId: "check", senderUserId: "a", recipientUserId: "b" });
+    const ok = result.verdict === expected;
+    if (!ok) {
+      failures += 1;
+    }
+    const details = result.findings.map((finding) => finding.detail).join("; ");
+    console.log(`${ok ? "ok  " : "FAIL"} ${expected.padEnd(5)} ${result.verdict.padEnd(5)} ${body}${details ? ` (${details})` : ""}`);
+  }
+  console.log(`${CASES.length - failures}/${CASES.length} cases passed`);
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+void main();
@@ -201,7 +201,12 @@ export async function initDb() {
       latitude DOUBLE PRECISION NULL,
       longitude DOUBLE PRECISION NULL,
       last_location_at TIMESTAMPTZ NULL,
-      max_distance_miles DOUBLE PRECISION NOT NULL DEFAULT 25
+      max_distance_miles DOUBLE PRECISION NOT NULL DEFAULT 25,
+      discoverable BOOLEAN NOT NULL DEFAULT TRUE,
+      discovery_visibility TEXT NOT NULL DEFAULT 'everyone' CHECK (discovery_visibility IN ('everyone', 'liked_only')),
+      paused_at TIMESTAMPTZ NULL,
+      last_active_at TIMESTAMPTZ NULL,
+      share_last_active BOOLEAN NOT NULL DEFAULT TRUE
     );
 
     ALTER TABLE users ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION NULL;
@@ -222,6 +227,15 @@ export async function initDb() {
     ALTER TABLE users ADD COLUMN IF NOT EXISTS is_banned BOOLEAN NOT NULL DEFAULT FALSE;
     ALTER TABLE users ADD COLUMN IF NOT EXISTS banned_reason TEXT NULL;
     ALTER TABLE users ADD COLUMN IF NOT EXISTS banned_at TIMESTAMPTZ NULL;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS failed_login_count INT NOT NULL DEFAULT 0;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS last_failed_login_at TIMESTAMPTZ NULL;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS login_locked_until TIMESTAMPTZ NULL;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMPTZ NULL;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS discoverable BOOLEAN NOT NULL DEFAULT TRUE;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS discovery_visibility TEXT NOT NULL DEFAULT 'everyone';
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ NULL;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS last_active_at TIMESTAMPTZ NULL;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS share_last_active BOOLEAN NOT NULL DEFAULT TRUE;
     ALTER TABLE users ADD COLUMN IF NOT EXISTS preferred_gender TEXT NULL;
     ALTER TABLE users ADD COLUMN IF NOT EXISTS preferred_age_min INT NOT NULL DEFAULT 18;
     ALTER TABLE users ADD COLUMN IF NOT EXISTS preferred_age_max INT NOT NULL DEFAULT 99;
@@ -254,6 +268,8 @@ export async function initDb() {
       CHECK (user_a_id <> user_b_id)
     );
 
+    ALTER TABLE matches ADD COLUMN IF NOT EXISTS coordination_expired BOOLEAN NOT NULL DEFAULT FALSE;
+
     CREATE TABLE IF NOT EXISTS user_blocks (
       blocker_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
       blocked_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
@@ -265,13 +281,24 @@ export async function initDb() {
     CREATE TABLE IF NOT EXISTS pair_closures (
       user_low_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
       user_high_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-      reason TEXT NOT NULL CHECK (reason IN ('unmatched', 'blocked')),
+      reason TEXT NOT NULL CHECK (reason IN ('unmatched', 'blocked', 'admin_closed')),
       actor_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
       created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
       PRIMARY KEY (user_low_id, user_high_id),
       CHECK (user_low_id <> user_high_id)
     );
 
+    DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'pair_closures_reason_check' AND conrelid = 'pair_closures'::regclass
+      ) THEN
+        ALTER TABLE pair_closures ADD CONSTRAINT pair_closures_reason_check
+          CHECK (reason IN ('unmatched', 'blocked', 'admin_closed'));
+      END IF;
+    END $$;
+
     CREATE TABLE IF NOT EXISTS messages (
       id TEXT PRIMARY KEY,
       match_id TEXT NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
@@ -280,6 +307,66 @@ export async function initDb() {
       created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
     );
 
+    ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_kind TEXT NULL;
+    ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_url TEXT NULL;
+    ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_mime_type TEXT NULL;
+    ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_size_bytes INTEGER NULL;
+    ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_duration_seconds REAL NULL;
+    DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'messages_attachment_kind_check' AND conrelid = 'messages'::regclass
+      ) THEN
+        ALTER TABLE messages ADD CONSTRAINT messages_attachment_kind_check CHECK (
+          (attachment_kind IS NULL AND attachment_url IS NULL)
+          OR (attachment_kind IN ('image', 'audio') AND attachment_url IS NOT NULL)
+        );
+      END IF;
+    END $$;
+
+    CREATE TABLE IF NOT EXISTS message_reactions (
+      message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      emoji TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (message_id, user_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS uploads (
+      id TEXT PRIMARY KEY,
+      owner_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      kind TEXT NOT NULL CHECK (kind IN ('image', 'audio')),
+      stored_name TEXT NOT NULL UNIQUE,
+      url TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      size_bytes INTEGER NOT NULL,
+      duration_seconds REAL NULL,
+      message_id TEXT NULL REFERENCES messages(id) ON DELETE SET NULL,
+      attached_at TIMESTAMPTZ NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+    ALTER TABLE uploads ADD COLUMN IF NOT EXISTS purpose TEXT NOT NULL DEFAULT 'profile_photo';
+    DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'uploads_purpose_check' AND conrelid = 'uploads'::regclass
+      ) THEN
+        ALTER TABLE uploads ADD CONSTRAINT uploads_purpose_check
+          CHECK (purpose IN ('message_attachment', 'profile_photo', 'verification'));
+      END IF;
+    END $$;
+
+    CREATE TABLE IF NOT EXISTS message_reads (
+      match_id TEXT NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      last_read_at TIMESTAMPTZ,
+      last_delivered_at TIMESTAMPTZ,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (match_id, user_id)
+    );
+
     CREATE TABLE IF NOT EXISTS meet_decisions (
       match_id TEXT NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
       user_id TEXT NOT NULL REFERENCES users(id),
@@ -334,16 +421,60 @@ export async function initDb() {
 
     CREATE TABLE IF NOT EXISTS user_reports (
       id TEXT PRIMARY KEY,
-      reporter_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      reporter_user_id TEXT NULL REFERENCES users(id) ON DELETE CASCADE,
       target_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
       reason TEXT NOT NULL,
       details TEXT NULL,
       status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reviewed', 'closed')),
       created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
       reviewed_at TIMESTAMPTZ NULL,
+      reviewed_by TEXT NULL REFERENCES users(id) ON DELETE SET NULL,
+      resolution TEXT NULL CHECK (resolution IN ('dismissed', 'warned', 'banned', 'pair_closed')),
+      resolution_note TEXT NULL,
       CHECK (reporter_user_id <> target_user_id)
     );
 
+    ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS reviewed_by TEXT NULL REFERENCES users(id) ON DELETE SET NULL;
+    ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS resolution TEXT NULL;
+    ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS resolution_note TEXT NULL;
+    ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'user';
+    ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS message_id TEXT NULL REFERENCES messages(id) ON DELETE SET NULL;
+    ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS moderation JSONB NULL;
+    ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS counterpart_user_id TEXT NULL REFERENCES users(id) ON DELETE CASCADE;
+    ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS match_id TEXT NULL REFERENCES matches(id) ON DELETE SET NULL;
+    ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS rule_key TEXT NULL;
+    ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS hit_count INT NOT NULL DEFAULT 1;
+    ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ NULL;
+    DO $$
+    BEGIN
+      IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_reports' AND column_name = 'reporter_user_id' AND is_nullable = 'NO'
+      ) THEN
+        ALTER TABLE user_reports ALTER COLUMN reporter_user_id DROP NOT NULL;
+      END IF;
+    END $$;
+    DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'user_reports_source_check' AND conrelid = 'user_reports'::regclass
+      ) THEN
+        ALTER TABLE user_reports ADD CONSTRAINT user_reports_source_check
+          CHECK (source IN ('user', 'moderation'));
+      END IF;
+    END $$;
+    DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'user_reports_reporter_source_check' AND conrelid = 'user_reports'::regclass
+      ) THEN
+        ALTER TABLE user_reports ADD CONSTRAINT user_reports_reporter_source_check
+          CHECK (source = 'moderation' OR reporter_user_id IS NOT NULL);
+      END IF;
+    END $$;
+
     CREATE TABLE IF NOT EXISTS auth_sessions (
       token TEXT PRIMARY KEY,
       user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
@@ -360,6 +491,45 @@ export async function initDb() {
       revoked_at TIMESTAMPTZ NULL
     );
 
+    ALTER TABLE auth_refresh_sessions ADD COLUMN IF NOT EXISTS name TEXT NULL;
+    ALTER TABLE auth_refresh_sessions ADD COLUMN IF NOT EXISTS device_label TEXT NULL;
+    ALTER TABLE auth_refresh_sessions ADD COLUMN IF NOT EXISTS platform TEXT NOT NULL DEFAULT 'unknown';
+    ALTER TABLE auth_refresh_sessions ADD COLUMN IF NOT EXISTS device_id TEXT NULL;
+    ALTER TABLE auth_refresh_sessions ADD COLUMN IF NOT EXISTS ip TEXT NULL;
+    ALTER TABLE auth_refresh_sessions ADD COLUMN IF NOT EXISTS user_agent TEXT NULL;
+    ALTER TABLE auth_refresh_sessions ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMPTZ NULL;
+
+    CREATE TABLE IF NOT EXISTS auth_refresh_tokens (
+      token_hash TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL REFERENCES auth_refresh_sessions(id) ON DELETE CASCADE,
+      parent_token_hash TEXT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      rotated_at TIMESTAMPTZ NULL,
+      revoked_at TIMESTAMPTZ NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS auth_email_tokens (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      purpose TEXT NOT NULL CHECK (purpose IN ('email_verify', 'password_reset')),
+      token_hash TEXT NOT NULL UNIQUE,
+      email TEXT NOT NULL,
+      expires_at TIMESTAMPTZ NOT NULL,
+      used_at TIMESTAMPTZ NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS security_events (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      kind TEXT NOT NULL,
+      session_id TEXT NULL,
+      ip TEXT NULL,
+      user_agent TEXT NULL,
+      metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
     CREATE TABLE IF NOT EXISTS admin_audit_logs (
       id TEXT PRIMARY KEY,
       admin_user_id TEXT NOT NULL REFERENCES users(id),
@@ -369,6 +539,16 @@ export async function initDb() {
       created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
     );
 
+    CREATE TABLE IF NOT EXISTS admin_credentials (
+      id TEXT PRIMARY KEY,
+      admin_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      label TEXT NOT NULL,
+      key_hash TEXT NOT NULL UNIQUE,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      last_used_at TIMESTAMPTZ NULL,
+      revoked_at TIMESTAMPTZ NULL
+    );
+
     CREATE TABLE IF NOT EXISTS user_push_tokens (
       id TEXT PRIMARY KEY,
       user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
@@ -379,6 +559,9 @@ export async function initDb() {
       last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
     );
 
+    ALTER TABLE user_push_tokens
+    ADD COLUMN IF NOT EXISTS session_id TEXT NULL REFERENCES auth_refresh_sessions(id) ON DELETE SET NULL;
+
     CREATE TABLE IF NOT EXISTS product_events (
       id TEXT PRIMARY KEY,
       user_id TEXT NULL REFERENCES users(id) ON DELETE SET NULL,
@@ -387,9 +570,132 @@ export async function initDb() {
       created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
     );
 
+    CREATE TABLE IF NOT EXISTS discovery_feeds (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      variant TEXT NOT NULL,
+      filters_key TEXT NOT NULL,
+      ranked_user_ids TEXT[] NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      expires_at TIMESTAMPTZ NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS swipe_events (
+      id TEXT PRIMARY KEY,
+      from_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      to_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      decision TEXT NOT NULL CHECK (decision IN ('left', 'right')),
+      previous_decision TEXT CHECK (previous_decision IN ('left', 'right')),
+      previous_created_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      undone_at TIMESTAMPTZ
+    );
+
+    CREATE TABLE IF NOT EXISTS places (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      category TEXT NOT NULL,
+      latitude DOUBLE PRECISION NOT NULL,
+      longitude DOUBLE PRECISION NOT NULL,
+      address TEXT NULL,
+      timezone TEXT NOT NULL,
+      opening_hours JSONB NULL,
+      safety_tier TEXT NOT NULL DEFAULT 'standard' CHECK (safety_tier IN ('preferred', 'standard', 'limited')),
+      is_public BOOLEAN NOT NULL DEFAULT TRUE,
+      active BOOLEAN NOT NULL DEFAULT TRUE,
+      source TEXT NOT NULL DEFAULT 'import',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS trusted_contacts (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      phone TEXT NULL,
+      email TEXT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      CHECK (phone IS NOT NULL OR email IS NOT NULL)
+    );
+
+    CREATE TABLE IF NOT EXISTS safety_checkins (
+      id TEXT PRIMARY KEY,
+      offer_id TEXT NOT NULL REFERENCES meetup_offers(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      due_at TIMESTAMPTZ NOT NULL,
+      status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'reminded', 'escalated', 'ok', 'panic')),
+      reminded_at TIMESTAMPTZ NULL,
+      escalated_at TIMESTAMPTZ NULL,
+      responded_at TIMESTAMPTZ NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (offer_id, user_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS panic_events (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      offer_id TEXT NULL REFERENCES meetup_offers(id) ON DELETE SET NULL,
+      place_id TEXT NULL,
+      place_label TEXT NULL,
+      latitude DOUBLE PRECISION NULL,
+      longitude DOUBLE PRECISION NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS safety_notifications (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      contact_id TEXT NULL REFERENCES trusted_contacts(id) ON DELETE SET NULL,
+      checkin_id TEXT NULL REFERENCES safety_checkins(id) ON DELETE SET NULL,
+      panic_event_id TEXT NULL REFERENCES panic_events(id) ON DELETE SET NULL,
+      kind TEXT NOT NULL CHECK (kind IN ('missed_checkin', 'panic')),
+      channel TEXT NOT NULL,
+      payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+      error TEXT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      sent_at TIMESTAMPTZ NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS login_events (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NULL REFERENCES users(id) ON DELETE CASCADE,
+      username TEXT NOT NULL,
+      ip TEXT NULL,
+      user_agent TEXT NULL,
+      device_id TEXT NULL,
+      outcome TEXT NOT NULL CHECK (
+        outcome IN ('success', 'bad_password', 'unknown_user', 'throttled', 'locked', 'banned')
+      ),
+      new_device BOOLEAN NOT NULL DEFAULT FALSE,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS user_login_devices (
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      device_key TEXT NOT NULL,
+      label TEXT NULL,
+      first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      last_ip TEXT NULL,
+      PRIMARY KEY (user_id, device_key)
+    );
+
+    CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+      key TEXT PRIMARY KEY,
+      window_start BIGINT NOT NULL,
+      window_ms INT NOT NULL,
+      max_hits INT NOT NULL,
+      current_count INT NOT NULL DEFAULT 0,
+      previous_count INT NOT NULL DEFAULT 0,
+      expires_at TIMESTAMPTZ NOT NULL
+    );
+
     CREATE INDEX IF NOT EXISTS idx_matches_pair ON matches (user_a_id, user_b_id);
     CREATE INDEX IF NOT EXISTS idx_matches_user_a_created ON matches (user_a_id, created_at DESC);
     CREATE INDEX IF NOT EXISTS idx_matches_user_b_created ON matches (user_b_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_matches_coordination_open ON matches (coordination_ends_at)
+      WHERE coordination_ends_at IS NOT NULL AND coordination_expired = FALSE;
     CREATE INDEX IF NOT EXISTS idx_messages_match ON messages (match_id);
     CREATE INDEX IF NOT EXISTS idx_messages_match_created ON messages (match_id, created_at DESC);
     CREATE INDEX IF NOT EXISTS idx_meet_decisions_match ON meet_decisions (match_id);
@@ -402,14 +708,58 @@ export async function initDb() {
     CREATE INDEX IF NOT EXISTS idx_verification_submissions_status ON verification_submissions (status, submitted_at DESC);
     CREATE INDEX IF NOT EXISTS idx_user_reports_status_created ON user_reports (status, created_at DESC);
     CREATE INDEX IF NOT EXISTS idx_user_reports_target_created ON user_reports (target_user_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_user_reports_reporter_created ON user_reports (reporter_user_id, created_at DESC);
     CREATE INDEX IF NOT EXISTS idx_auth_sessions_user ON auth_sessions (user_id);
     CREATE INDEX IF NOT EXISTS idx_auth_refresh_sessions_user ON auth_refresh_sessions (user_id);
     CREATE INDEX IF NOT EXISTS idx_auth_refresh_sessions_expires ON auth_refresh_sessions (expires_at);
+    CREATE INDEX IF NOT EXISTS idx_auth_refresh_tokens_session ON auth_refresh_tokens (session_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_security_events_user_created ON security_events (user_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_auth_email_tokens_user_purpose ON auth_email_tokens (user_id, purpose, created_at DESC);
     CREATE INDEX IF NOT EXISTS idx_admin_audit_logs_created ON admin_audit_logs (created_at DESC);
     CREATE INDEX IF NOT EXISTS idx_admin_audit_logs_target ON admin_audit_logs (target_user_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_admin_audit_logs_admin ON admin_audit_logs (admin_user_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_admin_audit_logs_action ON admin_audit_logs (action, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_admin_credentials_admin ON admin_credentials (admin_user_id, created_at DESC);
     CREATE INDEX IF NOT EXISTS idx_user_push_tokens_user_active ON user_push_tokens (user_id, active, last_seen_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_user_push_tokens_session ON user_push_tokens (session_id);
     CREATE INDEX IF NOT EXISTS idx_product_events_event_time ON product_events (event_name, created_at DESC);
     CREATE INDEX IF NOT EXISTS idx_product_events_user_time ON product_events (user_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_places_geo ON places (latitude, longitude) WHERE active = TRUE AND is_public = TRUE;
+    CREATE INDEX IF NOT EXISTS idx_trusted_contacts_user ON trusted_contacts (user_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_safety_checkins_status_due ON safety_checkins (status, due_at);
+    CREATE INDEX IF NOT EXISTS idx_safety_checkins_user_status ON safety_checkins (user_id, status);
+    CREATE INDEX IF NOT EXISTS idx_panic_events_user_created ON panic_events (user_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_expires ON rate_limit_buckets (expires_at);
+    CREATE INDEX IF NOT EXISTS idx_login_events_user_created ON login_events (user_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_login_events_username_created ON login_events (username, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_discovery_feeds_user_created ON discovery_feeds (user_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_discovery_feeds_expires ON discovery_feeds (expires_at);
+    CREATE INDEX IF NOT EXISTS idx_users_discovery_geo ON users (latitude, longitude) WHERE verified = TRUE AND is_banned = FALSE;
+    CREATE INDEX IF NOT EXISTS idx_swipe_events_from_created ON swipe_events (from_user_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_message_reads_user ON message_reads (user_id);
+    CREATE INDEX IF NOT EXISTS idx_uploads_owner_created ON uploads (owner_user_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_uploads_message ON uploads (message_id) WHERE message_id IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_user_reports_source_status_created ON user_reports (source, status, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_user_reports_moderation_open ON user_reports (target_user_id, match_id, rule_key, last_seen_at DESC)
+      WHERE source = 'moderation' AND status = 'open';
+  `);
+
+  await pool.query(`
+    DO $$
+    BEGIN
+      IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'earthdistance') THEN
+        EXECUTE 'CREATE INDEX IF NOT EXISTS idx_users_discovery_earth
+                 ON users USING gist (ll_to_earth(latitude, longitude))
+                 WHERE verified = TRUE AND is_banned = FALSE';
+      END IF;
+    END $$;
+  `);
+
+  await pool.query(`
+    INSERT INTO auth_refresh_tokens (token_hash, session_id, created_at, revoked_at)
+    SELECT refresh_token_hash, id, created_at, revoked_at
+    FROM auth_refresh_sessions
+    ON CONFLICT (token_hash) DO NOTHING
   `);
 
   await pool.query(`
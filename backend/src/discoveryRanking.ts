@@ -0,0 +1,245 @@
+import { createHash } from "node:crypto";
+
+export type RankingViewer = {
+  id: string;
+  age: number;
+  preferredAgeMin: number;
+  preferredAgeMax: number;
+  maxDistanceMiles: number;
+  hobbies: string[];
+};
+
+export type RankingCandidate = {
+  id: string;
+  age: number;
+  preferredAgeMin: number;
+  preferredAgeMax: number;
+  distanceMiles: number;
+  bio: string;
+  photos: string[];
+  hobbies: string[];
+  hasProfilePhoto: boolean;
+  promptCount: number;
+  lastLocationAt: Date | null;
+  likedViewer: boolean;
+};
+
+// Every signal scores a candidate between 0 and 1 for the viewer; the ranker
+// combines them with per-variant weights. `seed` is fixed for one feed so any
+// randomness stays stable while the viewer pages through it.
+export type RankingSignal = {
+  name: string;
+  score: (candidate: RankingCandidate, viewer: RankingViewer, seed: string) => number;
+};
+
+export type RankingWeights = Record<string, number>;
+
+export type DiscoveryRanker = {
+  name: string;
+  rank: (
+    viewer: RankingViewer,
+    candidates: RankingCandidate[],
+    options: { weights: RankingWeights; seed: string }
+  ) => RankingCandidate[];
+};
+
+const RECENCY_HALF_LIFE_HOURS = 24;
+const COMPLETENESS_TARGET_PHOTOS = 4;
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  distance: 0.3,
+  completeness: 0.15,
+  recency: 0.15,
+  preferenceFit: 0.15,
+  sharedHobbies: 0.1,
+  inboundLike: 0.1,
+  jitter: 0.05
+};
+
+function clamp01(value: number) {
+  return Math.max(0, Math.min(1, value));
+}
+
+function seededFraction(seed: string, value: string) {
+  return createHash("sha256").update(`${seed}:${value}`).digest().readUInt32BE(0) / 0xffffffff;
+}
+
+// 1 at the middle of a preferred age range, falling to 0 at its edges.
+function rangeFit(age: number, min: number, max: number) {
+  if (max <= min) {
+    return age === min ? 1 : 0;
+  }
+  const middle = (min + max) / 2;
+  return clamp01(1 - Math.abs(age - middle) / ((max - min) / 2));
+}
+
+function normalizeHobbies(hobbies: string[]) {
+  return new Set(hobbies.map((hobby) => hobby.trim().toLowerCase()).filter(Boolean));
+}
+
+const SIGNALS: RankingSignal[] = [
+  {
+    name: "distance",
+    score: (candidate, viewer) => clamp01(1 - candidate.distanceMiles / Math.max(1, viewer.maxDistanceMiles))
+  },
+  {
+    name: "completeness",
+    score: (candidate) =>
+      (Math.min(candidate.photos.length, COMPLETENESS_TARGET_PHOTOS) / COMPLETENESS_TARGET_PHOTOS) * 0.4 +
+      (candidate.bio.trim().length >= 40 ? 0.2 : candidate.bio.trim() ? 0.1 : 0) +
+      (candidate.hasProfilePhoto ? 0.1 : 0) +
+      (Math.min(candidate.promptCount, 3) / 3) * 0.2 +
+      (candidate.hobbies.length > 0 ? 0.1 : 0)
+  },
+  {
+    name: "recency",
+    score: (candidate) => {
+      if (!candidate.lastLocationAt) {
+        return 0;
+      }
+      const hours = Math.max(0, (Date.now() - candidate.lastLocationAt.getTime()) / 3600000);
+      return 0.5 ** (hours / RECENCY_HALF_LIFE_HOURS);
+    }
+  },
+  {
+    name: "preferenceFit",
+    score: (candidate, viewer) =>
+      (rangeFit(candidate.age, viewer.preferredAgeMin, viewer.preferredAgeMax) +
+        rangeFit(viewer.age, candidate.preferredAgeMin, candidate.preferredAgeMax)) /
+      2
+  },
+  {
+    name: "sharedHobbies",
+    score: (candidate, viewer) => {
+      const mine = normalizeHobbies(viewer.hobbies);
+      const theirs = normalizeHobbies(candidate.hobbies);
+      if (mine.size === 0 || theirs.size === 0) {
+        return 0;
+      }
+      const shared = [...theirs].filter((hobby) => mine.has(hobby)).length;
+      return shared / new Set([...mine, ...theirs]).size;
+    }
+  },
+  {
+    name: "inboundLike",
+    score: (candidate) => (candidate.likedViewer ? 1 : 0)
+  },
+  {
+    name: "jitter",
+    score: (candidate, _viewer, seed) => seededFraction(seed, candidate.id)
+  }
+];
+
+export function registerRankingSignal(signal: RankingSignal) {
+  const index = SIGNALS.findIndex((existing) => existing.name === signal.name);
+  if (index >= 0) {
+    SIGNALS[index] = signal;
+  } else {
+    SIGNALS.push(signal);
+  }
+}
+
+const weightedSumRanker: DiscoveryRanker = {
+  name: "weighted_sum",
+  rank(viewer, candidates, { weights, seed }) {
+    const scored = candidates.map((candidate) => {
+      let score = 0;
+      for (const signal of SIGNALS) {
+        const weight = weights[signal.name] ?? 0;
+        if (weight !== 0) {
+          score += weight * clamp01(signal.score(candidate, viewer, seed));
+        }
+      }
+      return { candidate, score, tiebreak: seededFraction(seed, candidate.id) };
+    });
+    scored.sort((a, b) => b.score - a.score || a.tiebreak - b.tiebreak);
+    return scored.map((entry) => entry.candidate);
+  }
+};
+
+function parseWeights(raw: unknown): RankingWeights {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(raw as Record<string, unknown>).filter(
+      (entry): entry is [string, number] => typeof entry[1] === "number" && Number.isFinite(entry[1])
+    )
+  );
+}
+
+function parseJsonEnv(name: string) {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    throw new Error(`${name} must be valid JSON.`);
+  }
+}
+
+function buildVariants(base: RankingWeights, overrides: Record<string, unknown>) {
+  const variants: Record<string, RankingWeights> = { control: base };
+  for (const [name, weights] of Object.entries(overrides)) {
+    variants[name] = { ...base, ...parseWeights(weights) };
+  }
+  return variants;
+}
+
+const baseRankingWeights: RankingWeights = {
+  ...DEFAULT_RANKING_WEIGHTS,
+  ...parseWeights(parseJsonEnv("DISCOVERY_RANKING_WEIGHTS"))
+};
+
+// DISCOVERY_RANKING_WEIGHTS overrides the defaults for everyone. Each entry in
+// DISCOVERY_RANKING_VARIANTS overrides them again for an equal share of users,
+// e.g. {"near_first":{"distance":0.6}}; everyone else stays on "control".
+function loadVariants() {
+  const configured = parseJsonEnv("DISCOVERY_RANKING_VARIANTS");
+  return buildVariants(
+    baseRankingWeights,
+    configured && typeof configured === "object" && !Array.isArray(configured)
+      ? (configured as Record<string, unknown>)
+      : {}
+  );
+}
+
+let rankingVariants = loadVariants();
+let activeRanker: DiscoveryRanker = weightedSumRanker;
+
+// Variants are overrides on top of the resolved base weights, the same way the
+// env config is read, so DISCOVERY_RANKING_WEIGHTS still applies to them.
+export function setRankingVariants(variants: Record<string, RankingWeights>) {
+  rankingVariants = buildVariants(baseRankingWeights, variants);
+}
+
+export function getRankingVariants() {
+  return rankingVariants;
+}
+
+export function setDiscoveryRanker(ranker: DiscoveryRanker) {
+  activeRanker = ranker;
+}
+
+export function getDiscoveryRanker() {
+  return activeRanker;
+}
+
+// Users are bucketed by a hash of their id so they keep their variant across
+// sessions and replicas without storing the assignment.
+export function assignRankingVariant(userId: string) {
+  const names = Object.keys(rankingVariants).sort();
+  const index = Math.floor(seededFraction("discovery_variant", userId) * names.length) % names.length;
+  const name = names[index];
+  return { name, weights: rankingVariants[name] };
+}
+
+export function rankDiscoveryCandidates(
+  viewer: RankingViewer,
+  candidates: RankingCandidate[],
+  options: { weights: RankingWeights; seed: string }
+) {
+  return activeRanker.rank(viewer, candidates, options);
+}
@@ -0,0 +1,122 @@
+import { pool } from "./db.js";
+import { captureBackendError } from "./sentry.js";
+
+const EARTH_RADIUS_MILES = 3959;
+const METERS_PER_MILE = 1609.344;
+
+export type SpatialMode = "bbox" | "earthdistance";
+
+export type BoundingBox = {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+};
+
+// Great-circle distance in miles from the point in the two params to the
+// latitude/longitude columns of `alias`.
+export function greatCircleMilesSql(latitudeParam: string, longitudeParam: string, alias = "u") {
+  return `${EARTH_RADIUS_MILES} * ACOS(
+    LEAST(1, GREATEST(-1,
+      COS(RADIANS(${latitudeParam})) * COS(RADIANS(${alias}.latitude)) *
+      COS(RADIANS(${alias}.longitude) - RADIANS(${longitudeParam})) +
+      SIN(RADIANS(${latitudeParam})) * SIN(RADIANS(${alias}.latitude))
+    ))
+  )`;
+}
+
+// Smallest lat/lng box containing every point within radiusMiles. Longitudes
+// may run past ±180 when the circle crosses the antimeridian, and near a pole
+// the box spans every longitude.
+export function boundingBox(latitude: number, longitude: number, radiusMiles: number): BoundingBox {
+  const angular = radiusMiles / EARTH_RADIUS_MILES;
+  const lat = (latitude * Math.PI) / 180;
+  const minLat = lat - angular;
+  const maxLat = lat + angular;
+  const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+  if (minLat <= -Math.PI / 2 || maxLat >= Math.PI / 2) {
+    return {
+      minLatitude: Math.max(-90, toDegrees(minLat)),
+      maxLatitude: Math.min(90, toDegrees(maxLat)),
+      minLongitude: -180,
+      maxLongitude: 180
+    };
+  }
+  const deltaLng = toDegrees(Math.asin(Math.sin(angular) / Math.cos(lat)));
+  return {
+    minLatitude: toDegrees(minLat),
+    maxLatitude: toDegrees(maxLat),
+    minLongitude: longitude - deltaLng,
+    maxLongitude: longitude + deltaLng
+  };
+}
+
+// Adds a cheap, index-friendly condition that keeps every user within
+// radiusMiles of the point (plus some just outside it), so the exact distance
+// only has to be computed for the survivors. Parameters are appended to params.
+export function spatialPrefilterSql(
+  mode: SpatialMode,
+  params: unknown[],
+  latitude: number,
+  longitude: number,
+  radiusMiles: number,
+  alias = "u"
+) {
+  if (mode === "earthdistance") {
+    params.push(latitude, longitude, radiusMiles * METERS_PER_MILE);
+    const n = params.length;
+    return `earth_box(ll_to_earth($${n - 2}, $${n - 1}), $${n}) @> ll_to_earth(${alias}.latitude, ${alias}.longitude)`;
+  }
+
+  const box = boundingBox(latitude, longitude, radiusMiles);
+  params.push(box.minLatitude, box.maxLatitude);
+  const latitudeSql = `${alias}.latitude BETWEEN $${params.length - 1} AND $${params.length}`;
+  if (box.minLongitude <= -180 && box.maxLongitude >= 180) {
+    return latitudeSql;
+  }
+  if (box.minLongitude < -180 || box.maxLongitude > 180) {
+    const west = box.minLongitude < -180 ? box.minLongitude + 360 : box.minLongitude;
+    const east = box.maxLongitude > 180 ? box.maxLongitude - 360 : box.maxLongitude;
+    params.push(west, east);
+    return `${latitudeSql} AND (${alias}.longitude >= $${params.length - 1} OR ${alias}.longitude <= $${params.length})`;
+  }
+  params.push(box.minLongitude, box.maxLongitude);
+  return `${latitudeSql} AND ${alias}.longitude BETWEEN $${params.length - 1} AND $${params.length}`;
+}
+
+let spatialModePromise: Promise<SpatialMode> | null = null;
+
+async function detectSpatialMode(): Promise<SpatialMode> {
+  const configured = (process.env.DISCOVERY_SPATIAL_MODE ?? "auto").toLowerCase();
+  if (configured === "bbox") {
+    return "bbox";
+  }
+  try {
+    const { rows } = await pool.query(
+      `SELECT COUNT(*)::int AS installed FROM pg_extension WHERE extname IN ('cube', 'earthdistance')`
+    );
+    const available = Number(rows[0]?.installed ?? 0) === 2;
+    if (configured === "earthdistance" && !available) {
+      console.warn("DISCOVERY_SPATIAL_MODE=earthdistance but the extension is not installed; using bbox.");
+    }
+    return available ? "earthdistance" : "bbox";
+  } catch (err) {
+    captureBackendError(err, { stage: "spatial_capability_check" });
+    return "bbox";
+  }
+}
+
+// earthdistance is used when the cube and earthdistance extensions are
+// installed (DISCOVERY_SPATIAL_MODE=bbox opts out); plain bounding boxes work
+// everywhere. The check runs once per process.
+export function getSpatialMode() {
+  if (!spatialModePromise) {
+    spatialModePromise = detectSpatialMode();
+  }
+  return spatialModePromise;
+}
+
+export function setSpatialMode(mode: SpatialMode) {
+  spatialModePromise = Promise.resolve(mode);
+}
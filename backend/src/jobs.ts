@@ -0,0 +1,256 @@
+import type { PoolClient } from "pg";
+import { pool } from "./db.js";
+import { sendPushToUsers } from "./push.js";
+import { purgeExpiredRateLimitBuckets } from "./rateLimit.js";
+import { publishToUsers, type RealtimeEvent } from "./realtime.js";
+import { sweepSafetyCheckins } from "./safety.js";
+import { captureBackendError } from "./sentry.js";
+
+const JOBS_ENABLED = (process.env.BACKGROUND_JOBS_ENABLED ?? "true").toLowerCase() !== "false";
+const SWEEP_INTERVAL_SECONDS = Math.max(5, Number(process.env.EXPIRY_SWEEP_INTERVAL_SECONDS ?? 30));
+const AVAILABILITY_SESSION_MAX_MINUTES = Math.max(
+  15,
+  Number(process.env.AVAILABILITY_SESSION_MAX_MINUTES ?? 120)
+);
+const SWEEP_BATCH_SIZE = 200;
+
+type PushNotification = { title: string; body: string; data?: Record<string, unknown> };
+type PendingPush = { userIds: string[]; notification: PushNotification; event?: RealtimeEvent };
+type SweepOutcome = { pushes: PendingPush[]; afterCommit?: () => Promise<void> };
+type Sweep = {
+  name: string;
+  run: (client: PoolClient) => Promise<SweepOutcome>;
+};
+
+function offerStatusEvent(row: Record<string, unknown>, status: string): RealtimeEvent {
+  return {
+    type: "offer.status_changed",
+    data: { offerId: row.id, sessionId: row.session_id, status, coordinationEndsAt: null }
+  };
+}
+
+async function sweepExpiredOffers(client: PoolClient) {
+  const { rows } = await client.query(
+    `UPDATE meetup_offers
+     SET status = 'expired'
+     WHERE id IN (
+       SELECT id FROM meetup_offers
+       WHERE status = 'pending' AND respond_by < NOW()
+       ORDER BY respond_by
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, session_id, initiator_user_id, recipient_user_id`,
+    [SWEEP_BATCH_SIZE]
+  );
+  const pushes = rows.map((row) => ({
+    userIds: [String(row.initiator_user_id), String(row.recipient_user_id)],
+    notification: {
+      title: "Meet offer expired",
+      body: "The offer wasn't answered in time.",
+      data: { type: "offer_expired", offerId: String(row.id), sessionId: String(row.session_id) }
+    },
+    event: offerStatusEvent(row, "expired")
+  }));
+  return { pushes };
+}
+
+async function sweepExpiredLocations(client: PoolClient) {
+  const { rows } = await client.query(
+    `UPDATE meetup_offers
+     SET status = 'location_expired'
+     WHERE id IN (
+       SELECT id FROM meetup_offers
+       WHERE status = 'accepted' AND location_expires_at < NOW()
+       ORDER BY location_expires_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, session_id, initiator_user_id, recipient_user_id`,
+    [SWEEP_BATCH_SIZE]
+  );
+  const pushes = rows.map((row) => ({
+    userIds: [String(row.initiator_user_id), String(row.recipient_user_id)],
+    notification: {
+      title: "Meetup location expired",
+      body: "Start a new availability session to meet up again.",
+      data: { type: "location_expired", offerId: String(row.id), sessionId: String(row.session_id) }
+    },
+    event: offerStatusEvent(row, "location_expired")
+  }));
+  return { pushes };
+}
+
+async function sweepCoordinationWindows(client: PoolClient) {
+  const { rows } = await client.query(
+    `UPDATE matches
+     SET coordination_expired = TRUE
+     WHERE id IN (
+       SELECT id FROM matches
+       WHERE coordination_ends_at IS NOT NULL
+         AND coordination_expired = FALSE
+         AND coordination_ends_at < NOW()
+       ORDER BY coordination_ends_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, user_a_id, user_b_id`,
+    [SWEEP_BATCH_SIZE]
+  );
+  const pushes = rows.map((row) => ({
+    userIds: [String(row.user_a_id), String(row.user_b_id)],
+    notification: {
+      title: "Coordination window closed",
+      body: "Your meetup coordination chat has ended.",
+      data: { type: "coordination_ended", matchId: String(row.id) }
+    }
+  }));
+  return { pushes };
+}
+
+async function sweepStaleSessions(client: PoolClient) {
+  const { rows } = await client.query(
+    `UPDATE availability_sessions
+     SET active = FALSE
+     WHERE id IN (
+       SELECT s.id FROM availability_sessions s
+       WHERE s.active = TRUE
+         AND s.created_at < NOW() - ($1::int || ' minutes')::interval
+         AND NOT EXISTS (
+           SELECT 1 FROM meetup_offers o
+           WHERE o.session_id = s.id AND o.status IN ('pending', 'accepted')
+         )
+       ORDER BY s.created_at
+       LIMIT $2
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, initiator_user_id`,
+    [AVAILABILITY_SESSION_MAX_MINUTES, SWEEP_BATCH_SIZE]
+  );
+  const pushes = rows.map((row) => ({
+    userIds: [String(row.initiator_user_id)],
+    notification: {
+      title: "You're no longer marked as out",
+      body: "Your availability session closed automatically.",
+      data: { type: "availability_closed", sessionId: String(row.id) }
+    }
+  }));
+  return { pushes };
+}
+
+async function sweepSafetyCheckinsJob(client: PoolClient): Promise<SweepOutcome> {
+  const result = await sweepSafetyCheckins(client);
+  return { pushes: result.reminders, afterCommit: result.deliver };
+}
+
+async function sweepRateLimitBuckets(client: PoolClient): Promise<SweepOutcome> {
+  await purgeExpiredRateLimitBuckets(client, SWEEP_BATCH_SIZE * 5);
+  return { pushes: [] };
+}
+
+async function sweepDiscoveryFeeds(client: PoolClient): Promise<SweepOutcome> {
+  await client.query(
+    `DELETE FROM discovery_feeds
+     WHERE id IN (
+       SELECT id FROM discovery_feeds
+       WHERE expires_at < NOW()
+       LIMIT $1
+     )`,
+    [SWEEP_BATCH_SIZE * 5]
+  );
+  return { pushes: [] };
+}
+
+const SWEEPS: Sweep[] = [
+  { name: "offers", run: sweepExpiredOffers },
+  { name: "locations", run: sweepExpiredLocations },
+  { name: "coordination_windows", run: sweepCoordinationWindows },
+  { name: "availability_sessions", run: sweepStaleSessions },
+  { name: "safety_checkins", run: sweepSafetyCheckinsJob },
+  { name: "rate_limits", run: sweepRateLimitBuckets },
+  { name: "discovery_feeds", run: sweepDiscoveryFeeds }
+];
+
+// Each sweep holds a transaction-scoped advisory lock, so when several replicas
+// tick at once only one of them does the work and the rest skip.
+async function runSweep(sweep: Sweep) {
+  const client = await pool.connect();
+  let outcome: SweepOutcome = { pushes: [] };
+  try {
+    await client.query("BEGIN");
+    const lockRes = await client.query(`SELECT pg_try_advisory_xact_lock(hashtext($1)) AS locked`, [
+      `expiry_sweep:${sweep.name}`
+    ]);
+    if (!lockRes.rows[0]?.locked) {
+      await client.query("ROLLBACK");
+      return 0;
+    }
+    outcome = await sweep.run(client);
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  if (outcome.afterCommit) {
+    await outcome.afterCommit();
+  }
+  for (const push of outcome.pushes) {
+    if (push.event) {
+      publishToUsers(push.userIds, push.event);
+    }
+    void sendPushToUsers(push.userIds, push.notification).catch(() => null);
+  }
+  return outcome.pushes.length;
+}
+
+export async function runExpirySweeps() {
+  const results: Record<string, number> = {};
+  for (const sweep of SWEEPS) {
+    try {
+      results[sweep.name] = await runSweep(sweep);
+    } catch (err) {
+      captureBackendError(err, { stage: "expiry_sweep", sweep: sweep.name });
+      results[sweep.name] = 0;
+    }
+  }
+  return results;
+}
+
+export function startBackgroundJobs() {
+  if (!JOBS_ENABLED) {
+    return () => undefined;
+  }
+
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  const tick = async () => {
+    const results = await runExpirySweeps();
+    const total = Object.values(results).reduce((sum, count) => sum + count, 0);
+    if (total > 0) {
+      console.log(JSON.stringify({ level: "info", event: "expiry_sweep", ...results }));
+    }
+  };
+
+  const schedule = () => {
+    if (stopped) {
+      return;
+    }
+    timer = setTimeout(() => {
+      void tick().finally(schedule);
+    }, SWEEP_INTERVAL_SECONDS * 1000);
+    timer.unref();
+  };
+
+  schedule();
+
+  return () => {
+    stopped = true;
+    if (timer) {
+      clearTimeout(timer);
+    }
+  };
+}
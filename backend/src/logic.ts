@@ -1,7 +1,27 @@
 import { pool } from "./db.js";
 import { createHash, randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
 import { createAccessToken, createRefreshToken, verifyAccessToken } from "./authToken.js";
+import { assignRankingVariant, rankDiscoveryCandidates, type RankingCandidate } from "./discoveryRanking.js";
+import { getSpatialMode, greatCircleMilesSql, spatialPrefilterSql, type SpatialMode } from "./geo.js";
+import { sendMail } from "./mail.js";
+import { classifyMessage, type ModerationResult } from "./moderation.js";
 import { registerUserPushToken, sendPushToUsers } from "./push.js";
+import {
+  clearFailedLogins,
+  deviceLabel,
+  devicePlatform,
+  loginBlockReason,
+  noteLoginDevice,
+  recordLoginEvent,
+  recordSecurityEvent,
+  registerFailedLogin,
+  type LoginContext
+} from "./loginSecurity.js";
+import { getBookablePlace, listPlacesNear } from "./places.js";
+import { publishToUsers } from "./realtime.js";
+import { scheduleSafetyCheckins } from "./safety.js";
+import { captureBackendError } from "./sentry.js";
+import { deleteStoredUpload } from "./storage.js";
 import {
   COORDINATION_WINDOW_MINUTES,
   LOCATION_EXPIRY_MINUTES,
@@ -14,16 +34,90 @@ import type { MeetDecision, SwipeDecision } from "./types.js";
 const id = (prefix: string) => `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
 const now = () => new Date();
 const REFRESH_SESSION_DAYS = Math.max(7, Number(process.env.JWT_REFRESH_DAYS ?? 30));
+const REFRESH_REUSE_GRACE_SECONDS = Math.max(0, Number(process.env.REFRESH_REUSE_GRACE_SECONDS ?? 10));
+const SESSION_TOUCH_MINUTES = 5;
+const PRESENCE_TOUCH_SECONDS = 60;
+const PRESENCE_ONLINE_SECONDS = Math.max(PRESENCE_TOUCH_SECONDS * 2, Number(process.env.PRESENCE_ONLINE_SECONDS ?? 180));
+const TYPING_TTL_SECONDS = 8;
+const EMAIL_VERIFY_TOKEN_HOURS = Math.max(1, Number(process.env.EMAIL_VERIFY_TOKEN_HOURS ?? 48));
+const PASSWORD_RESET_TOKEN_MINUTES = Math.max(10, Number(process.env.PASSWORD_RESET_TOKEN_MINUTES ?? 60));
+const APP_LINK_BASE_URL = (process.env.APP_LINK_BASE_URL?.trim() || "vicino://auth").replace(/\/+$/, "");
 const FREE_DAILY_SWIPE_LIMIT = Math.max(10, Number(process.env.FREE_DAILY_SWIPE_LIMIT ?? 100));
+const FREE_DAILY_REWIND_LIMIT = Math.max(0, Number(process.env.FREE_DAILY_REWIND_LIMIT ?? 0));
+const PLUS_DAILY_REWIND_LIMIT = Math.max(1, Number(process.env.PLUS_DAILY_REWIND_LIMIT ?? 10));
+const MODERATION_REPORT_DEDUPE_MINUTES = Math.max(1, Number(process.env.MODERATION_REPORT_DEDUPE_MINUTES ?? 60));
+const SWIPE_UNDO_WINDOW_SECONDS = Math.max(10, Number(process.env.SWIPE_UNDO_WINDOW_SECONDS ?? 300));
 const CURRENT_POLICY_VERSION = process.env.POLICY_VERSION_CURRENT?.trim() || "v1.0";
 const VERIFICATION_RETENTION_DAYS = Math.max(7, Number(process.env.VERIFICATION_RETENTION_DAYS ?? 30));
+const PLUS_MAX_MESSAGES_PER_USER = Math.max(
+  MAX_MESSAGES_PER_USER,
+  Number(process.env.PLUS_MAX_MESSAGES_PER_USER ?? 50)
+);
+const PLUS_MAX_MESSAGES_TOTAL = Math.max(MAX_MESSAGES_TOTAL, Number(process.env.PLUS_MAX_MESSAGES_TOTAL ?? 100));
+const REPORT_HISTORY_MESSAGE_LIMIT = 200;
+const MESSAGE_IMAGE_MAX_BYTES = Math.max(256 * 1024, Number(process.env.MAX_UPLOAD_BYTES ?? 5 * 1024 * 1024));
+export const VOICE_NOTE_MAX_BYTES = Math.max(64 * 1024, Number(process.env.VOICE_NOTE_MAX_BYTES ?? 2 * 1024 * 1024));
+export const VOICE_NOTE_MAX_SECONDS = Math.max(5, Number(process.env.VOICE_NOTE_MAX_SECONDS ?? 60));
+const DISCOVERY_CANDIDATE_POOL = Math.max(50, Number(process.env.DISCOVERY_CANDIDATE_POOL ?? 500));
+const DISCOVERY_FEED_TTL_MINUTES = Math.max(5, Number(process.env.DISCOVERY_FEED_TTL_MINUTES ?? 30));
+
+export type AuthContext = {
+  userId: string;
+  sessionId: string;
+  isAdmin: boolean;
+};
+
+export type ReportStatus = "open" | "reviewed" | "closed";
+export type ReportAction = "dismiss" | "warn" | "ban" | "close_pair";
+export type ReportSource = "user" | "moderation";
 
 type PlanTier = "free" | "plus";
 type PlanLimits = {
   maxDailySwipes: number | null;
+  maxDailyRewinds: number | null;
   maxMessagesPerUser: number;
   maxMessagesTotal: number;
 };
+type MessageLimits = Pick<PlanLimits, "maxMessagesPerUser" | "maxMessagesTotal">;
+
+// Swipes left in the rolling 24-hour window. resetsAt is when the oldest
+// counted swipe ages out and frees a slot; limit, remaining and resetsAt are
+// null for plans without a cap.
+export type SwipeQuota = {
+  planTier: PlanTier;
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  resetsAt: string | null;
+};
+
+// Carries the quota so the route can answer with a machine-readable code the
+// app turns into an upgrade prompt.
+export class SwipeLimitError extends Error {
+  readonly code = "swipe_limit_reached";
+
+  constructor(readonly quota: SwipeQuota) {
+    super(`Daily swipe limit reached (${quota.limit}). Upgrade to Vicino Plus for unlimited swipes.`);
+    this.name = "SwipeLimitError";
+  }
+}
+
+// Thrown when the moderation classifier stops a message. "message_warning"
+// can be overridden by resending with acknowledgeWarning; "message_blocked"
+// cannot.
+export class MessageModerationError extends Error {
+  constructor(
+    readonly code: "message_blocked" | "message_warning",
+    readonly moderation: ModerationResult
+  ) {
+    super(
+      code === "message_blocked"
+        ? "This message breaks the community guidelines and was not sent."
+        : "This message may break the community guidelines. Review it before sending."
+    );
+    this.name = "MessageModerationError";
+  }
+}
 
 type DbMatch = {
   id: string;
@@ -31,6 +125,7 @@ type DbMatch = {
   user_b_id: string;
   created_at: string;
   coordination_ends_at: string | null;
+  coordination_expired: boolean;
 };
 
 type DbSession = {
@@ -69,6 +164,7 @@ function mapUser(row: Record<string, unknown>) {
     username: row.username ? String(row.username) : null,
     isAdmin: Boolean(row.is_admin),
     email: row.email ? String(row.email) : null,
+    emailVerified: Boolean(row.email_verified_at),
     phone: row.phone ? String(row.phone) : null,
     isBanned: Boolean(row.is_banned),
     age: Number(row.age),
@@ -87,10 +183,32 @@ function mapUser(row: Record<string, unknown>) {
     promptTwo: row.prompt_two ? String(row.prompt_two) : null,
     promptThree: row.prompt_three ? String(row.prompt_three) : null,
     maxDistanceMiles: Number(row.max_distance_miles ?? 25),
+    discoverable: row.discoverable !== false,
+    discoveryVisibility: row.discovery_visibility === "liked_only" ? ("liked_only" as const) : ("everyone" as const),
+    shareLastActive: row.share_last_active !== false,
     planTier
   };
 }
 
+// What one member may see of another: no contact details, moderation state or
+// location.
+function mapPublicProfile(row: Record<string, unknown>) {
+  return {
+    id: String(row.id),
+    firstName: String(row.first_name),
+    age: Number(row.age),
+    gender: String(row.gender),
+    bio: String(row.bio ?? ""),
+    profilePhotoUrl: row.profile_photo_url ? String(row.profile_photo_url) : null,
+    verified: Boolean(row.verified),
+    photos: Array.isArray(row.photos) ? row.photos : [],
+    hobbies: Array.isArray(row.hobbies) ? row.hobbies : [],
+    promptOne: row.prompt_one ? String(row.prompt_one) : null,
+    promptTwo: row.prompt_two ? String(row.prompt_two) : null,
+    promptThree: row.prompt_three ? String(row.prompt_three) : null
+  };
+}
+
 function getPlanTier(row: Record<string, unknown>): PlanTier {
   const raw = String(row.plan_tier ?? "free").toLowerCase();
   return raw === "plus" ? "plus" : "free";
@@ -100,18 +218,67 @@ function getPlanLimits(planTier: PlanTier): PlanLimits {
   if (planTier === "plus") {
     return {
       maxDailySwipes: null,
-      maxMessagesPerUser: MAX_MESSAGES_PER_USER,
-      maxMessagesTotal: MAX_MESSAGES_TOTAL
+      maxDailyRewinds: PLUS_DAILY_REWIND_LIMIT,
+      maxMessagesPerUser: PLUS_MAX_MESSAGES_PER_USER,
+      maxMessagesTotal: PLUS_MAX_MESSAGES_TOTAL
     };
   }
 
   return {
     maxDailySwipes: FREE_DAILY_SWIPE_LIMIT,
+    maxDailyRewinds: FREE_DAILY_REWIND_LIMIT,
     maxMessagesPerUser: MAX_MESSAGES_PER_USER,
     maxMessagesTotal: MAX_MESSAGES_TOTAL
   };
 }
 
+// Rewound swipes don't count against the quota.
+async function readSwipeQuota(db: Queryable, userId: string, planTier: PlanTier): Promise<SwipeQuota> {
+  const { maxDailySwipes } = getPlanLimits(planTier);
+  const { rows } = await db.query(
+    `SELECT COUNT(*)::int AS used, MIN(created_at) AS oldest_at
+     FROM swipe_events
+     WHERE from_user_id = $1
+       AND undone_at IS NULL
+       AND created_at >= NOW() - INTERVAL '24 hours'`,
+    [userId]
+  );
+  const used = Number(rows[0]?.used ?? 0);
+  const oldestAt = rows[0]?.oldest_at ? new Date(String(rows[0].oldest_at)) : null;
+  if (maxDailySwipes === null) {
+    return { planTier, limit: null, used, remaining: null, resetsAt: null };
+  }
+  return {
+    planTier,
+    limit: maxDailySwipes,
+    used,
+    remaining: Math.max(0, maxDailySwipes - used),
+    resetsAt: oldestAt ? new Date(oldestAt.getTime() + 24 * 60 * 60 * 1000).toISOString() : null
+  };
+}
+
+export async function getSwipeQuota(userId: string) {
+  const user = await getUser(userId);
+  return readSwipeQuota(pool, userId, getPlanTier(user as Record<string, unknown>));
+}
+
+// A chat gets the allowance of the higher tier between its two participants,
+// so one Plus member unlocks the larger cap for both sides of the conversation.
+function resolveMatchMessageLimits(tiers: PlanTier[]): MessageLimits {
+  const { maxMessagesPerUser, maxMessagesTotal } = getPlanLimits(tiers.includes("plus") ? "plus" : "free");
+  return { maxMessagesPerUser, maxMessagesTotal };
+}
+
+async function getPlanTiersByUserId(db: Queryable, userIds: string[]) {
+  const { rows } = await db.query(
+    `SELECT id, plan_tier
+     FROM users
+     WHERE id = ANY($1::text[])`,
+    [userIds]
+  );
+  return Object.fromEntries(rows.map((row) => [String(row.id), getPlanTier(row)])) as Record<string, PlanTier>;
+}
+
 function ensureNotBanned(row: Record<string, unknown>) {
   if (Boolean(row.is_banned)) {
     throw new Error("Account is suspended. Contact support for review.");
@@ -155,15 +322,32 @@ async function logAdminAction(
   );
 }
 
-async function createAuthTokensForUser(user: Record<string, unknown>) {
+async function createAuthTokensForUser(user: Record<string, unknown>, context: LoginContext = {}) {
   const sessionId = id("as");
   const refreshToken = createRefreshToken();
   const refreshTokenHash = hashRefreshToken(refreshToken);
 
   await pool.query(
-    `INSERT INTO auth_refresh_sessions (id, user_id, refresh_token_hash, expires_at)
-     VALUES ($1, $2, $3, NOW() + ($4 || ' days')::interval)`,
-    [sessionId, String(user.id), refreshTokenHash, REFRESH_SESSION_DAYS]
+    `WITH session AS (
+       INSERT INTO auth_refresh_sessions (
+         id, user_id, refresh_token_hash, expires_at, device_label, platform, device_id, ip, user_agent, last_used_at
+       )
+       VALUES ($1, $2, $3, NOW() + ($4 || ' days')::interval, $5, $6, $7, $8, $9, NOW())
+       RETURNING id, refresh_token_hash
+     )
+     INSERT INTO auth_refresh_tokens (token_hash, session_id, created_at)
+     SELECT refresh_token_hash, id, NOW() FROM session`,
+    [
+      sessionId,
+      String(user.id),
+      refreshTokenHash,
+      REFRESH_SESSION_DAYS,
+      deviceLabel(context.userAgent),
+      devicePlatform(context.userAgent),
+      context.deviceId?.slice(0, 120) ?? null,
+      context.ip ?? null,
+      context.userAgent?.slice(0, 300) ?? null
+    ]
   );
 
   return {
@@ -180,7 +364,8 @@ async function fetchSessionUser(userId: string) {
   const { rows } = await pool.query(
     `SELECT id, first_name, last_name, username, is_admin, email, phone, is_banned, age, gender, preferred_gender, likes, dislikes,
             preferred_age_min, preferred_age_max, bio, profile_photo_url, verified, photos, hobbies, prompt_one, prompt_two, prompt_three, max_distance_miles,
-            verification_status, verification_submitted_at, verification_reviewed_at, verification_reviewer_note, plan_tier
+            verification_status, verification_submitted_at, verification_reviewed_at, verification_reviewer_note, plan_tier,
+            email_verified_at, discoverable, discovery_visibility, share_last_active
      FROM users
      WHERE id = $1`,
     [userId]
@@ -208,7 +393,7 @@ async function getUserAny(userId: string) {
   const { rows } = await pool.query(
     `SELECT id, first_name, last_name, username, password_hash, is_admin, email, phone, is_banned, age, gender, preferred_gender, likes, dislikes, bio, profile_photo_url, verified, photos,
             hobbies, prompt_one, prompt_two, prompt_three,
-            latitude, longitude, max_distance_miles, preferred_age_min, preferred_age_max, plan_tier,
+            latitude, longitude, max_distance_miles, preferred_age_min, preferred_age_max, plan_tier, discoverable,
             verification_status, verification_submitted_at,
             verification_reviewed_at, verification_reviewer_note
      FROM users WHERE id = $1`,
@@ -223,7 +408,7 @@ async function getUserAny(userId: string) {
 
 async function getMatchById(matchId: string): Promise<DbMatch> {
   const { rows } = await pool.query(
-    `SELECT id, user_a_id, user_b_id, created_at, coordination_ends_at
+    `SELECT id, user_a_id, user_b_id, created_at, coordination_ends_at, coordination_expired
      FROM matches
      WHERE id = $1`,
     [matchId]
@@ -255,26 +440,19 @@ function requireMatchMember(match: DbMatch, userId: string) {
   }
 }
 
-async function getMessageCounts(matchId: string) {
-  const { rows } = await pool.query(
-    `SELECT sender_user_id, COUNT(*)::int AS count
-     FROM messages
-     WHERE match_id = $1
-     GROUP BY sender_user_id`,
-    [matchId]
+async function requireSessionParticipant(session: DbSession, userId: string) {
+  if (session.initiator_user_id === userId) {
+    return;
+  }
+  const { rowCount } = await pool.query(
+    `SELECT 1
+     FROM session_candidates
+     WHERE session_id = $1 AND candidate_user_id = $2`,
+    [session.id, userId]
   );
-
-  const byUser: Record<string, number> = {};
-  let total = 0;
-  for (const row of rows) {
-    byUser[row.sender_user_id] = Number(row.count);
-    total += Number(row.count);
+  if (!rowCount) {
+    throw new Error("User is not part of this availability session");
   }
-  return { byUser, total };
-}
-
-function isPublicPlaceId(placeId: string) {
-  return placeId.startsWith("poi_");
 }
 
 function sortPairUsers(userAId: string, userBId: string) {
@@ -315,6 +493,25 @@ export async function listUsers() {
   return rows.map(mapUser);
 }
 
+export async function getCurrentUserProfile(userId: string) {
+  return mapUser(await fetchSessionUser(userId));
+}
+
+export async function listMatchProfiles(userId: string) {
+  const { rows } = await pool.query(
+    `SELECT m.id AS match_id, u.id, u.first_name, u.age, u.gender, u.bio, u.profile_photo_url, u.verified,
+            u.photos, u.hobbies, u.prompt_one, u.prompt_two, u.prompt_three
+     FROM matches m
+     JOIN users u ON u.id = CASE WHEN m.user_a_id = $1 THEN m.user_b_id ELSE m.user_a_id END
+     WHERE (m.user_a_id = $1 OR m.user_b_id = $1)
+       AND u.is_banned = FALSE
+     ORDER BY m.created_at DESC
+     LIMIT 500`,
+    [userId]
+  );
+  return rows.map((row) => ({ matchId: String(row.match_id), ...mapPublicProfile(row) }));
+}
+
 export async function listAdminUsers(options?: {
   segment?: "verified" | "not_verified" | "all";
   q?: string;
@@ -365,7 +562,20 @@ export async function listAdminUsers(options?: {
       u.verification_submitted_at AS "verificationSubmittedAt",
       u.verification_reviewed_at AS "verificationReviewedAt",
       u.plan_tier AS "planTier",
-      u.is_banned AS "isBanned"
+      u.is_banned AS "isBanned",
+      u.login_locked_until AS "loginLockedUntil",
+      (
+        SELECT COUNT(*)::int
+        FROM login_events le
+        WHERE le.user_id = u.id
+          AND le.outcome <> 'success'
+          AND le.created_at > NOW() - INTERVAL '24 hours'
+      ) AS "failedLogins24h",
+      (
+        SELECT MAX(le.created_at)
+        FROM login_events le
+        WHERE le.user_id = u.id AND le.outcome <> 'success'
+      ) AS "lastFailedLoginAt"
     FROM users u
     ${whereClause}
     ORDER BY
@@ -419,22 +629,35 @@ export async function getLatestVerificationSubmissionForUser(userId: string) {
 export async function registerPushTokenForUser(
   userId: string,
   expoPushToken: string,
-  platform: string
+  platform: string,
+  sessionId: string | null = null
 ) {
   await getUserAny(userId);
-  await registerUserPushToken(userId, expoPushToken, platform);
+  await registerUserPushToken(userId, expoPushToken, platform, sessionId);
+  const reportedPlatform = platform.trim().toLowerCase();
+  if (sessionId && ["ios", "android", "web"].includes(reportedPlatform)) {
+    await pool.query(
+      `UPDATE auth_refresh_sessions
+       SET platform = $3
+       WHERE id = $1 AND user_id = $2`,
+      [sessionId, userId, reportedPlatform]
+    );
+  }
   return { ok: true as const };
 }
 
-export async function registerAuthUser(input: {
-  email: string;
-  username: string;
-  password: string;
-  acceptedTerms: boolean;
-  acceptedPrivacy: boolean;
-  marketingConsent?: boolean;
-  policyVersion: string;
-}) {
+export async function registerAuthUser(
+  input: {
+    email: string;
+    username: string;
+    password: string;
+    acceptedTerms: boolean;
+    acceptedPrivacy: boolean;
+    marketingConsent?: boolean;
+    policyVersion: string;
+  },
+  context: LoginContext = {}
+) {
   const username = input.username.trim().toLowerCase();
   if (!/^[a-z0-9_]{3,24}$/.test(username)) {
     throw new Error("Username must be 3-24 chars: letters, numbers, underscore.");
@@ -461,7 +684,8 @@ export async function registerAuthUser(input: {
       )
       VALUES ($1, $2, $3, $4, $5, $6, 18, 'other', NOW(), NOW(), $7, $8, 'free', '', FALSE, 'unsubmitted', '[]'::jsonb, ARRAY[]::text[], 25)
       RETURNING id, first_name, last_name, username, is_admin, email, phone, age, preferred_age_min, preferred_age_max, gender, preferred_gender, likes, dislikes,
-                bio, verified, photos, hobbies, prompt_one, prompt_two, prompt_three, max_distance_miles, is_banned, plan_tier`,
+                bio, verified, photos, hobbies, prompt_one, prompt_two, prompt_three, max_distance_miles, is_banned, plan_tier,
+                email_verified_at, discoverable, discovery_visibility, share_last_active`,
       [
         userId,
         username,
@@ -474,7 +698,8 @@ export async function registerAuthUser(input: {
       ]
     );
 
-    const tokens = await createAuthTokensForUser(rows[0] as Record<string, unknown>);
+    const tokens = await createAuthTokensForUser(rows[0] as Record<string, unknown>, context);
+    void sendEmailVerification(userId).catch((err) => captureBackendError(err, { stage: "email_verification" }));
     return { user: mapUser(rows[0]), limits: getPlanLimits("free"), ...tokens };
   } catch (err) {
     const pgErr = err as { code?: string; detail?: string };
@@ -485,44 +710,95 @@ export async function registerAuthUser(input: {
   }
 }
 
-export async function loginAuthUser(username: string, password: string) {
+export async function loginAuthUser(username: string, password: string, context: LoginContext = {}) {
   const normalized = username.trim().toLowerCase();
   const { rows } = await pool.query(
     `SELECT id, first_name, last_name, username, password_hash, is_admin, email, phone, is_banned, age, preferred_age_min, preferred_age_max, gender, preferred_gender, likes, dislikes,
-            bio, profile_photo_url, verified, photos, hobbies, prompt_one, prompt_two, prompt_three, max_distance_miles, plan_tier
+            bio, profile_photo_url, verified, photos, hobbies, prompt_one, prompt_two, prompt_three, max_distance_miles, plan_tier,
+            email_verified_at, discoverable, discovery_visibility, share_last_active, failed_login_count, last_failed_login_at, login_locked_until
      FROM users
      WHERE username = $1`,
     [normalized]
   );
 
   if (rows.length === 0) {
+    await recordLoginEvent({ userId: null, username: normalized, outcome: "unknown_user", context });
     throw new Error("Invalid username or password.");
   }
   const user = rows[0];
-  ensureNotBanned(user);
+  const userId = String(user.id);
+
+  const blocked = loginBlockReason(user);
+  if (blocked) {
+    await recordLoginEvent({ userId, username: normalized, outcome: blocked.outcome, context });
+    throw new Error(blocked.message);
+  }
+  if (Boolean(user.is_banned)) {
+    await recordLoginEvent({ userId, username: normalized, outcome: "banned", context });
+    ensureNotBanned(user);
+  }
   if (!user.password_hash || !verifyPassword(password, String(user.password_hash))) {
+    const failure = await registerFailedLogin(userId);
+    await recordLoginEvent({ userId, username: normalized, outcome: "bad_password", context });
+    if (failure.locked) {
+      throw new Error("Too many failed attempts. Your account is temporarily locked.");
+    }
     throw new Error("Invalid username or password.");
   }
 
-  const tokens = await createAuthTokensForUser(user as Record<string, unknown>);
+  await clearFailedLogins(userId);
+  const device = await noteLoginDevice(userId, context);
+  await recordLoginEvent({
+    userId,
+    username: normalized,
+    outcome: "success",
+    context,
+    newDevice: device.isNewDevice
+  });
+
+  const tokens = await createAuthTokensForUser(user as Record<string, unknown>, context);
   const planTier = getPlanTier(user as Record<string, unknown>);
   return { user: mapUser(user), limits: getPlanLimits(planTier), ...tokens };
 }
 
-export async function getAuthSession(token: string) {
+export async function resolveAuthSession(token: string): Promise<AuthContext> {
   const payload = verifyAccessToken(token);
-  const sessionRes = await pool.query(
-    `SELECT id
-     FROM auth_refresh_sessions
-     WHERE id = $1
-       AND revoked_at IS NULL
-       AND expires_at > NOW()`,
-    [payload.sid]
+  const { rows } = await pool.query(
+    `SELECT s.id, u.is_admin, u.is_banned,
+            (s.last_used_at IS NULL OR s.last_used_at < NOW() - ($3::int || ' minutes')::interval) AS "touchDue",
+            (u.last_active_at IS NULL OR u.last_active_at < NOW() - ($4::int * INTERVAL '1 second')) AS "presenceDue"
+     FROM auth_refresh_sessions s
+     JOIN users u ON u.id = s.user_id
+     WHERE s.id = $1
+       AND s.user_id = $2
+       AND s.revoked_at IS NULL
+       AND s.expires_at > NOW()`,
+    [payload.sid, payload.sub, SESSION_TOUCH_MINUTES, PRESENCE_TOUCH_SECONDS]
   );
-  if (sessionRes.rowCount === 0) {
+  const row = rows[0];
+  if (!row) {
     throw new Error("Session expired. Please sign in again.");
   }
-  const row = await fetchSessionUser(payload.sub);
+  ensureNotBanned(row);
+  if (row.touchDue) {
+    void pool
+      .query(`UPDATE auth_refresh_sessions SET last_used_at = NOW() WHERE id = $1`, [payload.sid])
+      .catch(() => null);
+  }
+  // Any authenticated request counts as activity for presence.
+  if (row.presenceDue) {
+    void pool.query(`UPDATE users SET last_active_at = NOW() WHERE id = $1`, [payload.sub]).catch(() => null);
+  }
+  return {
+    userId: payload.sub,
+    sessionId: payload.sid,
+    isAdmin: Boolean(row.is_admin)
+  };
+}
+
+export async function getAuthSession(token: string) {
+  const auth = await resolveAuthSession(token);
+  const row = await fetchSessionUser(auth.userId);
   const planTier = getPlanTier(row);
   return {
     token,
@@ -540,46 +816,376 @@ export async function assertAdminSession(token: string) {
   return session;
 }
 
-export async function logoutAuthSession(token: string) {
-  const payload = verifyAccessToken(token);
-  await pool.query(
+// Revoking a session also silences the push tokens registered from it, so a
+// signed-out device stops receiving notifications.
+async function revokeAuthSessions(
+  db: Queryable,
+  userId: string,
+  options: { sessionId?: string; exceptSessionId?: string } = {}
+) {
+  const { rows } = await db.query(
     `UPDATE auth_refresh_sessions
      SET revoked_at = NOW()
-     WHERE id = $1`,
-    [payload.sid]
+     WHERE user_id = $1
+       AND revoked_at IS NULL
+       AND ($2::text IS NULL OR id = $2)
+       AND ($3::text IS NULL OR id <> $3)
+     RETURNING id`,
+    [userId, options.sessionId ?? null, options.exceptSessionId ?? null]
   );
+  const sessionIds = rows.map((row) => String(row.id));
+  if (sessionIds.length > 0) {
+    await db.query(
+      `UPDATE user_push_tokens
+       SET active = FALSE
+       WHERE session_id = ANY($1::text[])`,
+      [sessionIds]
+    );
+  }
+  return sessionIds;
 }
 
-export async function refreshAuthSession(refreshToken: string) {
-  const refreshTokenHash = hashRefreshToken(refreshToken);
-  const sessionRes = await pool.query(
-    `SELECT id, user_id
+export async function logoutAuthSession(token: string) {
+  const payload = verifyAccessToken(token);
+  await revokeAuthSessions(pool, payload.sub, { sessionId: payload.sid });
+}
+
+function approximateIp(ip: unknown) {
+  if (!ip) {
+    return null;
+  }
+  const value = String(ip).replace(/^::ffff:/i, "");
+  const octets = value.split(".");
+  if (octets.length === 4) {
+    return `${octets.slice(0, 3).join(".")}.x`;
+  }
+  if (value.includes(":")) {
+    return `${value.split(":").slice(0, 3).join(":")}::`;
+  }
+  return null;
+}
+
+export async function listAuthSessions(userId: string, currentSessionId: string) {
+  const { rows } = await pool.query(
+    `SELECT id, name, device_label, platform, ip, created_at, COALESCE(last_used_at, created_at) AS last_used_at
      FROM auth_refresh_sessions
-     WHERE refresh_token_hash = $1
+     WHERE user_id = $1
        AND revoked_at IS NULL
        AND expires_at > NOW()
-     LIMIT 1`,
-    [refreshTokenHash]
+     ORDER BY COALESCE(last_used_at, created_at) DESC`,
+    [userId]
   );
-  if (sessionRes.rowCount === 0) {
-    throw new Error("Refresh token expired. Please sign in again.");
+  return rows.map((row) => ({
+    id: String(row.id),
+    name: row.name ? String(row.name) : null,
+    deviceLabel: row.device_label ? String(row.device_label) : "Unknown device",
+    platform: String(row.platform),
+    approximateIp: approximateIp(row.ip),
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    current: String(row.id) === currentSessionId
+  }));
+}
+
+export async function renameAuthSession(userId: string, sessionId: string, name: string | null) {
+  const cleaned = name?.trim() || null;
+  const { rows } = await pool.query(
+    `UPDATE auth_refresh_sessions
+     SET name = $3
+     WHERE id = $1
+       AND user_id = $2
+       AND revoked_at IS NULL
+     RETURNING id, name`,
+    [sessionId, userId, cleaned]
+  );
+  if (!rows[0]) {
+    throw new Error("Session not found.");
   }
+  return { id: String(rows[0].id), name: rows[0].name ? String(rows[0].name) : null };
+}
 
-  const session = sessionRes.rows[0];
-  const user = await fetchSessionUser(String(session.user_id));
+export async function revokeAuthSession(userId: string, sessionId: string) {
+  const revoked = await revokeAuthSessions(pool, userId, { sessionId });
+  if (revoked.length === 0) {
+    throw new Error("Session not found.");
+  }
+  return { ok: true as const, id: sessionId };
+}
 
-  const nextRefresh = createRefreshToken();
-  const nextRefreshHash = hashRefreshToken(nextRefresh);
+export async function revokeOtherAuthSessions(userId: string, currentSessionId: string) {
+  const revoked = await revokeAuthSessions(pool, userId, { exceptSessionId: currentSessionId });
+  return { ok: true as const, revoked: revoked.length };
+}
+
+function hashEmailToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+type EmailTokenPurpose = "email_verify" | "password_reset";
+
+// Issuing a token retires any earlier unused one for the same purpose, so only
+// the most recent email's link works.
+async function issueEmailToken(userId: string, email: string, purpose: EmailTokenPurpose, ttlMinutes: number) {
+  const token = randomBytes(32).toString("hex");
   await pool.query(
-    `UPDATE auth_refresh_sessions
-     SET refresh_token_hash = $2
-     WHERE id = $1`,
-    [session.id, nextRefreshHash]
+    `UPDATE auth_email_tokens
+     SET used_at = NOW()
+     WHERE user_id = $1
+       AND purpose = $2
+       AND used_at IS NULL`,
+    [userId, purpose]
+  );
+  await pool.query(
+    `INSERT INTO auth_email_tokens (id, user_id, purpose, token_hash, email, expires_at, created_at)
+     VALUES ($1, $2, $3, $4, $5, NOW() + ($6::int || ' minutes')::interval, NOW())`,
+    [id("etok"), userId, purpose, hashEmailToken(token), email, ttlMinutes]
+  );
+  return token;
+}
+
+async function consumeEmailToken(db: Queryable, token: string, purpose: EmailTokenPurpose) {
+  const { rows } = await db.query(
+    `UPDATE auth_email_tokens
+     SET used_at = NOW()
+     WHERE token_hash = $1
+       AND purpose = $2
+       AND used_at IS NULL
+       AND expires_at > NOW()
+     RETURNING user_id, email`,
+    [hashEmailToken(token), purpose]
+  );
+  const row = rows[0];
+  if (!row) {
+    throw new Error("This link is invalid or has expired.");
+  }
+  return { userId: String(row.user_id), email: String(row.email) };
+}
+
+export async function sendEmailVerification(userId: string) {
+  const { rows } = await pool.query(`SELECT email, email_verified_at FROM users WHERE id = $1`, [userId]);
+  const user = rows[0];
+  if (!user?.email) {
+    throw new Error("Add an email address first.");
+  }
+  if (user.email_verified_at) {
+    return { ok: true as const, alreadyVerified: true };
+  }
+  const email = String(user.email);
+  const token = await issueEmailToken(userId, email, "email_verify", EMAIL_VERIFY_TOKEN_HOURS * 60);
+  await sendMail({
+    to: email,
+    subject: "Confirm your email for Vicino",
+    text: [
+      "Tap the link below to confirm this is your email address:",
+      "",
+      `${APP_LINK_BASE_URL}/verify-email?token=${token}`,
+      "",
+      `The link expires in ${EMAIL_VERIFY_TOKEN_HOURS} hours. If you didn't create a Vicino account, ignore this email.`
+    ].join("\n")
+  });
+  return { ok: true as const, alreadyVerified: false };
+}
+
+export async function verifyEmailAddress(token: string) {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const consumed = await consumeEmailToken(client as unknown as Queryable, token, "email_verify");
+    const { rowCount } = await client.query(
+      `UPDATE users
+       SET email_verified_at = COALESCE(email_verified_at, NOW())
+       WHERE id = $1 AND email = $2`,
+      [consumed.userId, consumed.email]
+    );
+    if (!rowCount) {
+      throw new Error("This link is invalid or has expired.");
+    }
+    await client.query("COMMIT");
+    return { ok: true as const, userId: consumed.userId };
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+// Always succeeds from the caller's point of view so the endpoint can't be used
+// to discover which emails have accounts.
+export async function requestPasswordReset(email: string) {
+  const normalized = email.trim().toLowerCase();
+  const { rows } = await pool.query(
+    `SELECT id, email
+     FROM users
+     WHERE email = $1
+       AND is_banned = FALSE
+       AND password_hash IS NOT NULL`,
+    [normalized]
   );
+  const user = rows[0];
+  if (!user) {
+    return { ok: true as const };
+  }
+  const token = await issueEmailToken(String(user.id), normalized, "password_reset", PASSWORD_RESET_TOKEN_MINUTES);
+  void sendMail({
+    to: normalized,
+    subject: "Reset your Vicino password",
+    text: [
+      "Someone asked to reset the password for your Vicino account.",
+      "",
+      `${APP_LINK_BASE_URL}/reset-password?token=${token}`,
+      "",
+      `The link expires in ${PASSWORD_RESET_TOKEN_MINUTES} minutes and works once. If this wasn't you, you can ignore this email.`
+    ].join("\n")
+  }).catch((err) => captureBackendError(err, { stage: "password_reset_mail" }));
+  return { ok: true as const };
+}
+
+export async function resetPassword(token: string, newPassword: string, context: LoginContext = {}) {
+  if (newPassword.length < 8) {
+    throw new Error("Password must be at least 8 characters.");
+  }
+  const client = await pool.connect();
+  let userId: string;
+  try {
+    await client.query("BEGIN");
+    const db = client as unknown as Queryable;
+    const consumed = await consumeEmailToken(db, token, "password_reset");
+    userId = consumed.userId;
+    await client.query(
+      `UPDATE users
+       SET password_hash = $2,
+           failed_login_count = 0,
+           last_failed_login_at = NULL,
+           login_locked_until = NULL,
+           email_verified_at = CASE WHEN email = $3 THEN COALESCE(email_verified_at, NOW()) ELSE email_verified_at END
+       WHERE id = $1`,
+      [userId, hashPassword(newPassword), consumed.email]
+    );
+    await client.query(
+      `UPDATE auth_email_tokens
+       SET used_at = NOW()
+       WHERE user_id = $1
+         AND purpose = 'password_reset'
+         AND used_at IS NULL`,
+      [userId]
+    );
+    const revoked = await revokeAuthSessions(db, userId);
+    await recordSecurityEvent(client, {
+      userId,
+      kind: "password_reset",
+      context,
+      metadata: { revokedSessions: revoked.length }
+    });
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  void sendPushToUsers([userId], {
+    title: "Your password was changed",
+    body: "You've been signed out everywhere. If this wasn't you, contact support right away.",
+    data: { type: "password_reset" }
+  }).catch(() => null);
+  return { ok: true as const };
+}
+
+// Each session is a token family. Rotation keeps the old hashes, so a rotated
+// token presented again means it was copied: the whole family is revoked.
+// The exception is a token rotated only seconds ago, which is what two
+// concurrent refreshes or a retry after a lost response look like; that caller
+// gets another child of the same parent instead of being signed out.
+export async function refreshAuthSession(refreshToken: string, context: LoginContext = {}) {
+  const refreshTokenHash = hashRefreshToken(refreshToken);
+  const nextRefresh = createRefreshToken();
+  const nextRefreshHash = hashRefreshToken(nextRefresh);
+  let session: { id: string; userId: string } | null = null;
+  let reuseDetectedForUserId: string | null = null;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const tokenRes = await client.query(
+      `SELECT t.session_id, t.rotated_at, t.revoked_at, s.user_id,
+              s.revoked_at AS session_revoked_at, s.expires_at > NOW() AS session_active,
+              t.rotated_at > NOW() - make_interval(secs => $2) AS rotated_within_grace
+       FROM auth_refresh_tokens t
+       JOIN auth_refresh_sessions s ON s.id = t.session_id
+       WHERE t.token_hash = $1
+       FOR UPDATE OF s`,
+      [refreshTokenHash, REFRESH_REUSE_GRACE_SECONDS]
+    );
+    const row = tokenRes.rows[0];
+    const usable = row && !row.revoked_at && !row.session_revoked_at && row.session_active;
+
+    if (row && row.rotated_at && !row.session_revoked_at && !(usable && row.rotated_within_grace)) {
+      await revokeAuthSessions(client as unknown as Queryable, String(row.user_id), {
+        sessionId: String(row.session_id)
+      });
+      await client.query(
+        `UPDATE auth_refresh_tokens
+         SET revoked_at = COALESCE(revoked_at, NOW())
+         WHERE session_id = $1`,
+        [row.session_id]
+      );
+      await recordSecurityEvent(client, {
+        userId: String(row.user_id),
+        kind: "refresh_token_reuse",
+        sessionId: String(row.session_id),
+        context,
+        metadata: { rotatedAt: row.rotated_at }
+      });
+      reuseDetectedForUserId = String(row.user_id);
+    } else if (usable) {
+      if (!row.rotated_at) {
+        await client.query(
+          `UPDATE auth_refresh_tokens
+           SET rotated_at = NOW()
+           WHERE token_hash = $1`,
+          [refreshTokenHash]
+        );
+      }
+      await client.query(
+        `INSERT INTO auth_refresh_tokens (token_hash, session_id, parent_token_hash, created_at)
+         VALUES ($1, $2, $3, NOW())`,
+        [nextRefreshHash, row.session_id, refreshTokenHash]
+      );
+      await client.query(
+        `UPDATE auth_refresh_sessions
+         SET refresh_token_hash = $2,
+             last_used_at = NOW(),
+             ip = COALESCE($3, ip)
+         WHERE id = $1`,
+        [row.session_id, nextRefreshHash, context.ip ?? null]
+      );
+      session = { id: String(row.session_id), userId: String(row.user_id) };
+    }
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  if (reuseDetectedForUserId) {
+    void sendPushToUsers([reuseDetectedForUserId], {
+      title: "We signed you out",
+      body: "Your sign-in was used from somewhere unexpected, so we ended that session. Sign in again to continue.",
+      data: { type: "session_revoked", reason: "refresh_token_reuse" }
+    }).catch(() => null);
+  }
+  if (!session) {
+    throw new Error("Refresh token expired. Please sign in again.");
+  }
 
+  const user = await fetchSessionUser(session.userId);
   const nextAccessToken = createAccessToken({
     userId: String(user.id),
-    sessionId: String(session.id),
+    sessionId: session.id,
     isAdmin: Boolean(user.is_admin)
   });
 
@@ -615,10 +1221,11 @@ export async function updateUserProfile(
     promptThree?: string;
   }
 ) {
-  await getUserAny(userId);
+  const existing = await getUserAny(userId);
 
   const firstName = updates.firstName?.trim() || null;
   const email = updates.email?.trim().toLowerCase() || null;
+  const emailChanged = email !== null && email !== (existing.email ? String(existing.email) : null);
   const phone = updates.phone?.trim() || null;
   const age = updates.age ?? null;
   if (age != null && age < 18) {
@@ -651,6 +1258,7 @@ export async function updateUserProfile(
     `UPDATE users
      SET first_name = COALESCE($2, first_name),
          email = COALESCE($3, email),
+         email_verified_at = CASE WHEN $19::boolean THEN NULL ELSE email_verified_at END,
          phone = COALESCE($4, phone),
          age = COALESCE($5, age),
          preferred_age_min = COALESCE($6, preferred_age_min),
@@ -705,92 +1313,270 @@ export async function updateUserProfile(
       hobbies,
       promptOne,
       promptTwo,
-      promptThree
+      promptThree,
+      emailChanged
     ]
   );
 
+  if (emailChanged) {
+    void sendEmailVerification(userId).catch((err) => captureBackendError(err, { stage: "email_verification" }));
+  }
   return rows[0];
 }
 
-export async function listDiscoveryProfiles(userId: string) {
-  const user = await getUser(userId);
-  if (user.latitude == null || user.longitude == null) {
-    throw new Error("Set user location before discovery");
-  }
-  if (!user.gender || !user.preferred_gender) {
-    return [];
+// People the viewer ($1) must never see in discovery, whatever the ranking says.
+const DISCOVERY_EXCLUSIONS_SQL = `
+  u.id <> $1
+  AND u.verified = TRUE
+  AND u.is_banned = FALSE
+  AND u.discoverable = TRUE
+  AND (
+    u.discovery_visibility = 'everyone'
+    OR EXISTS (
+      SELECT 1 FROM swipes liked
+      WHERE liked.from_user_id = u.id AND liked.to_user_id = $1 AND liked.decision = 'right'
+    )
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM swipes s
+    WHERE s.from_user_id = $1 AND s.to_user_id = u.id
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM matches m
+    WHERE (m.user_a_id = $1 AND m.user_b_id = u.id)
+       OR (m.user_a_id = u.id AND m.user_b_id = $1)
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM user_blocks ub
+    WHERE (ub.blocker_user_id = $1 AND ub.blocked_user_id = u.id)
+       OR (ub.blocker_user_id = u.id AND ub.blocked_user_id = $1)
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM pair_closures pc
+    WHERE pc.user_low_id = LEAST($1, u.id)
+      AND pc.user_high_id = GREATEST($1, u.id)
+  )`;
+
+function encodeDiscoveryCursor(feedId: string, position: number) {
+  return Buffer.from(`${feedId}|${position}`).toString("base64url");
+}
+
+function decodeDiscoveryCursor(cursor: string) {
+  const [feedId, rawPosition] = Buffer.from(cursor, "base64url").toString("utf8").split("|");
+  const position = Number(rawPosition);
+  if (!feedId || !Number.isInteger(position) || position < 0) {
+    throw new Error("Invalid cursor.");
   }
+  return { feedId, position };
+}
 
-  const { rows } = await pool.query(
-    `SELECT
+// A feed is reused only while the filters it was built with still hold; moving
+// roughly a kilometre or changing preferences builds a fresh one.
+function discoveryFiltersKey(user: Record<string, unknown>) {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        Number(user.latitude).toFixed(2),
+        Number(user.longitude).toFixed(2),
+        Number(user.max_distance_miles ?? 25),
+        String(user.gender).toLowerCase(),
+        String(user.preferred_gender).toLowerCase(),
+        Number(user.preferred_age_min ?? 18),
+        Number(user.preferred_age_max ?? 99),
+        Number(user.age)
+      ])
+    )
+    .digest("hex")
+    .slice(0, 32);
+}
+
+// Builds the candidate query for a viewer. The spatial prefilter narrows the
+// scan to an index-friendly area first so the exact distance is only computed
+// once, for nearby rows. Exported for the discovery benchmark.
+export async function buildDiscoveryCandidateQuery(user: Record<string, unknown>, mode?: SpatialMode) {
+  const latitude = Number(user.latitude);
+  const longitude = Number(user.longitude);
+  const maxDistanceMiles = Number(user.max_distance_miles ?? 25);
+  const values: unknown[] = [
+    user.id,
+    latitude,
+    longitude,
+    maxDistanceMiles,
+    String(user.preferred_gender).toLowerCase(),
+    String(user.gender).toLowerCase(),
+    Number(user.preferred_age_min ?? 18),
+    Number(user.preferred_age_max ?? 99),
+    Number(user.age),
+    DISCOVERY_CANDIDATE_POOL
+  ];
+  const prefilter = spatialPrefilterSql(mode ?? (await getSpatialMode()), values, latitude, longitude, maxDistanceMiles);
+  const text = `SELECT
+        nearby.*,
+        EXISTS (
+          SELECT 1 FROM swipes inbound
+          WHERE inbound.from_user_id = nearby.id AND inbound.to_user_id = $1 AND inbound.decision = 'right'
+        ) AS liked_viewer
+      FROM (
+        SELECT
+          u.id,
+          u.age,
+          u.preferred_age_min,
+          u.preferred_age_max,
+          u.bio,
+          u.photos,
+          u.hobbies,
+          u.profile_photo_url,
+          u.prompt_one,
+          u.prompt_two,
+          u.prompt_three,
+          u.last_location_at,
+          ${greatCircleMilesSql("$2", "$3")} AS distance_miles
+        FROM users u
+        WHERE ${prefilter}
+          AND ${DISCOVERY_EXCLUSIONS_SQL}
+          AND u.gender = $5
+          AND u.preferred_gender = $6
+          AND u.age BETWEEN $7 AND $8
+          AND $9 BETWEEN COALESCE(u.preferred_age_min, 18) AND COALESCE(u.preferred_age_max, 99)
+      ) nearby
+      WHERE nearby.distance_miles <= $4
+      ORDER BY nearby.distance_miles ASC, nearby.id ASC
+      LIMIT $10`;
+  return { text, values };
+}
+
+async function buildDiscoveryFeed(user: Record<string, unknown>, filtersKey: string) {
+  const { rows } = await pool.query(await buildDiscoveryCandidateQuery(user));
+
+  const candidates: RankingCandidate[] = rows.map((row) => ({
+    id: String(row.id),
+    age: Number(row.age),
+    preferredAgeMin: Number(row.preferred_age_min ?? 18),
+    preferredAgeMax: Number(row.preferred_age_max ?? 99),
+    distanceMiles: Number(row.distance_miles),
+    bio: String(row.bio ?? ""),
+    photos: Array.isArray(row.photos) ? row.photos : [],
+    hobbies: Array.isArray(row.hobbies) ? row.hobbies : [],
+    hasProfilePhoto: Boolean(row.profile_photo_url),
+    promptCount: [row.prompt_one, row.prompt_two, row.prompt_three].filter(Boolean).length,
+    lastLocationAt: row.last_location_at ? new Date(row.last_location_at) : null,
+    likedViewer: Boolean(row.liked_viewer)
+  }));
+
+  const feedId = id("feed");
+  const variant = assignRankingVariant(String(user.id));
+  const ranked = rankDiscoveryCandidates(
+    {
+      id: String(user.id),
+      age: Number(user.age),
+      preferredAgeMin: Number(user.preferred_age_min ?? 18),
+      preferredAgeMax: Number(user.preferred_age_max ?? 99),
+      maxDistanceMiles: Number(user.max_distance_miles ?? 25),
+      hobbies: Array.isArray(user.hobbies) ? (user.hobbies as string[]) : []
+    },
+    candidates,
+    { weights: variant.weights, seed: feedId }
+  );
+  const rankedUserIds = ranked.map((candidate) => candidate.id);
+
+  await pool.query(
+    `INSERT INTO discovery_feeds (id, user_id, variant, filters_key, ranked_user_ids, created_at, expires_at)
+     VALUES ($1, $2, $3, $4, $5::text[], NOW(), NOW() + ($6::int || ' minutes')::interval)`,
+    [feedId, user.id, variant.name, filtersKey, rankedUserIds, DISCOVERY_FEED_TTL_MINUTES]
+  );
+  void trackProductEvent("discovery_feed_built", String(user.id), {
+    feedId,
+    variant: variant.name,
+    candidates: rankedUserIds.length
+  }).catch(() => null);
+
+  return { id: feedId, variant: variant.name, rankedUserIds };
+}
+
+// Discovery is served from a ranked snapshot so the order stays put while the
+// viewer pages through it. Each page re-applies the exclusions, so people
+// swiped, matched or blocked since the feed was built simply drop out.
+export async function listDiscoveryProfiles(
+  userId: string,
+  options?: { limit?: number; cursor?: string | null; refresh?: boolean }
+) {
+  const limit = Math.max(1, Math.min(Number(options?.limit ?? 20), 50));
+  const user = await getUser(userId);
+  if (user.latitude == null || user.longitude == null) {
+    throw new Error("Set user location before discovery");
+  }
+  if (!user.gender || !user.preferred_gender) {
+    return { profiles: [], nextCursor: null, variant: null };
+  }
+
+  let feed: { id: string; variant: string; rankedUserIds: string[] } | null = null;
+  let position = 0;
+  if (options?.cursor) {
+    const decoded = decodeDiscoveryCursor(options.cursor);
+    const { rows } = await pool.query(
+      `SELECT id, variant, ranked_user_ids
+       FROM discovery_feeds
+       WHERE id = $1 AND user_id = $2 AND expires_at > NOW()`,
+      [decoded.feedId, userId]
+    );
+    if (!rows[0]) {
+      throw new Error("Discovery feed expired. Refresh to continue.");
+    }
+    feed = { id: rows[0].id, variant: rows[0].variant, rankedUserIds: rows[0].ranked_user_ids };
+    position = decoded.position;
+  }
+
+  const filtersKey = discoveryFiltersKey(user);
+  if (!feed && !options?.refresh) {
+    const { rows } = await pool.query(
+      `SELECT id, variant, ranked_user_ids
+       FROM discovery_feeds
+       WHERE user_id = $1 AND filters_key = $2 AND expires_at > NOW()
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [userId, filtersKey]
+    );
+    if (rows[0]) {
+      feed = { id: rows[0].id, variant: rows[0].variant, rankedUserIds: rows[0].ranked_user_ids };
+    }
+  }
+  if (!feed) {
+    feed = await buildDiscoveryFeed(user, filtersKey);
+  }
+
+  const { rows } = await pool.query(
+    `SELECT
         u.id,
-        u.first_name AS "firstName",
+        u.first_name,
         u.age,
         u.gender,
         u.bio,
+        u.profile_photo_url,
         u.verified,
         u.photos,
-        ROUND((
-          3959 * ACOS(
-            LEAST(1, GREATEST(-1,
-              COS(RADIANS($2)) * COS(RADIANS(u.latitude)) *
-              COS(RADIANS(u.longitude) - RADIANS($3)) +
-              SIN(RADIANS($2)) * SIN(RADIANS(u.latitude))
-            ))
-          )
-        )::numeric, 2) AS "distanceMiles"
-      FROM users u
-      WHERE u.id <> $1
-        AND u.verified = TRUE
-        AND u.latitude IS NOT NULL
-        AND u.longitude IS NOT NULL
-        AND u.gender = $5
-        AND u.preferred_gender = $6
-        AND u.age BETWEEN $7 AND $8
-        AND $9 BETWEEN COALESCE(u.preferred_age_min, 18) AND COALESCE(u.preferred_age_max, 99)
-        AND NOT EXISTS (
-          SELECT 1 FROM swipes s
-          WHERE s.from_user_id = $1 AND s.to_user_id = u.id
-        )
-        AND NOT EXISTS (
-          SELECT 1 FROM matches m
-          WHERE (m.user_a_id = $1 AND m.user_b_id = u.id)
-             OR (m.user_a_id = u.id AND m.user_b_id = $1)
-        )
-        AND NOT EXISTS (
-          SELECT 1 FROM user_blocks ub
-          WHERE (ub.blocker_user_id = $1 AND ub.blocked_user_id = u.id)
-             OR (ub.blocker_user_id = u.id AND ub.blocked_user_id = $1)
-        )
-        AND NOT EXISTS (
-          SELECT 1 FROM pair_closures pc
-          WHERE pc.user_low_id = LEAST($1, u.id)
-            AND pc.user_high_id = GREATEST($1, u.id)
-        )
-        AND (
-          3959 * ACOS(
-            LEAST(1, GREATEST(-1,
-              COS(RADIANS($2)) * COS(RADIANS(u.latitude)) *
-              COS(RADIANS(u.longitude) - RADIANS($3)) +
-              SIN(RADIANS($2)) * SIN(RADIANS(u.latitude))
-            ))
-          )
-        ) <= $4
-      ORDER BY "distanceMiles" ASC, u.id ASC`,
-    [
-      userId,
-      Number(user.latitude),
-      Number(user.longitude),
-      Number(user.max_distance_miles ?? 25),
-      String(user.preferred_gender).toLowerCase(),
-      String(user.gender).toLowerCase(),
-      Number(user.preferred_age_min ?? 18),
-      Number(user.preferred_age_max ?? 99),
-      Number(user.age)
-    ]
+        u.hobbies,
+        u.prompt_one,
+        u.prompt_two,
+        u.prompt_three,
+        ROUND((${greatCircleMilesSql("$3", "$4")})::numeric, 2) AS distance_miles,
+        feed.ordinal
+      FROM unnest($2::text[]) WITH ORDINALITY AS feed(user_id, ordinal)
+      JOIN users u ON u.id = feed.user_id
+      WHERE ${DISCOVERY_EXCLUSIONS_SQL}
+        AND feed.ordinal > $5
+      ORDER BY feed.ordinal ASC
+      LIMIT $6`,
+    [userId, feed.rankedUserIds, Number(user.latitude), Number(user.longitude), position, limit + 1]
   );
 
-  return rows;
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+  return {
+    profiles: pageRows.map((row) => ({ ...mapPublicProfile(row), distanceMiles: Number(row.distance_miles) })),
+    nextCursor: hasMore && last ? encodeDiscoveryCursor(feed.id, Number(last.ordinal)) : null,
+    variant: feed.variant
+  };
 }
 
 export async function updateUserLocation(userId: string, latitude: number, longitude: number) {
@@ -819,6 +1605,39 @@ export async function updateUserDistancePreference(userId: string, maxDistanceMi
   return rows[0];
 }
 
+// Pausing hides the user from discovery and from new Out Tonight sessions, and
+// closes any session they had open. Matches and chats carry on as before.
+export async function updateUserVisibility(
+  userId: string,
+  updates: { discoverable?: boolean; discoveryVisibility?: "everyone" | "liked_only"; shareLastActive?: boolean }
+) {
+  await getUserAny(userId);
+  const { rows } = await pool.query(
+    `UPDATE users
+     SET discoverable = COALESCE($2, discoverable),
+         discovery_visibility = COALESCE($3, discovery_visibility),
+         share_last_active = COALESCE($4, share_last_active),
+         paused_at = CASE
+           WHEN $2::boolean IS NULL THEN paused_at
+           WHEN $2::boolean THEN NULL
+           ELSE COALESCE(paused_at, NOW())
+         END
+     WHERE id = $1
+     RETURNING id, discoverable, discovery_visibility AS "discoveryVisibility", paused_at AS "pausedAt",
+               share_last_active AS "shareLastActive"`,
+    [userId, updates.discoverable ?? null, updates.discoveryVisibility ?? null, updates.shareLastActive ?? null]
+  );
+  if (updates.discoverable === false) {
+    await pool.query(
+      `UPDATE availability_sessions
+       SET active = FALSE
+       WHERE initiator_user_id = $1 AND active = TRUE`,
+      [userId]
+    );
+  }
+  return rows[0];
+}
+
 export async function assertVerifiedUser(userId: string) {
   await getUser(userId);
 }
@@ -982,52 +1801,48 @@ export async function reviewVerificationSubmission(
   };
 }
 
-export async function banUserByAdmin(adminUserId: string, targetUserId: string, reason?: string) {
+async function applyUserBan(db: Queryable, adminUserId: string, targetUserId: string, reason?: string) {
   if (adminUserId === targetUserId) {
     throw new Error("Admin cannot ban own account.");
   }
 
-  const client = await pool.connect();
-  try {
-    await client.query("BEGIN");
-
-    const target = await client.query(
-      `SELECT id, is_banned
-       FROM users
-       WHERE id = $1
-       FOR UPDATE`,
-      [targetUserId]
-    );
-    if (target.rowCount === 0) {
-      throw new Error("Target user not found.");
-    }
+  const target = await db.query(
+    `SELECT id, is_banned
+     FROM users
+     WHERE id = $1
+     FOR UPDATE`,
+    [targetUserId]
+  );
+  if (target.rowCount === 0) {
+    throw new Error("Target user not found.");
+  }
 
-    await client.query(
-      `UPDATE users
-       SET is_banned = TRUE,
-           banned_reason = $2,
-           banned_at = NOW()
-       WHERE id = $1`,
-      [targetUserId, reason?.trim() || "Admin moderation action"]
-    );
+  await db.query(
+    `UPDATE users
+     SET is_banned = TRUE,
+         banned_reason = $2,
+         banned_at = NOW()
+     WHERE id = $1`,
+    [targetUserId, reason?.trim() || "Admin moderation action"]
+  );
 
-    await client.query(
-      `UPDATE auth_refresh_sessions
-       SET revoked_at = NOW()
-       WHERE user_id = $1
-         AND revoked_at IS NULL`,
-      [targetUserId]
-    );
+  await revokeAuthSessions(db, targetUserId);
 
-    await logAdminAction(client as unknown as Queryable, {
-      adminUserId,
-      action: "user_ban",
-      targetUserId,
-      metadata: {
-        reason: reason?.trim() || null
-      }
-    });
+  await logAdminAction(db, {
+    adminUserId,
+    action: "user_ban",
+    targetUserId,
+    metadata: {
+      reason: reason?.trim() || null
+    }
+  });
+}
 
+export async function banUserByAdmin(adminUserId: string, targetUserId: string, reason?: string) {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await applyUserBan(client as unknown as Queryable, adminUserId, targetUserId, reason);
     await client.query("COMMIT");
     return { ok: true as const, userId: targetUserId, isBanned: true };
   } catch (err) {
@@ -1144,90 +1959,650 @@ export async function trackProductEvent(
   return { ok: true as const };
 }
 
-export async function createUserReport(
-  reporterUserId: string,
-  targetUserId: string,
-  reason: string,
-  details?: string
-) {
-  if (reporterUserId === targetUserId) {
-    throw new Error("Cannot report your own account.");
+export async function createUserReport(
+  reporterUserId: string,
+  targetUserId: string,
+  reason: string,
+  details?: string
+) {
+  if (reporterUserId === targetUserId) {
+    throw new Error("Cannot report your own account.");
+  }
+  await getUserAny(reporterUserId);
+  await getUserAny(targetUserId);
+  await pool.query(
+    `INSERT INTO user_reports (id, reporter_user_id, target_user_id, reason, details, status, created_at)
+     VALUES ($1, $2, $3, $4, $5, 'open', NOW())`,
+    [id("rpt"), reporterUserId, targetUserId, reason.trim(), details?.trim() || null]
+  );
+  return { ok: true as const };
+}
+
+const REPORT_RESOLUTIONS: Record<ReportAction, string> = {
+  dismiss: "dismissed",
+  warn: "warned",
+  ban: "banned",
+  close_pair: "pair_closed"
+};
+
+const REPORT_SELECT = `
+  SELECT
+    r.id,
+    r.reporter_user_id AS "reporterUserId",
+    reporter.first_name AS "reporterFirstName",
+    reporter.last_name AS "reporterLastName",
+    r.counterpart_user_id AS "counterpartUserId",
+    counterpart.first_name AS "counterpartFirstName",
+    counterpart.last_name AS "counterpartLastName",
+    r.target_user_id AS "targetUserId",
+    target.first_name AS "targetFirstName",
+    target.last_name AS "targetLastName",
+    target.is_banned AS "targetIsBanned",
+    r.reason,
+    r.details,
+    r.status,
+    r.source,
+    r.message_id AS "messageId",
+    flagged.match_id AS "messageMatchId",
+    flagged.body AS "messageBody",
+    flagged.created_at AS "messageCreatedAt",
+    r.moderation,
+    r.hit_count AS "hitCount",
+    r.last_seen_at AS "lastSeenAt",
+    r.resolution,
+    r.resolution_note AS "resolutionNote",
+    r.reviewed_by AS "reviewedBy",
+    r.reviewed_at AS "reviewedAt",
+    r.created_at AS "createdAt"
+  FROM user_reports r
+  LEFT JOIN users reporter ON reporter.id = r.reporter_user_id
+  LEFT JOIN users counterpart ON counterpart.id = r.counterpart_user_id
+  JOIN users target ON target.id = r.target_user_id
+  LEFT JOIN messages flagged ON flagged.id = r.message_id`;
+
+export async function listUserReports(options?: {
+  status?: ReportStatus | "all";
+  source?: ReportSource | "all";
+  targetUserId?: string;
+  reason?: string;
+  limit?: number;
+  offset?: number;
+}) {
+  const status = options?.status ?? "open";
+  const limit = Math.max(1, Math.min(Number(options?.limit ?? 50), 200));
+  const offset = Math.max(0, Number(options?.offset ?? 0));
+  const reason = options?.reason?.trim().toLowerCase() ?? "";
+
+  const whereParts: string[] = [];
+  const params: unknown[] = [];
+
+  if (status !== "all") {
+    params.push(status);
+    whereParts.push(`r.status = $${params.length}`);
+  }
+  if (options?.source && options.source !== "all") {
+    params.push(options.source);
+    whereParts.push(`r.source = $${params.length}`);
+  }
+  if (options?.targetUserId) {
+    params.push(options.targetUserId);
+    whereParts.push(`r.target_user_id = $${params.length}`);
+  }
+  if (reason) {
+    params.push(`%${reason}%`);
+    whereParts.push(`LOWER(r.reason) LIKE $${params.length}`);
+  }
+
+  const whereClause = whereParts.length > 0 ? `WHERE ${whereParts.join(" AND ")}` : "";
+  const countParams = [...params];
+  params.push(limit, offset);
+  const limitParam = `$${params.length - 1}`;
+  const offsetParam = `$${params.length}`;
+
+  const [countRes, rowsRes] = await Promise.all([
+    pool.query(`SELECT COUNT(*)::int AS total FROM user_reports r ${whereClause}`, countParams),
+    pool.query(
+      `${REPORT_SELECT}
+       ${whereClause}
+       ORDER BY r.created_at DESC, r.id DESC
+       LIMIT ${limitParam}
+       OFFSET ${offsetParam}`,
+      params
+    )
+  ]);
+
+  return {
+    rows: rowsRes.rows,
+    total: Number(countRes.rows[0]?.total ?? 0),
+    limit,
+    offset
+  };
+}
+
+export async function getUserReportDetail(reportId: string) {
+  const reportRes = await pool.query(`${REPORT_SELECT} WHERE r.id = $1`, [reportId]);
+  const report = reportRes.rows[0];
+  if (!report) {
+    throw new Error("Report not found.");
+  }
+  // For moderation reports the other side of the pair is the counterpart.
+  const otherUserId = String(report.reporterUserId ?? report.counterpartUserId);
+  const targetUserId = String(report.targetUserId);
+  const [lowId, highId] = sortPairUsers(otherUserId, targetUserId);
+
+  const [priorReportsRes, banHistoryRes, targetRes, matchesRes, closureRes] = await Promise.all([
+    pool.query(
+      `${REPORT_SELECT}
+       WHERE r.target_user_id = $1 AND r.id <> $2
+       ORDER BY r.created_at DESC
+       LIMIT 50`,
+      [targetUserId, reportId]
+    ),
+    pool.query(
+      `SELECT id, admin_user_id AS "adminUserId", action, metadata, created_at AS "createdAt"
+       FROM admin_audit_logs
+       WHERE target_user_id = $1 AND action IN ('user_ban', 'user_unban')
+       ORDER BY created_at DESC
+       LIMIT 50`,
+      [targetUserId]
+    ),
+    pool.query(
+      `SELECT is_banned AS "isBanned", banned_reason AS "bannedReason", banned_at AS "bannedAt"
+       FROM users
+       WHERE id = $1`,
+      [targetUserId]
+    ),
+    pool.query(
+      `SELECT id, created_at AS "createdAt"
+       FROM matches
+       WHERE LEAST(user_a_id, user_b_id) = $1 AND GREATEST(user_a_id, user_b_id) = $2
+       ORDER BY created_at DESC`,
+      [lowId, highId]
+    ),
+    pool.query(
+      `SELECT reason, actor_user_id AS "actorUserId", created_at AS "createdAt"
+       FROM pair_closures
+       WHERE user_low_id = $1 AND user_high_id = $2`,
+      [lowId, highId]
+    )
+  ]);
+
+  const matchIds = matchesRes.rows.map((row) => String(row.id));
+  const messagesRes =
+    matchIds.length > 0
+      ? await pool.query(
+          `SELECT m.id, m.match_id AS "matchId", m.sender_user_id AS "senderUserId", m.body,
+                  ${messageAttachmentSql("m")} AS attachment, m.created_at AS "createdAt"
+           FROM messages m
+           WHERE m.match_id = ANY($1::text[])
+           ORDER BY m.created_at ASC
+           LIMIT $2`,
+          [matchIds, REPORT_HISTORY_MESSAGE_LIMIT]
+        )
+      : { rows: [] };
+
+  return {
+    report,
+    priorReports: priorReportsRes.rows,
+    ban: {
+      ...(targetRes.rows[0] ?? { isBanned: false, bannedReason: null, bannedAt: null }),
+      history: banHistoryRes.rows
+    },
+    sharedHistory: {
+      matches: matchesRes.rows,
+      messages: messagesRes.rows,
+      closure: closureRes.rows[0] ?? null
+    }
+  };
+}
+
+export async function resolveUserReport(
+  adminUserId: string,
+  reportId: string,
+  action: ReportAction,
+  note?: string
+) {
+  const resolution = REPORT_RESOLUTIONS[action];
+  const cleanedNote = note?.trim() || null;
+  let targetUserId = "";
+  let attachmentNames: string[] = [];
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const reportRes = await client.query(
+      `SELECT id, COALESCE(reporter_user_id, counterpart_user_id) AS other_user_id, target_user_id, reason, status
+       FROM user_reports
+       WHERE id = $1
+       FOR UPDATE`,
+      [reportId]
+    );
+    const report = reportRes.rows[0];
+    if (!report) {
+      throw new Error("Report not found.");
+    }
+    if (report.status === "closed") {
+      throw new Error("Report is already closed.");
+    }
+    const otherUserId = report.other_user_id ? String(report.other_user_id) : null;
+    targetUserId = String(report.target_user_id);
+    const db = client as unknown as Queryable;
+
+    if (action === "ban") {
+      await applyUserBan(db, adminUserId, targetUserId, cleanedNote ?? `Report: ${String(report.reason)}`);
+    } else if (action === "close_pair") {
+      if (!otherUserId) {
+        throw new Error("Report has no other member to close the pair with.");
+      }
+      const [lowId, highId] = sortPairUsers(otherUserId, targetUserId);
+      await client.query(
+        `INSERT INTO pair_closures (user_low_id, user_high_id, reason, actor_user_id, created_at)
+         VALUES ($1, $2, 'admin_closed', $3, NOW())
+         ON CONFLICT (user_low_id, user_high_id)
+         DO UPDATE SET reason = EXCLUDED.reason, actor_user_id = EXCLUDED.actor_user_id, created_at = NOW()`,
+        [lowId, highId, adminUserId]
+      );
+      await client.query(
+        `UPDATE meetup_offers
+         SET status = 'expired'
+         WHERE status = 'pending'
+           AND LEAST(initiator_user_id, recipient_user_id) = $1
+           AND GREATEST(initiator_user_id, recipient_user_id) = $2`,
+        [lowId, highId]
+      );
+      const pairMatchesRes = await client.query(
+        `SELECT id FROM matches
+         WHERE LEAST(user_a_id, user_b_id) = $1 AND GREATEST(user_a_id, user_b_id) = $2`,
+        [lowId, highId]
+      );
+      attachmentNames = await releaseMatchAttachments(
+        db,
+        pairMatchesRes.rows.map((row) => String(row.id))
+      );
+      await client.query(
+        `DELETE FROM matches
+         WHERE LEAST(user_a_id, user_b_id) = $1 AND GREATEST(user_a_id, user_b_id) = $2`,
+        [lowId, highId]
+      );
+      await logAdminAction(db, {
+        adminUserId,
+        action: "pair_force_close",
+        targetUserId,
+        metadata: { reportId, otherUserId }
+      });
+    }
+
+    await client.query(
+      `UPDATE user_reports
+       SET status = 'closed',
+           resolution = $2,
+           resolution_note = $3,
+           reviewed_by = $4,
+           reviewed_at = NOW()
+       WHERE id = $1`,
+      [reportId, resolution, cleanedNote, adminUserId]
+    );
+
+    await logAdminAction(db, {
+      adminUserId,
+      action: "report_resolve",
+      targetUserId,
+      metadata: {
+        reportId,
+        resolution,
+        note: cleanedNote
+      }
+    });
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+  purgeAttachments(attachmentNames);
+
+  if (action === "warn") {
+    void sendPushToUsers([targetUserId], {
+      title: "Community guidelines warning",
+      body: "A report about your account was reviewed. Please follow the community guidelines.",
+      data: { type: "moderation_warning", reportId }
+    }).catch(() => null);
+  }
+
+  return { ok: true as const, reportId, status: "closed" as const, resolution };
+}
+
+export async function purgeExpiredVerificationSubmissions() {
+  const { rowCount } = await pool.query(
+    `DELETE FROM verification_submissions
+     WHERE status IN ('approved', 'rejected')
+       AND reviewed_at IS NOT NULL
+       AND reviewed_at < NOW() - ($1::int || ' days')::interval`,
+    [VERIFICATION_RETENTION_DAYS]
+  );
+  return {
+    ok: true as const,
+    retentionDays: VERIFICATION_RETENTION_DAYS,
+    deletedCount: Number(rowCount ?? 0)
+  };
+}
+
+function encodeMatchCursor(createdAt: string, matchId: string) {
+  return Buffer.from(`${createdAt}|${matchId}`).toString("base64url");
+}
+
+function decodeMatchCursor(cursor: string) {
+  const [createdAt, matchId] = Buffer.from(cursor, "base64url").toString("utf8").split("|");
+  if (!createdAt || !matchId || Number.isNaN(new Date(createdAt).getTime())) {
+    throw new Error("Invalid cursor.");
+  }
+  return { createdAt, matchId };
+}
+
+export type MessageStatus = "sent" | "delivered" | "read";
+
+// Reactions are a fixed palette so they render the same on every device.
+export const MESSAGE_REACTIONS = ["❤️", "😂", "😮", "😢", "👍", "🔥"] as const;
+
+export type UploadKind = "image" | "audio";
+
+// Attachments refer to a row in `uploads`; kind, type, size and duration all
+// come from that row, never from the message request.
+export type MessageAttachmentInput = {
+  uploadId: string;
+};
+
+const MESSAGE_ATTACHMENT_MIME_TYPES: Record<UploadKind, string[]> = {
+  image: ["image/jpeg", "image/jpg", "image/png", "image/webp", "image/heic"],
+  audio: ["audio/mp4", "audio/m4a", "audio/x-m4a"]
+};
+
+export type UploadPurpose = "message_attachment" | "profile_photo" | "verification";
+
+// Called by /uploads once the file is stored, with what the server measured.
+// Only message_attachment uploads can be claimed by a message, and so only
+// those are ever deleted with a chat.
+export async function recordUpload(input: {
+  ownerUserId: string;
+  kind: UploadKind;
+  purpose: UploadPurpose;
+  storedName: string;
+  url: string;
+  mimeType: string;
+  sizeBytes: number;
+  durationSeconds: number | null;
+}) {
+  const uploadId = id("upl");
+  await pool.query(
+    `INSERT INTO uploads (
+       id, owner_user_id, kind, purpose, stored_name, url, mime_type, size_bytes, duration_seconds, created_at
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())`,
+    [
+      uploadId,
+      input.ownerUserId,
+      input.kind,
+      input.purpose,
+      input.storedName,
+      input.url,
+      input.mimeType,
+      input.sizeBytes,
+      input.durationSeconds
+    ]
+  );
+  return {
+    id: uploadId,
+    url: input.url,
+    mimeType: input.mimeType,
+    sizeBytes: input.sizeBytes,
+    ...(input.durationSeconds !== null ? { durationSeconds: input.durationSeconds } : {})
+  };
+}
+
+// The attachment of a message as one JSON value (or NULL), so every message
+// query returns the same shape.
+function messageAttachmentSql(alias: string) {
+  return `CASE WHEN ${alias}.attachment_kind IS NULL THEN NULL ELSE json_build_object(
+    'kind', ${alias}.attachment_kind,
+    'url', ${alias}.attachment_url,
+    'mimeType', ${alias}.attachment_mime_type,
+    'sizeBytes', ${alias}.attachment_size_bytes,
+    'durationSeconds', ${alias}.attachment_duration_seconds
+  ) END`;
+}
+
+// Locks one of the sender's own attachment uploads that no message has used yet. The
+// limits were enforced on the file at upload time; they are checked again here
+// so a row from before a limit was lowered can't slip through.
+async function claimMessageAttachment(db: Queryable, uploadId: string, senderUserId: string) {
+  const { rows } = await db.query(
+    `SELECT id, kind, url, mime_type, size_bytes, duration_seconds
+     FROM uploads
+     WHERE id = $1 AND owner_user_id = $2 AND purpose = 'message_attachment' AND attached_at IS NULL
+     FOR UPDATE`,
+    [uploadId, senderUserId]
+  );
+  const upload = rows[0];
+  if (!upload) {
+    throw new Error("Attachment not found. Upload it again before sending.");
+  }
+  const kind = String(upload.kind) as UploadKind;
+  const mimeType = String(upload.mime_type);
+  const sizeBytes = Number(upload.size_bytes);
+  const durationSeconds = upload.duration_seconds === null ? null : Number(upload.duration_seconds);
+  if (!MESSAGE_ATTACHMENT_MIME_TYPES[kind].includes(mimeType)) {
+    throw new Error(`Unsupported ${kind === "image" ? "photo" : "voice note"} type.`);
+  }
+  const maxBytes = kind === "image" ? MESSAGE_IMAGE_MAX_BYTES : VOICE_NOTE_MAX_BYTES;
+  if (sizeBytes > maxBytes) {
+    throw new Error(`Attachment too large. Max ${maxBytes} bytes.`);
+  }
+  if (kind === "audio" && (durationSeconds === null || durationSeconds > VOICE_NOTE_MAX_SECONDS)) {
+    throw new Error(`Voice notes can be up to ${VOICE_NOTE_MAX_SECONDS} seconds.`);
+  }
+  return { id: String(upload.id), kind, url: String(upload.url), mimeType, sizeBytes, durationSeconds };
+}
+
+// Drops the uploads rows attached to messages in these matches and returns the
+// stored file names, which purgeAttachments deletes once the caller commits.
+// Must run before the matches (and with them the messages) are deleted.
+async function releaseMatchAttachments(db: Queryable, matchIds: string[]) {
+  if (matchIds.length === 0) {
+    return [];
   }
-  await getUserAny(reporterUserId);
-  await getUserAny(targetUserId);
-  await pool.query(
-    `INSERT INTO user_reports (id, reporter_user_id, target_user_id, reason, details, status, created_at)
-     VALUES ($1, $2, $3, $4, $5, 'open', NOW())`,
-    [id("rpt"), reporterUserId, targetUserId, reason.trim(), details?.trim() || null]
+  const { rows } = await db.query(
+    `DELETE FROM uploads u
+     USING messages m
+     WHERE m.id = u.message_id AND m.match_id = ANY($1::text[]) AND u.purpose = 'message_attachment'
+     RETURNING u.stored_name`,
+    [matchIds]
   );
-  return { ok: true as const };
+  return rows.map((row) => String(row.stored_name));
 }
 
-export async function purgeExpiredVerificationSubmissions() {
-  const { rowCount } = await pool.query(
-    `DELETE FROM verification_submissions
-     WHERE status IN ('approved', 'rejected')
-       AND reviewed_at IS NOT NULL
-       AND reviewed_at < NOW() - ($1::int || ' days')::interval`,
-    [VERIFICATION_RETENTION_DAYS]
+// Runs after the pair is closed and committed; a failed delete only leaves an
+// orphaned file behind, so it is reported rather than retried.
+function purgeAttachments(storedNames: string[]) {
+  for (const name of storedNames) {
+    void deleteStoredUpload(name).catch((err) => captureBackendError(err, { stage: "attachment_purge", name }));
+  }
+}
+
+// How far a member has read a chat. Chats from before read receipts have no
+// cursor yet, so they fall back to the member's own last message.
+function readThroughSql(matchIdSql: string, userIdSql: string, readAlias: string) {
+  return `COALESCE(
+    ${readAlias}.last_read_at,
+    (SELECT MAX(mine.created_at) FROM messages mine WHERE mine.match_id = ${matchIdSql} AND mine.sender_user_id = ${userIdSql}),
+    '-infinity'::timestamptz
+  )`;
+}
+
+// Status of a message as seen by its sender, compared in SQL so the cursors
+// keep Postgres' microsecond precision.
+function messageStatusSql(createdAtSql: string, readAlias: string) {
+  return `CASE
+    WHEN ${createdAtSql} <= ${readAlias}.last_read_at THEN 'read'
+    WHEN ${createdAtSql} <= ${readAlias}.last_delivered_at THEN 'delivered'
+    ELSE 'sent'
+  END`;
+}
+
+async function countUnreadMessages(db: Queryable, userId: string) {
+  const { rows } = await db.query(
+    `SELECT COUNT(*)::int AS count
+     FROM matches m
+     JOIN messages theirs ON theirs.match_id = m.id AND theirs.sender_user_id <> $1
+     LEFT JOIN message_reads my_read ON my_read.match_id = m.id AND my_read.user_id = $1
+     WHERE (m.user_a_id = $1 OR m.user_b_id = $1)
+       AND theirs.created_at > ${readThroughSql("m.id", "$1", "my_read")}`,
+    [userId]
   );
+  return Number(rows[0]?.count ?? 0);
+}
+
+// Members who turned off last-active sharing show no presence at all.
+function mapPresence(row: { last_active_at?: unknown; share_last_active?: unknown }) {
+  if (row.share_last_active === false || !row.last_active_at) {
+    return { online: false, lastActiveAt: null };
+  }
+  const lastActiveAt = new Date(String(row.last_active_at));
   return {
-    ok: true as const,
-    retentionDays: VERIFICATION_RETENTION_DAYS,
-    deletedCount: Number(rowCount ?? 0)
+    online: Date.now() - lastActiveAt.getTime() <= PRESENCE_ONLINE_SECONDS * 1000,
+    lastActiveAt: lastActiveAt.toISOString()
   };
 }
 
-export async function listMatches(userId?: string, options?: { limit?: number; offset?: number }) {
+// One round trip per page: message counts, meet decisions, the last message and
+// the other member's profile are aggregated per match instead of queried in a loop.
+export async function listMatches(userId: string, options?: { limit?: number; cursor?: string | null }) {
   const limit = Math.max(1, Math.min(Number(options?.limit ?? 50), 200));
-  const offset = Math.max(0, Number(options?.offset ?? 0));
-  const params: unknown[] = [];
-  let whereClause = "";
-  if (userId) {
-    params.push(userId);
-    whereClause = `WHERE user_a_id = $1 OR user_b_id = $1`;
+  const params: unknown[] = [userId];
+  let cursorClause = "";
+  if (options?.cursor) {
+    const decoded = decodeMatchCursor(options.cursor);
+    params.push(decoded.createdAt, decoded.matchId);
+    cursorClause = `AND (m.created_at, m.id) < ($2::timestamptz, $3)`;
   }
-  params.push(limit, offset);
-  const limitParam = `$${params.length - 1}`;
-  const offsetParam = `$${params.length}`;
+  params.push(limit + 1);
+
   const { rows } = await pool.query(
-    `SELECT id, user_a_id, user_b_id, created_at, coordination_ends_at
-     FROM matches
-     ${whereClause}
-     ORDER BY created_at DESC
-     LIMIT ${limitParam}
-     OFFSET ${offsetParam}`,
+    `WITH page AS (
+       SELECT m.id, m.user_a_id, m.user_b_id, m.created_at, m.coordination_ends_at, m.coordination_expired,
+              CASE WHEN m.user_a_id = $1 THEN m.user_b_id ELSE m.user_a_id END AS other_user_id,
+              to_char(m.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS cursor_at
+       FROM matches m
+       WHERE (m.user_a_id = $1 OR m.user_b_id = $1)
+         ${cursorClause}
+       ORDER BY m.created_at DESC, m.id DESC
+       LIMIT $${params.length}
+     )
+     SELECT
+       page.*,
+       viewer.plan_tier AS viewer_plan_tier,
+       other.plan_tier AS other_plan_tier,
+       other.first_name, other.age, other.gender, other.bio, other.profile_photo_url, other.verified,
+       other.photos, other.hobbies, other.prompt_one, other.prompt_two, other.prompt_three,
+       other.last_active_at, other.share_last_active,
+       COALESCE(counts.by_user, '{}'::json) AS messages_by_user,
+       COALESCE(counts.total, 0) AS total_messages,
+       COALESCE(decisions.by_user, '{}'::json) AS meet_decision_by_user,
+       last_message.id AS last_message_id,
+       last_message.sender_user_id AS last_message_sender_user_id,
+       last_message.body AS last_message_body,
+       last_message.attachment AS last_message_attachment,
+       last_message.created_at AS last_message_created_at,
+       their_read.last_read_at AS other_last_read_at,
+       CASE WHEN last_message.sender_user_id = $1
+            THEN ${messageStatusSql("last_message.created_at", "their_read")}
+       END AS last_message_status,
+       COALESCE(unread.count, 0) AS unread_count
+     FROM page
+     JOIN users viewer ON viewer.id = $1
+     JOIN users other ON other.id = page.other_user_id
+     LEFT JOIN message_reads my_read ON my_read.match_id = page.id AND my_read.user_id = $1
+     LEFT JOIN message_reads their_read ON their_read.match_id = page.id AND their_read.user_id = page.other_user_id
+     LEFT JOIN LATERAL (
+       SELECT json_object_agg(grouped.sender_user_id, grouped.count) AS by_user,
+              SUM(grouped.count)::int AS total
+       FROM (
+         SELECT sender_user_id, COUNT(*)::int AS count
+         FROM messages
+         WHERE match_id = page.id
+         GROUP BY sender_user_id
+       ) grouped
+     ) counts ON TRUE
+     LEFT JOIN LATERAL (
+       SELECT json_object_agg(user_id, decision) AS by_user
+       FROM meet_decisions
+       WHERE match_id = page.id
+     ) decisions ON TRUE
+     LEFT JOIN LATERAL (
+       SELECT lm.id, lm.sender_user_id, lm.body, lm.created_at, ${messageAttachmentSql("lm")} AS attachment
+       FROM messages lm
+       WHERE lm.match_id = page.id
+       ORDER BY lm.created_at DESC, lm.id DESC
+       LIMIT 1
+     ) last_message ON TRUE
+     LEFT JOIN LATERAL (
+       SELECT COUNT(*)::int AS count
+       FROM messages theirs
+       WHERE theirs.match_id = page.id
+         AND theirs.sender_user_id <> $1
+         AND theirs.created_at > ${readThroughSql("page.id", "$1", "my_read")}
+     ) unread ON TRUE
+     ORDER BY page.created_at DESC, page.id DESC`,
     params
   );
 
-  const out = [] as Array<Record<string, unknown>>;
-  for (const match of rows as DbMatch[]) {
-    const counts = await getMessageCounts(match.id);
-    const decisionsRes = await pool.query(
-      `SELECT user_id, decision
-       FROM meet_decisions
-       WHERE match_id = $1`,
-      [match.id]
-    );
-
-    const meetDecisionByUser: Record<string, string> = {};
-    for (const row of decisionsRes.rows) {
-      meetDecisionByUser[row.user_id] = row.decision;
-    }
-
-    out.push({
-      id: match.id,
-      userAId: match.user_a_id,
-      userBId: match.user_b_id,
-      createdAt: match.created_at,
-      coordinationEndsAt: match.coordination_ends_at,
-      messagesByUser: counts.byUser,
-      totalMessages: counts.total,
-      meetDecisionByUser
-    });
-  }
-
-  return out;
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const matches = pageRows.map((row) => {
+    const messagesByUser = row.messages_by_user as Record<string, number>;
+    const totalMessages = Number(row.total_messages);
+    const messageLimits = resolveMatchMessageLimits([
+      getPlanTier({ plan_tier: row.viewer_plan_tier }),
+      getPlanTier({ plan_tier: row.other_plan_tier })
+    ]);
+    return {
+      id: row.id,
+      userAId: row.user_a_id,
+      userBId: row.user_b_id,
+      createdAt: row.created_at,
+      coordinationEndsAt: row.coordination_ends_at,
+      coordinationExpired: row.coordination_expired,
+      messagesByUser,
+      totalMessages,
+      messageLimits,
+      remainingByUser: {
+        [row.user_a_id]: Math.max(0, messageLimits.maxMessagesPerUser - (messagesByUser[row.user_a_id] ?? 0)),
+        [row.user_b_id]: Math.max(0, messageLimits.maxMessagesPerUser - (messagesByUser[row.user_b_id] ?? 0))
+      },
+      remainingTotal: Math.max(0, messageLimits.maxMessagesTotal - totalMessages),
+      meetDecisionByUser: row.meet_decision_by_user as Record<string, string>,
+      otherUser: mapPublicProfile({ ...row, id: row.other_user_id }),
+      lastMessage: row.last_message_id
+        ? {
+            id: row.last_message_id,
+            matchId: row.id,
+            senderUserId: row.last_message_sender_user_id,
+            body: row.last_message_body,
+            attachment: row.last_message_attachment ?? null,
+            createdAt: row.last_message_created_at,
+            status: (row.last_message_status ?? null) as MessageStatus | null
+          }
+        : null,
+      unreadCount: Number(row.unread_count),
+      otherLastReadAt: row.other_last_read_at ?? null,
+      otherPresence: mapPresence(row)
+    };
+  });
+  const last = pageRows[pageRows.length - 1];
+  return {
+    matches,
+    nextCursor: hasMore && last ? encodeMatchCursor(String(last.cursor_at), String(last.id)) : null
+  };
 }
 
 export async function listOffers() {
@@ -1242,28 +2617,219 @@ export async function listOffers() {
   return rows;
 }
 
-export async function listMessages(matchId: string, options?: { limit?: number; before?: string | null }) {
-  await getMatchById(matchId);
+export async function listOffersForUser(
+  userId: string,
+  options?: { status?: string; limit?: number; offset?: number }
+) {
+  const limit = Math.max(1, Math.min(Number(options?.limit ?? 50), 200));
+  const offset = Math.max(0, Number(options?.offset ?? 0));
+  const { rows } = await pool.query(
+    `SELECT id, session_id AS "sessionId", initiator_user_id AS "initiatorUserId",
+            recipient_user_id AS "recipientUserId", place_id AS "placeId",
+            place_label AS "placeLabel", created_at AS "createdAt",
+            respond_by AS "respondBy", location_expires_at AS "locationExpiresAt", status
+     FROM meetup_offers
+     WHERE (initiator_user_id = $1 OR recipient_user_id = $1)
+       AND ($2::text IS NULL OR status = $2)
+     ORDER BY created_at DESC
+     LIMIT $3
+     OFFSET $4`,
+    [userId, options?.status ?? null, limit, offset]
+  );
+  return rows;
+}
+
+export async function listMessages(
+  matchId: string,
+  viewerUserId: string,
+  options?: { limit?: number; before?: string | null }
+) {
+  const match = await getMatchById(matchId);
+  requireMatchMember(match, viewerUserId);
   const limit = Math.max(1, Math.min(Number(options?.limit ?? 100), 300));
   const before = options?.before ? new Date(options.before) : null;
   const beforeIso =
     before && !Number.isNaN(before.getTime()) ? before.toISOString() : null;
 
+  const otherUserId = match.user_a_id === viewerUserId ? match.user_b_id : match.user_a_id;
   const { rows } = await pool.query(
-    `SELECT id, match_id AS "matchId", sender_user_id AS "senderUserId", body, created_at AS "createdAt"
-     FROM messages
-     WHERE match_id = $1
-       AND ($2::timestamptz IS NULL OR created_at < $2::timestamptz)
-     ORDER BY created_at DESC
+    `SELECT m.id, m.match_id AS "matchId", m.sender_user_id AS "senderUserId", m.body,
+            ${messageAttachmentSql("m")} AS attachment, m.created_at AS "createdAt",
+            CASE WHEN m.sender_user_id = $4 THEN ${messageStatusSql("m.created_at", "their_read")} END AS status,
+            COALESCE(
+              (SELECT json_agg(json_build_object('userId', r.user_id, 'emoji', r.emoji) ORDER BY r.created_at)
+               FROM message_reactions r
+               WHERE r.message_id = m.id),
+              '[]'::json
+            ) AS reactions
+     FROM messages m
+     LEFT JOIN message_reads their_read ON their_read.match_id = m.match_id AND their_read.user_id = $5
+     WHERE m.match_id = $1
+       AND ($2::timestamptz IS NULL OR m.created_at < $2::timestamptz)
+     ORDER BY m.created_at DESC
      LIMIT $3`,
-    [matchId, beforeIso, limit]
+    [matchId, beforeIso, limit, viewerUserId, otherUserId]
+  );
+
+  // Fetching the chat is what delivers the other member's messages. The cursor
+  // is read back from the row so it never loses precision in a JS Date.
+  const newestTheirs = rows.find((row) => row.senderUserId !== viewerUserId);
+  if (newestTheirs) {
+    await pool.query(
+      `INSERT INTO message_reads (match_id, user_id, last_delivered_at, updated_at)
+       SELECT $1, $2, created_at, NOW() FROM messages WHERE id = $3 AND match_id = $1
+       ON CONFLICT (match_id, user_id)
+       DO UPDATE SET last_delivered_at = GREATEST(message_reads.last_delivered_at, EXCLUDED.last_delivered_at),
+                     updated_at = NOW()`,
+      [matchId, viewerUserId, newestTheirs.id]
+    );
+  }
+
+  return [...rows].reverse().map((row) => ({
+    ...row,
+    status: (row.status ?? null) as MessageStatus | null
+  }));
+}
+
+// Sets (or with emoji null, clears) the member's reaction to one message in
+// the chat. Reactions live outside `messages`, so they never touch the caps.
+export async function reactToMessage(matchId: string, messageId: string, userId: string, emoji: string | null) {
+  if (emoji !== null && !(MESSAGE_REACTIONS as readonly string[]).includes(emoji)) {
+    throw new Error("Unsupported reaction.");
+  }
+  const match = await getMatchById(matchId);
+  requireMatchMember(match, userId);
+  await assertPairNotClosed(pool, match.user_a_id, match.user_b_id);
+  const messageRes = await pool.query(`SELECT sender_user_id FROM messages WHERE id = $1 AND match_id = $2`, [
+    messageId,
+    matchId
+  ]);
+  const message = messageRes.rows[0];
+  if (!message) {
+    throw new Error("Message not found");
+  }
+
+  if (emoji === null) {
+    await pool.query(`DELETE FROM message_reactions WHERE message_id = $1 AND user_id = $2`, [messageId, userId]);
+  } else {
+    await pool.query(
+      `INSERT INTO message_reactions (message_id, user_id, emoji, created_at)
+       VALUES ($1, $2, $3, NOW())
+       ON CONFLICT (message_id, user_id)
+       DO UPDATE SET emoji = EXCLUDED.emoji, created_at = NOW()`,
+      [messageId, userId, emoji]
+    );
+  }
+
+  const otherUserId = match.user_a_id === userId ? match.user_b_id : match.user_a_id;
+  const reaction = { matchId, messageId, userId, emoji };
+  publishToUsers([userId, otherUserId], { type: "message.reaction", data: reaction });
+  if (emoji !== null && String(message.sender_user_id) === otherUserId) {
+    void (async () => {
+      const reactorRes = await pool.query(`SELECT first_name FROM users WHERE id = $1`, [userId]);
+      const reactorName = reactorRes.rows[0]?.first_name ? String(reactorRes.rows[0].first_name) : "Someone";
+      await sendPushToUsers([otherUserId], {
+        title: reactorName,
+        body: `Reacted ${emoji} to your message`,
+        data: { type: "message_reaction", matchId, messageId }
+      });
+    })().catch(() => null);
+  }
+  return reaction;
+}
+
+export async function getMatchPresence(matchId: string, viewerUserId: string) {
+  const match = await getMatchById(matchId);
+  requireMatchMember(match, viewerUserId);
+  const otherUserId = match.user_a_id === viewerUserId ? match.user_b_id : match.user_a_id;
+  const { rows } = await pool.query(`SELECT last_active_at, share_last_active FROM users WHERE id = $1`, [
+    otherUserId
+  ]);
+  return { matchId, userId: otherUserId, ...mapPresence(rows[0] ?? {}) };
+}
+
+// Typing state is never stored: it goes straight to the other member's event
+// stream, and clients drop it once expiresAt passes without a refresh.
+export async function sendTypingIndicator(matchId: string, userId: string, typing: boolean) {
+  const match = await getMatchById(matchId);
+  requireMatchMember(match, userId);
+  const otherUserId = match.user_a_id === userId ? match.user_b_id : match.user_a_id;
+  publishToUsers([otherUserId], {
+    type: "typing",
+    data: {
+      matchId,
+      userId,
+      typing,
+      expiresAt: typing ? new Date(Date.now() + TYPING_TTL_SECONDS * 1000).toISOString() : null
+    }
+  });
+  return { ok: true as const };
+}
+
+// Moves the member's read cursor up to messageId, or to the newest message
+// from the other member. Cursors never move backwards.
+export async function markMessagesRead(matchId: string, userId: string, options?: { messageId?: string | null }) {
+  const match = await getMatchById(matchId);
+  requireMatchMember(match, userId);
+  const otherUserId = match.user_a_id === userId ? match.user_b_id : match.user_a_id;
+
+  // The cursor is taken from messages inside the upsert itself: a round trip
+  // through a JS Date would truncate it to milliseconds and leave the newest
+  // message counted as unread.
+  if (options?.messageId) {
+    const exists = await pool.query(`SELECT 1 FROM messages WHERE id = $1 AND match_id = $2`, [
+      options.messageId,
+      matchId
+    ]);
+    if (!exists.rows[0]) {
+      throw new Error("Message not found");
+    }
+  }
+  const { rows } = await pool.query(
+    `INSERT INTO message_reads (match_id, user_id, last_read_at, last_delivered_at, updated_at)
+     SELECT $1, $2, through.created_at, through.created_at, NOW()
+     FROM (
+       SELECT CASE WHEN $3::text IS NULL
+                THEN (SELECT MAX(created_at) FROM messages WHERE match_id = $1 AND sender_user_id <> $2)
+                ELSE (SELECT created_at FROM messages WHERE id = $3 AND match_id = $1)
+              END AS created_at
+     ) through
+     WHERE through.created_at IS NOT NULL
+     ON CONFLICT (match_id, user_id)
+     DO UPDATE SET last_read_at = GREATEST(message_reads.last_read_at, EXCLUDED.last_read_at),
+                   last_delivered_at = GREATEST(message_reads.last_delivered_at, EXCLUDED.last_read_at),
+                   updated_at = NOW()
+     RETURNING last_read_at`,
+    [matchId, userId, options?.messageId ?? null]
+  );
+  const lastReadAt: unknown = rows[0]?.last_read_at ?? null;
+  if (rows[0]) {
+    publishToUsers([otherUserId], {
+      type: "message.read",
+      data: { matchId, userId, lastReadAt }
+    });
+  }
+
+  const { rows: unreadRows } = await pool.query(
+    `SELECT COUNT(*)::int AS count
+     FROM messages theirs
+     LEFT JOIN message_reads my_read ON my_read.match_id = theirs.match_id AND my_read.user_id = $2
+     WHERE theirs.match_id = $1
+       AND theirs.sender_user_id <> $2
+       AND theirs.created_at > ${readThroughSql("theirs.match_id", "$2", "my_read")}`,
+    [matchId, userId]
   );
-  return [...rows].reverse();
+  return {
+    matchId,
+    lastReadAt,
+    unreadCount: Number(unreadRows[0]?.count ?? 0),
+    totalUnread: await countUnreadMessages(pool, userId)
+  };
 }
 
 export async function swipe(fromUserId: string, toUserId: string, decision: SwipeDecision) {
   const fromUser = await getUser(fromUserId);
-  await getUser(toUserId);
+  const toUser = await getUser(toUserId);
 
   if (fromUserId === toUserId) {
     throw new Error("Cannot swipe on self");
@@ -1275,23 +2841,23 @@ export async function swipe(fromUserId: string, toUserId: string, decision: Swip
     const pairKey = [fromUserId, toUserId].sort().join(":");
     await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [pairKey]);
     await assertPairNotClosed(client, fromUserId, toUserId);
-    const planLimits = getPlanLimits(getPlanTier(fromUser as Record<string, unknown>));
-    if (planLimits.maxDailySwipes !== null) {
-      const swipeWindowRes = await client.query(
-        `SELECT COUNT(*)::int AS count
-         FROM swipes
-         WHERE from_user_id = $1
-           AND created_at >= NOW() - INTERVAL '24 hours'`,
-        [fromUserId]
-      );
-      const used = Number(swipeWindowRes.rows[0]?.count ?? 0);
-      if (used >= planLimits.maxDailySwipes) {
-        throw new Error(
-          `Daily swipe limit reached (${planLimits.maxDailySwipes}). Upgrade to Vicino Plus for unlimited swipes.`
-        );
-      }
+    const planTier = getPlanTier(fromUser as Record<string, unknown>);
+    const quotaBefore = await readSwipeQuota(client, fromUserId, planTier);
+    if (quotaBefore.remaining === 0) {
+      throw new SwipeLimitError(quotaBefore);
     }
 
+    // The event remembers the decision it replaces so undoLastSwipe can put it back.
+    await client.query(
+      `INSERT INTO swipe_events (id, from_user_id, to_user_id, decision, previous_decision, previous_created_at, created_at)
+       VALUES (
+         $1, $2, $3, $4,
+         (SELECT decision FROM swipes WHERE from_user_id = $2 AND to_user_id = $3),
+         (SELECT created_at FROM swipes WHERE from_user_id = $2 AND to_user_id = $3),
+         NOW()
+       )`,
+      [id("swipe"), fromUserId, toUserId, decision]
+    );
     await client.query(
       `INSERT INTO swipes (from_user_id, to_user_id, decision, created_at)
        VALUES ($1, $2, $3, NOW())
@@ -1299,10 +2865,11 @@ export async function swipe(fromUserId: string, toUserId: string, decision: Swip
        DO UPDATE SET decision = EXCLUDED.decision, created_at = NOW()`,
       [fromUserId, toUserId, decision]
     );
+    const quota = await readSwipeQuota(client, fromUserId, planTier);
 
     if (decision === "left") {
       await client.query("COMMIT");
-      return { matched: false };
+      return { matched: false, quota };
     }
 
     const reciprocal = await client.query(
@@ -1314,11 +2881,11 @@ export async function swipe(fromUserId: string, toUserId: string, decision: Swip
 
     if (reciprocal.rowCount === 0) {
       await client.query("COMMIT");
-      return { matched: false };
+      return { matched: false, quota };
     }
 
     const existing = await client.query(
-      `SELECT id, user_a_id, user_b_id, created_at, coordination_ends_at
+      `SELECT id, user_a_id, user_b_id, created_at, coordination_ends_at, coordination_expired
        FROM matches
        WHERE (user_a_id = $1 AND user_b_id = $2)
           OR (user_a_id = $2 AND user_b_id = $1)
@@ -1336,8 +2903,10 @@ export async function swipe(fromUserId: string, toUserId: string, decision: Swip
           userAId: row.user_a_id,
           userBId: row.user_b_id,
           createdAt: row.created_at,
-          coordinationEndsAt: row.coordination_ends_at
-        }
+          coordinationEndsAt: row.coordination_ends_at,
+          coordinationExpired: row.coordination_expired
+        },
+        quota
       };
     }
 
@@ -1345,12 +2914,16 @@ export async function swipe(fromUserId: string, toUserId: string, decision: Swip
     const inserted = await client.query(
       `INSERT INTO matches (id, user_a_id, user_b_id, created_at)
        VALUES ($1, $2, $3, NOW())
-       RETURNING id, user_a_id, user_b_id, created_at, coordination_ends_at`,
+       RETURNING id, user_a_id, user_b_id, created_at, coordination_ends_at, coordination_expired`,
       [matchId, fromUserId, toUserId]
     );
     await client.query("COMMIT");
 
     const row = inserted.rows[0];
+    const messageLimits = resolveMatchMessageLimits([
+      getPlanTier(fromUser as Record<string, unknown>),
+      getPlanTier(toUser as Record<string, unknown>)
+    ]);
     const result = {
       matched: true,
       match: {
@@ -1359,11 +2932,20 @@ export async function swipe(fromUserId: string, toUserId: string, decision: Swip
         userBId: row.user_b_id,
         createdAt: row.created_at,
         coordinationEndsAt: row.coordination_ends_at,
+        coordinationExpired: row.coordination_expired,
         messagesByUser: { [fromUserId]: 0, [toUserId]: 0 },
         totalMessages: 0,
+        messageLimits,
+        remainingByUser: {
+          [fromUserId]: messageLimits.maxMessagesPerUser,
+          [toUserId]: messageLimits.maxMessagesPerUser
+        },
+        remainingTotal: messageLimits.maxMessagesTotal,
         meetDecisionByUser: {}
-      }
+      },
+      quota
     };
+    publishToUsers([fromUserId, toUserId], { type: "match.created", data: { match: result.match } });
     void (async () => {
       const usersRes = await pool.query(
         `SELECT id, first_name
@@ -1395,18 +2977,226 @@ export async function swipe(fromUserId: string, toUserId: string, decision: Swip
   }
 }
 
-export async function sendMessage(matchId: string, senderUserId: string, body: string) {
-  if (!body.trim()) {
+// Rewinds the caller's latest swipe if it is recent, hasn't been rewound yet
+// and didn't produce a match. The pair goes back to whatever decision it had
+// before, so the profile shows up in discovery again.
+export async function undoLastSwipe(userId: string) {
+  const user = await getUser(userId);
+  const planTier = getPlanTier(user as Record<string, unknown>);
+  const planLimits = getPlanLimits(planTier);
+  if (planLimits.maxDailyRewinds === 0) {
+    throw new Error("Rewind is a Vicino Plus feature. Upgrade to undo your last swipe.");
+  }
+
+  const client = await pool.connect();
+  let targetUserId: string;
+  let rewindsRemaining: number | null = null;
+  try {
+    await client.query("BEGIN");
+    await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [`swipe_undo:${userId}`]);
+    const lastRes = await client.query(
+      `SELECT id, to_user_id, previous_decision, previous_created_at, undone_at,
+              created_at >= NOW() - ($2::int * INTERVAL '1 second') AS within_window
+       FROM swipe_events
+       WHERE from_user_id = $1
+       ORDER BY created_at DESC, id DESC
+       LIMIT 1
+       FOR UPDATE`,
+      [userId, SWIPE_UNDO_WINDOW_SECONDS]
+    );
+    const last = lastRes.rows[0];
+    if (!last || last.undone_at) {
+      throw new Error("There is no swipe to undo.");
+    }
+    if (!last.within_window) {
+      throw new Error("Your last swipe can no longer be undone.");
+    }
+    targetUserId = String(last.to_user_id);
+
+    const pairKey = [userId, targetUserId].sort().join(":");
+    await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [pairKey]);
+    const matchRes = await client.query(
+      `SELECT 1
+       FROM matches
+       WHERE (user_a_id = $1 AND user_b_id = $2)
+          OR (user_a_id = $2 AND user_b_id = $1)
+       LIMIT 1`,
+      [userId, targetUserId]
+    );
+    if (matchRes.rowCount) {
+      throw new Error("You already matched with this person, so the swipe can't be undone.");
+    }
+
+    if (planLimits.maxDailyRewinds !== null) {
+      const usedRes = await client.query(
+        `SELECT COUNT(*)::int AS count
+         FROM swipe_events
+         WHERE from_user_id = $1
+           AND undone_at >= NOW() - INTERVAL '24 hours'`,
+        [userId]
+      );
+      const used = Number(usedRes.rows[0]?.count ?? 0);
+      if (used >= planLimits.maxDailyRewinds) {
+        throw new Error(`Daily rewind limit reached (${planLimits.maxDailyRewinds}).`);
+      }
+      rewindsRemaining = planLimits.maxDailyRewinds - used - 1;
+    }
+
+    if (last.previous_decision) {
+      await client.query(
+        `UPDATE swipes
+         SET decision = $3, created_at = $4
+         WHERE from_user_id = $1 AND to_user_id = $2`,
+        [userId, targetUserId, last.previous_decision, last.previous_created_at]
+      );
+    } else {
+      await client.query(`DELETE FROM swipes WHERE from_user_id = $1 AND to_user_id = $2`, [userId, targetUserId]);
+    }
+    await client.query(`UPDATE swipe_events SET undone_at = NOW() WHERE id = $1`, [last.id]);
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  const { rows } = await pool.query(
+    `SELECT id, first_name, age, gender, bio, profile_photo_url, verified, photos, hobbies,
+            prompt_one, prompt_two, prompt_three
+     FROM users
+     WHERE id = $1`,
+    [targetUserId]
+  );
+  return {
+    profile: rows[0] ? mapPublicProfile(rows[0]) : null,
+    rewindsRemaining,
+    quota: await readSwipeQuota(pool, userId, planTier)
+  };
+}
+
+// Moderation reports have no reporter; the other chat member is kept as the
+// counterpart so close_pair still knows the pair. A sender who keeps tripping
+// the same rule in the same match bumps one open report instead of filling the
+// queue, as long as the last hit was within the dedupe window.
+async function recordModerationReport(
+  db: Queryable,
+  input: {
+    matchId: string;
+    senderUserId: string;
+    recipientUserId: string;
+    messageId: string | null;
+    body: string;
+    moderation: ModerationResult;
+  }
+) {
+  const categories = [...new Set(input.moderation.findings.map((finding) => finding.category))].sort();
+  const ruleKey = `${input.moderation.verdict}:${categories.join(",")}`;
+  await db.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [
+    `moderation_report:${input.matchId}:${input.senderUserId}:${ruleKey}`
+  ]);
+  const bumped = await db.query(
+    `UPDATE user_reports
+     SET hit_count = hit_count + 1,
+         last_seen_at = NOW(),
+         details = $5,
+         message_id = COALESCE($6, message_id),
+         moderation = $7::jsonb
+     WHERE id = (
+       SELECT id FROM user_reports
+       WHERE source = 'moderation'
+         AND status = 'open'
+         AND target_user_id = $1
+         AND match_id = $2
+         AND rule_key = $3
+         AND last_seen_at > NOW() - make_interval(mins => $4)
+       ORDER BY last_seen_at DESC
+       LIMIT 1
+     )
+     RETURNING id`,
+    [
+      input.senderUserId,
+      input.matchId,
+      ruleKey,
+      MODERATION_REPORT_DEDUPE_MINUTES,
+      input.body.slice(0, 1000),
+      input.messageId,
+      JSON.stringify(input.moderation)
+    ]
+  );
+  if (bumped.rows.length > 0) {
+    return;
+  }
+  await db.query(
+    `INSERT INTO user_reports (
+       id, reporter_user_id, counterpart_user_id, target_user_id, match_id, rule_key, reason, details,
+       status, source, message_id, moderation, hit_count, last_seen_at, created_at
+     )
+     VALUES ($1, NULL, $2, $3, $4, $5, $6, $7, 'open', 'moderation', $8, $9::jsonb, 1, NOW(), NOW())`,
+    [
+      id("rpt"),
+      input.recipientUserId,
+      input.senderUserId,
+      input.matchId,
+      ruleKey,
+      `auto_${input.moderation.verdict}: ${categories.join(", ")}`.slice(0, 120),
+      input.body.slice(0, 1000),
+      input.messageId,
+      JSON.stringify(input.moderation)
+    ]
+  );
+}
+
+export async function sendMessage(
+  matchId: string,
+  senderUserId: string,
+  body: string,
+  options?: { acknowledgeWarning?: boolean; attachment?: MessageAttachmentInput }
+) {
+  if (!body.trim() && !options?.attachment) {
     throw new Error("Message body cannot be empty");
   }
 
+  // Classification can be slow (a hosted classifier is a network call), so it
+  // runs before the chat lock is taken.
+  const memberMatch = await getMatchById(matchId);
+  requireMatchMember(memberMatch, senderUserId);
+  const recipientUserId = memberMatch.user_a_id === senderUserId ? memberMatch.user_b_id : memberMatch.user_a_id;
+  const moderation: ModerationResult = body.trim()
+    ? await classifyMessage({ body, matchId, senderUserId, recipientUserId })
+    : { verdict: "allow", findings: [], classifier: "none" };
+  if (moderation.verdict === "block") {
+    const reportClient = await pool.connect();
+    try {
+      await reportClient.query("BEGIN");
+      await recordModerationReport(reportClient as unknown as Queryable, {
+        matchId,
+        senderUserId,
+        recipientUserId,
+        messageId: null,
+        body,
+        moderation
+      });
+      await reportClient.query("COMMIT");
+    } catch (err) {
+      await reportClient.query("ROLLBACK");
+      throw err;
+    } finally {
+      reportClient.release();
+    }
+    throw new MessageModerationError("message_blocked", moderation);
+  }
+  if (moderation.verdict === "warn" && !options?.acknowledgeWarning) {
+    throw new MessageModerationError("message_warning", moderation);
+  }
+
   const client = await pool.connect();
   try {
     await client.query("BEGIN");
     await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [`match_messages:${matchId}`]);
 
     const matchRes = await client.query(
-      `SELECT id, user_a_id, user_b_id, created_at, coordination_ends_at
+      `SELECT id, user_a_id, user_b_id, created_at, coordination_ends_at, coordination_expired
        FROM matches
        WHERE id = $1
        FOR UPDATE`,
@@ -1435,21 +3225,60 @@ export async function sendMessage(matchId: string, senderUserId: string, body: s
       total += Number(row.count);
     }
 
+    const tiersByUserId = await getPlanTiersByUserId(client as unknown as Queryable, [
+      match.user_a_id,
+      match.user_b_id
+    ]);
+    const messageLimits = resolveMatchMessageLimits(Object.values(tiersByUserId));
+
     const senderCount = byUser[senderUserId] ?? 0;
-    if (senderCount >= MAX_MESSAGES_PER_USER) {
+    if (senderCount >= messageLimits.maxMessagesPerUser) {
       throw new Error("Per-person message limit reached");
     }
-    if (total >= MAX_MESSAGES_TOTAL) {
+    if (total >= messageLimits.maxMessagesTotal) {
       throw new Error("Chat message cap reached");
     }
 
+    const attachment = options?.attachment
+      ? await claimMessageAttachment(client as unknown as Queryable, options.attachment.uploadId, senderUserId)
+      : null;
+
     const msgId = id("msg");
     const inserted = await client.query(
-      `INSERT INTO messages (id, match_id, sender_user_id, body, created_at)
-       VALUES ($1, $2, $3, $4, NOW())
-       RETURNING id, match_id, sender_user_id, body, created_at`,
-      [msgId, matchId, senderUserId, body]
+      `INSERT INTO messages (
+         id, match_id, sender_user_id, body, attachment_kind, attachment_url, attachment_mime_type,
+         attachment_size_bytes, attachment_duration_seconds, created_at
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
+       RETURNING id, match_id, sender_user_id, body, ${messageAttachmentSql("messages")} AS attachment, created_at`,
+      [
+        msgId,
+        matchId,
+        senderUserId,
+        body,
+        attachment?.kind ?? null,
+        attachment?.url ?? null,
+        attachment?.mimeType ?? null,
+        attachment?.sizeBytes ?? null,
+        attachment?.durationSeconds ?? null
+      ]
     );
+    if (attachment) {
+      await client.query(`UPDATE uploads SET message_id = $2, attached_at = NOW() WHERE id = $1`, [
+        attachment.id,
+        msgId
+      ]);
+    }
+    if (moderation.verdict === "flag") {
+      await recordModerationReport(client as unknown as Queryable, {
+        matchId,
+        senderUserId,
+        recipientUserId,
+        messageId: msgId,
+        body,
+        moderation
+      });
+    }
 
     await client.query("COMMIT");
 
@@ -1462,21 +3291,29 @@ export async function sendMessage(matchId: string, senderUserId: string, body: s
         matchId: inserted.rows[0].match_id,
         senderUserId: inserted.rows[0].sender_user_id,
         body: inserted.rows[0].body,
-        createdAt: inserted.rows[0].created_at
+        attachment: inserted.rows[0].attachment ?? null,
+        createdAt: inserted.rows[0].created_at,
+        status: "sent" as MessageStatus,
+        reactions: [] as { userId: string; emoji: string }[]
       },
-      remainingForSender: MAX_MESSAGES_PER_USER - newSenderCount,
-      remainingTotal: MAX_MESSAGES_TOTAL - newTotal,
-      needsMeetDecision: newTotal >= MAX_MESSAGES_TOTAL
+      messageLimits,
+      remainingForSender: messageLimits.maxMessagesPerUser - newSenderCount,
+      remainingTotal: messageLimits.maxMessagesTotal - newTotal,
+      needsMeetDecision: newTotal >= messageLimits.maxMessagesTotal,
+      moderation: { verdict: moderation.verdict, findings: moderation.findings }
     };
-    const recipientUserId =
-      match.user_a_id === senderUserId ? match.user_b_id : match.user_a_id;
+    publishToUsers([senderUserId, recipientUserId], {
+      type: "message.created",
+      data: { message: result.message }
+    });
     void (async () => {
       const senderRes = await pool.query(`SELECT first_name FROM users WHERE id = $1`, [senderUserId]);
       const senderName = senderRes.rows[0]?.first_name ? String(senderRes.rows[0].first_name) : "Someone";
       await sendPushToUsers([recipientUserId], {
         title: `New message from ${senderName}`,
-        body: body.trim().slice(0, 120),
-        data: { type: "message", matchId, senderUserId }
+        body: body.trim().slice(0, 120) || (attachment?.kind === "audio" ? "Sent a voice note" : "Sent a photo"),
+        data: { type: "message", matchId, senderUserId },
+        badge: await countUnreadMessages(pool, recipientUserId)
       });
     })().catch(() => null);
     return result;
@@ -1509,7 +3346,8 @@ export async function unmatchPair(matchId: string, actorUserId: string) {
         user_a_id: match.user_a_id,
         user_b_id: match.user_b_id,
         created_at: "",
-        coordination_ends_at: null
+        coordination_ends_at: null,
+        coordination_expired: false
       },
       actorUserId
     );
@@ -1521,8 +3359,10 @@ export async function unmatchPair(matchId: string, actorUserId: string) {
        DO UPDATE SET reason = EXCLUDED.reason, actor_user_id = EXCLUDED.actor_user_id, created_at = NOW()`,
       [lowId, highId, actorUserId]
     );
+    const attachmentNames = await releaseMatchAttachments(client as unknown as Queryable, [matchId]);
     await client.query(`DELETE FROM matches WHERE id = $1`, [matchId]);
     await client.query("COMMIT");
+    purgeAttachments(attachmentNames);
     return { ok: true as const };
   } catch (err) {
     await client.query("ROLLBACK");
@@ -1553,7 +3393,8 @@ export async function blockPair(matchId: string, actorUserId: string) {
         user_a_id: match.user_a_id,
         user_b_id: match.user_b_id,
         created_at: "",
-        coordination_ends_at: null
+        coordination_ends_at: null,
+        coordination_expired: false
       },
       actorUserId
     );
@@ -1573,8 +3414,10 @@ export async function blockPair(matchId: string, actorUserId: string) {
        DO UPDATE SET reason = EXCLUDED.reason, actor_user_id = EXCLUDED.actor_user_id, created_at = NOW()`,
       [lowId, highId, actorUserId]
     );
+    const attachmentNames = await releaseMatchAttachments(client as unknown as Queryable, [matchId]);
     await client.query(`DELETE FROM matches WHERE id = $1`, [matchId]);
     await client.query("COMMIT");
+    purgeAttachments(attachmentNames);
     return { ok: true as const };
   } catch (err) {
     await client.query("ROLLBACK");
@@ -1621,7 +3464,10 @@ export async function setMeetDecision(matchId: string, userId: string, decision:
 }
 
 export async function startAvailability(initiatorUserId: string) {
-  await getUser(initiatorUserId);
+  const initiator = await getUser(initiatorUserId);
+  if (initiator.discoverable === false) {
+    throw new Error("Your profile is paused. Resume it to go out tonight.");
+  }
 
   const eligible = await pool.query(
     `SELECT
@@ -1630,9 +3476,11 @@ export async function startAvailability(initiatorUserId: string) {
      FROM matches m
      LEFT JOIN meet_decisions d1 ON d1.match_id = m.id AND d1.user_id = m.user_a_id
      LEFT JOIN meet_decisions d2 ON d2.match_id = m.id AND d2.user_id = m.user_b_id
+     JOIN users candidate ON candidate.id = CASE WHEN m.user_a_id = $1 THEN m.user_b_id ELSE m.user_a_id END
      WHERE (m.user_a_id = $1 OR m.user_b_id = $1)
        AND d1.decision = 'yes'
-       AND d2.decision = 'yes'`,
+       AND d2.decision = 'yes'
+       AND candidate.discoverable = TRUE`,
     [initiatorUserId]
   );
 
@@ -1665,6 +3513,11 @@ export async function startAvailability(initiatorUserId: string) {
     );
   }
 
+  publishToUsers(
+    eligible.rows.map((r) => String(r.candidate_user_id)),
+    { type: "availability.request", data: { sessionId, initiatorUserId } }
+  );
+
   void (async () => {
     const initiatorRes = await pool.query(`SELECT first_name FROM users WHERE id = $1`, [initiatorUserId]);
     const initiatorName = initiatorRes.rows[0]?.first_name ? String(initiatorRes.rows[0].first_name) : "Someone";
@@ -1707,9 +3560,7 @@ export async function listIncomingAvailabilityForUser(userId: string) {
   return rows;
 }
 
-export async function listInterestedCandidates(sessionId: string) {
-  await getActiveSession(sessionId);
-
+async function fetchSessionCandidates(sessionId: string) {
   const { rows } = await pool.query(
     `SELECT
       sc.match_id AS "matchId",
@@ -1731,6 +3582,14 @@ export async function listInterestedCandidates(sessionId: string) {
   return rows;
 }
 
+export async function listInterestedCandidates(sessionId: string, viewerUserId: string) {
+  const session = await getActiveSession(sessionId);
+  if (session.initiator_user_id !== viewerUserId) {
+    throw new Error("Only session initiator can view candidates");
+  }
+  return fetchSessionCandidates(sessionId);
+}
+
 export async function respondAvailabilityInterest(
   sessionId: string,
   userId: string,
@@ -1754,9 +3613,10 @@ export async function respondAvailabilityInterest(
   return updated.rows[0];
 }
 
-export async function getAvailabilityState(sessionId: string) {
+export async function getAvailabilityState(sessionId: string, viewerUserId: string) {
   const session = await getActiveSession(sessionId);
-  const candidates = await listInterestedCandidates(sessionId);
+  await requireSessionParticipant(session, viewerUserId);
+  const candidates = await fetchSessionCandidates(sessionId);
 
   const offersRes = await pool.query(
     `SELECT id, session_id AS "sessionId", initiator_user_id AS "initiatorUserId",
@@ -1798,16 +3658,43 @@ export async function closeAvailability(sessionId: string, initiatorUserId: stri
   return { ok: true };
 }
 
+export async function listNearbyPlacesForMatch(
+  matchId: string,
+  viewerUserId: string,
+  options?: { radiusMiles?: number; limit?: number }
+) {
+  const match = await getMatchById(matchId);
+  requireMatchMember(match, viewerUserId);
+
+  const { rows } = await pool.query(
+    `SELECT id, latitude, longitude
+     FROM users
+     WHERE id = ANY($1::text[])`,
+    [[match.user_a_id, match.user_b_id]]
+  );
+  const located = rows.filter((row) => row.latitude != null && row.longitude != null);
+  if (located.length < 2) {
+    throw new Error("Both users need a recent location to suggest places");
+  }
+
+  // Either member knows their own position, so an exact midpoint (or exact
+  // distances from it) would give away the other member's. Search around a
+  // point snapped to the same ~1 km grid discovery uses and never return it.
+  const coarsen = (value: number) => Math.round(value * 100) / 100;
+  const latitude = coarsen((Number(located[0].latitude) + Number(located[1].latitude)) / 2);
+  const longitude = coarsen((Number(located[0].longitude) + Number(located[1].longitude)) / 2);
+  const places = await listPlacesNear(latitude, longitude, options);
+  return { places };
+}
+
 export async function createMeetupOffer(
   sessionId: string,
   initiatorUserId: string,
   recipientUserId: string,
-  placeId: string,
-  placeLabel: string
+  placeId: string
 ) {
-  if (!isPublicPlaceId(placeId)) {
-    throw new Error("Location must be a public mapped place");
-  }
+  const place = await getBookablePlace(placeId);
+  const placeLabel = place.name;
   const client = await pool.connect();
   try {
     await client.query("BEGIN");
@@ -1891,6 +3778,7 @@ export async function createMeetupOffer(
       locationExpiresAt: row.location_expires_at,
       status: row.status
     };
+    publishToUsers([initiatorUserId, recipientUserId], { type: "offer.created", data: { offer: result } });
     void (async () => {
       const initiatorRes = await pool.query(`SELECT first_name FROM users WHERE id = $1`, [initiatorUserId]);
       const initiatorName = initiatorRes.rows[0]?.first_name ? String(initiatorRes.rows[0].first_name) : "Someone";
@@ -1909,6 +3797,17 @@ export async function createMeetupOffer(
   }
 }
 
+function publishOfferStatus(
+  offer: Record<string, unknown>,
+  status: string,
+  coordinationEndsAt: Date | null
+) {
+  publishToUsers([String(offer.initiator_user_id), String(offer.recipient_user_id)], {
+    type: "offer.status_changed",
+    data: { offerId: offer.id, sessionId: offer.session_id, status, coordinationEndsAt }
+  });
+}
+
 export async function respondToOffer(offerId: string, recipientUserId: string, accept: boolean) {
   const client = await pool.connect();
   try {
@@ -1947,6 +3846,7 @@ export async function respondToOffer(offerId: string, recipientUserId: string, a
     if (!accept) {
       await client.query(`UPDATE meetup_offers SET status = 'declined' WHERE id = $1`, [offerId]);
       await client.query("COMMIT");
+      publishOfferStatus(offer, "declined", null);
       return {
         offer: {
           id: offer.id,
@@ -1972,12 +3872,18 @@ export async function respondToOffer(offerId: string, recipientUserId: string, a
 
     await client.query(
       `UPDATE matches
-       SET coordination_ends_at = $1
+       SET coordination_ends_at = $1, coordination_expired = FALSE
        WHERE (user_a_id = $2 AND user_b_id = $3)
           OR (user_a_id = $3 AND user_b_id = $2)`,
       [coordinationEndsAt, offer.initiator_user_id, offer.recipient_user_id]
     );
+    await scheduleSafetyCheckins(
+      client,
+      { id: offer.id, initiatorUserId: offer.initiator_user_id, recipientUserId: offer.recipient_user_id },
+      coordinationEndsAt
+    );
     await client.query("COMMIT");
+    publishOfferStatus(offer, "accepted", coordinationEndsAt);
 
     return {
       offer: {
@@ -2002,7 +3908,7 @@ export async function respondToOffer(offerId: string, recipientUserId: string, a
   }
 }
 
-export async function expireLocationIfNeeded(offerId: string) {
+export async function expireLocationIfNeeded(offerId: string, viewerUserId: string) {
   const client = await pool.connect();
   let offer: Record<string, unknown>;
   try {
@@ -2021,6 +3927,9 @@ export async function expireLocationIfNeeded(offerId: string) {
     }
 
     offer = rows[0];
+    if (offer.initiator_user_id !== viewerUserId && offer.recipient_user_id !== viewerUserId) {
+      throw new Error("User is not part of this offer");
+    }
 
     if (offer.status === "accepted" && now() > new Date(String(offer.location_expires_at))) {
       await client.query(
@@ -2028,8 +3937,11 @@ export async function expireLocationIfNeeded(offerId: string) {
         [offerId]
       );
       offer.status = "location_expired";
+      await client.query("COMMIT");
+      publishOfferStatus(offer, "location_expired", null);
+    } else {
+      await client.query("COMMIT");
     }
-    await client.query("COMMIT");
   } catch (err) {
     await client.query("ROLLBACK");
     throw err;
@@ -0,0 +1,232 @@
+import { createHash } from "node:crypto";
+import type { PoolClient } from "pg";
+import { pool } from "./db.js";
+import { sendPushToUsers } from "./push.js";
+
+const LOGIN_LOCKOUT_THRESHOLD = Math.max(3, Number(process.env.LOGIN_LOCKOUT_THRESHOLD ?? 10));
+const LOGIN_LOCKOUT_MINUTES = Math.max(1, Number(process.env.LOGIN_LOCKOUT_MINUTES ?? 15));
+const LOGIN_FAILURE_WINDOW_MINUTES = Math.max(5, Number(process.env.LOGIN_FAILURE_WINDOW_MINUTES ?? 60));
+const LOGIN_DELAY_FREE_ATTEMPTS = 3;
+const LOGIN_DELAY_BASE_SECONDS = 2;
+const LOGIN_DELAY_MAX_SECONDS = 60;
+
+export type LoginOutcome = "success" | "bad_password" | "unknown_user" | "throttled" | "locked" | "banned";
+
+export type LoginContext = {
+  ip?: string | null;
+  userAgent?: string | null;
+  deviceId?: string | null;
+};
+
+const id = (prefix: string) => `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
+
+function minutesUntil(date: Date) {
+  return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 60000));
+}
+
+// After a few free attempts each further failure doubles the wait before the
+// next one, up to a minute. The count decays once the failure window passes.
+function requiredDelaySeconds(failedCount: number) {
+  if (failedCount < LOGIN_DELAY_FREE_ATTEMPTS) {
+    return 0;
+  }
+  const step = failedCount - LOGIN_DELAY_FREE_ATTEMPTS;
+  return Math.min(LOGIN_DELAY_MAX_SECONDS, LOGIN_DELAY_BASE_SECONDS * 2 ** step);
+}
+
+export async function recordLoginEvent(input: {
+  userId: string | null;
+  username: string;
+  outcome: LoginOutcome;
+  context: LoginContext;
+  newDevice?: boolean;
+}) {
+  await pool.query(
+    `INSERT INTO login_events (id, user_id, username, ip, user_agent, device_id, outcome, new_device, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())`,
+    [
+      id("login"),
+      input.userId,
+      input.username,
+      input.context.ip ?? null,
+      input.context.userAgent?.slice(0, 300) ?? null,
+      input.context.deviceId?.slice(0, 120) ?? null,
+      input.outcome,
+      Boolean(input.newDevice)
+    ]
+  );
+}
+
+export async function recordSecurityEvent(
+  client: PoolClient,
+  input: {
+    userId: string;
+    kind: string;
+    sessionId?: string | null;
+    context?: LoginContext;
+    metadata?: Record<string, unknown>;
+  }
+) {
+  await client.query(
+    `INSERT INTO security_events (id, user_id, kind, session_id, ip, user_agent, metadata, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, NOW())`,
+    [
+      id("sec"),
+      input.userId,
+      input.kind,
+      input.sessionId ?? null,
+      input.context?.ip ?? null,
+      input.context?.userAgent?.slice(0, 300) ?? null,
+      JSON.stringify(input.metadata ?? {})
+    ]
+  );
+}
+
+// Returns the reason a login attempt must be refused before the password is
+// even checked, or null when the attempt may proceed.
+export function loginBlockReason(user: Record<string, unknown>) {
+  const lockedUntil = user.login_locked_until ? new Date(String(user.login_locked_until)) : null;
+  if (lockedUntil && lockedUntil.getTime() > Date.now()) {
+    return {
+      outcome: "locked" as const,
+      message: `Too many failed attempts. Try again in ${minutesUntil(lockedUntil)} minute(s).`
+    };
+  }
+
+  const lastFailedAt = user.last_failed_login_at ? new Date(String(user.last_failed_login_at)) : null;
+  if (!lastFailedAt || Date.now() - lastFailedAt.getTime() > LOGIN_FAILURE_WINDOW_MINUTES * 60000) {
+    return null;
+  }
+  const delaySeconds = requiredDelaySeconds(Number(user.failed_login_count ?? 0));
+  const waitMs = lastFailedAt.getTime() + delaySeconds * 1000 - Date.now();
+  if (waitMs > 0) {
+    return {
+      outcome: "throttled" as const,
+      message: `Please wait ${Math.ceil(waitMs / 1000)} second(s) before trying again.`
+    };
+  }
+  return null;
+}
+
+export async function registerFailedLogin(userId: string) {
+  const { rows } = await pool.query(
+    `UPDATE users
+     SET failed_login_count = CASE
+           WHEN last_failed_login_at IS NULL
+             OR last_failed_login_at < NOW() - ($2::int || ' minutes')::interval
+           THEN 1
+           ELSE failed_login_count + 1
+         END,
+         last_failed_login_at = NOW()
+     WHERE id = $1
+     RETURNING failed_login_count`,
+    [userId, LOGIN_FAILURE_WINDOW_MINUTES]
+  );
+  const failedCount = Number(rows[0]?.failed_login_count ?? 0);
+  if (failedCount < LOGIN_LOCKOUT_THRESHOLD) {
+    return { locked: false as const, failedCount };
+  }
+
+  await pool.query(
+    `UPDATE users
+     SET login_locked_until = NOW() + ($2::int || ' minutes')::interval,
+         failed_login_count = 0,
+         last_failed_login_at = NULL
+     WHERE id = $1`,
+    [userId, LOGIN_LOCKOUT_MINUTES]
+  );
+  return { locked: true as const, failedCount };
+}
+
+export async function clearFailedLogins(userId: string) {
+  await pool.query(
+    `UPDATE users
+     SET failed_login_count = 0,
+         last_failed_login_at = NULL,
+         login_locked_until = NULL
+     WHERE id = $1
+       AND (failed_login_count > 0 OR login_locked_until IS NOT NULL)`,
+    [userId]
+  );
+}
+
+function deviceKey(context: LoginContext) {
+  const source = context.deviceId?.trim() || `ua:${context.userAgent ?? "unknown"}`;
+  return createHash("sha256").update(source).digest("hex").slice(0, 32);
+}
+
+export function deviceLabel(userAgent?: string | null) {
+  const ua = userAgent ?? "";
+  if (/iphone|ipad|ios/i.test(ua)) {
+    return "iOS device";
+  }
+  if (/android/i.test(ua)) {
+    return "Android device";
+  }
+  if (/okhttp|expo|react-native/i.test(ua)) {
+    return "Mobile app";
+  }
+  return ua ? "Web browser" : "Unknown device";
+}
+
+export function devicePlatform(userAgent?: string | null) {
+  const ua = userAgent ?? "";
+  if (/iphone|ipad|ios|cfnetwork|darwin/i.test(ua)) {
+    return "ios";
+  }
+  if (/android|okhttp/i.test(ua)) {
+    return "android";
+  }
+  return ua ? "web" : "unknown";
+}
+
+// Records the device used for a successful login. The first device an account
+// ever signs in from is trusted silently; later unseen devices trigger an alert.
+export async function noteLoginDevice(userId: string, context: LoginContext) {
+  const key = deviceKey(context);
+  const label = deviceLabel(context.userAgent);
+  const { rows } = await pool.query(
+    `WITH prior AS (
+       SELECT COUNT(*)::int AS known FROM user_login_devices WHERE user_id = $1
+     ),
+     upserted AS (
+       INSERT INTO user_login_devices (user_id, device_key, label, first_seen_at, last_seen_at, last_ip)
+       VALUES ($1, $2, $3, NOW(), NOW(), $4)
+       ON CONFLICT (user_id, device_key)
+       DO UPDATE SET last_seen_at = NOW(), last_ip = EXCLUDED.last_ip
+       RETURNING (xmax = 0) AS inserted
+     )
+     SELECT upserted.inserted, prior.known FROM upserted, prior`,
+    [userId, key, label, context.ip ?? null]
+  );
+  const isNewDevice = Boolean(rows[0]?.inserted) && Number(rows[0]?.known ?? 0) > 0;
+  if (isNewDevice) {
+    void sendPushToUsers([userId], {
+      title: "New sign-in to your account",
+      body: `Someone signed in from a new ${label.toLowerCase()}. If this wasn't you, change your password.`,
+      data: { type: "new_device_login" }
+    }).catch(() => null);
+  }
+  return { isNewDevice };
+}
+
+export async function listLoginEvents(
+  userId: string,
+  options?: { outcome?: "failed" | "all"; limit?: number; offset?: number }
+) {
+  const limit = Math.max(1, Math.min(Number(options?.limit ?? 50), 200));
+  const offset = Math.max(0, Number(options?.offset ?? 0));
+  const failedOnly = options?.outcome === "failed";
+  const { rows } = await pool.query(
+    `SELECT id, username, ip, user_agent AS "userAgent", device_id AS "deviceId", outcome,
+            new_device AS "newDevice", created_at AS "createdAt"
+     FROM login_events
+     WHERE user_id = $1
+       AND ($2::boolean = FALSE OR outcome <> 'success')
+     ORDER BY created_at DESC
+     LIMIT $3
+     OFFSET $4`,
+    [userId, failedOnly, limit, offset]
+  );
+  return rows;
+}
@@ -0,0 +1,249 @@
+import { randomBytes } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import net from "node:net";
+import path from "node:path";
+import tls from "node:tls";
+
+const MAIL_FROM = process.env.MAIL_FROM?.trim() || "Vicino <no-reply@vicino.app>";
+const MAIL_FILE_DIR = process.env.MAIL_FILE_DIR?.trim() || "mail-outbox";
+const SMTP_HOST = process.env.SMTP_HOST?.trim() || "";
+const SMTP_PORT = Math.max(1, Number(process.env.SMTP_PORT ?? 587));
+const SMTP_SECURE = (process.env.SMTP_SECURE ?? "false").toLowerCase() === "true";
+const SMTP_USER = process.env.SMTP_USER?.trim() || "";
+const SMTP_PASSWORD = process.env.SMTP_PASSWORD ?? "";
+const SMTP_ALLOW_INSECURE = (process.env.SMTP_ALLOW_INSECURE ?? "false").toLowerCase() === "true";
+const IS_PRODUCTION = process.env.NODE_ENV === "production";
+const SMTP_TIMEOUT_MS = Math.max(1000, Number(process.env.SMTP_TIMEOUT_MS ?? 15000));
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+// Outgoing mail goes through a swappable transport: SMTP in production, and a
+// file or console driver locally so flows can be exercised without a server.
+export type MailTransport = {
+  name: string;
+  send: (message: MailMessage) => Promise<void>;
+};
+
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+function addressOf(value: string) {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+function formatMessage(message: MailMessage) {
+  const domain = addressOf(MAIL_FROM).split("@")[1] ?? "localhost";
+  const body = Buffer.from(message.text.replace(/\r?\n/g, "\r\n"))
+    .toString("base64")
+    .replace(/.{76}/g, "$&\r\n");
+  return [
+    `From: ${MAIL_FROM}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(12).toString("hex")}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body
+  ].join("\r\n");
+}
+
+// Logs that a message went out, never its body: reset and verification links
+// are live credentials. Use the file driver to read them locally.
+const consoleTransport: MailTransport = {
+  name: "console",
+  async send(message) {
+    console.log(
+      JSON.stringify({
+        level: "info",
+        event: "mail_sent",
+        to: message.to,
+        subject: message.subject
+      })
+    );
+  }
+};
+
+function createFileTransport(directory: string): MailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const filename = `${Date.now()}-${randomBytes(4).toString("hex")}.eml`;
+      await writeFile(path.join(directory, filename), formatMessage(message), "utf8");
+    }
+  };
+}
+
+type SmtpReply = { code: number; text: string };
+
+// Minimal SMTP client: EHLO, optional STARTTLS, AUTH PLAIN and a single message
+// per connection. Password reset volume doesn't justify pooling.
+function openSmtpConversation(initial: net.Socket) {
+  let socket = initial;
+  let buffer = "";
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  const pending: SmtpReply[] = [];
+  let waiter: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void } | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let index = buffer.indexOf("\r\n");
+    while (index >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line.slice(4));
+      if (line[3] !== "-") {
+        const reply = { code: Number(line.slice(0, 3)), text: lines.join(" ") };
+        lines = [];
+        if (waiter) {
+          waiter.resolve(reply);
+          waiter = null;
+        } else {
+          pending.push(reply);
+        }
+      }
+      index = buffer.indexOf("\r\n");
+    }
+  };
+  const onError = (err: Error) => {
+    failure = err;
+    waiter?.reject(err);
+    waiter = null;
+  };
+  const onClose = () => onError(new Error("SMTP connection closed."));
+
+  const attach = (next: net.Socket) => {
+    socket.off("data", onData).off("error", onError).off("close", onClose);
+    socket = next;
+    socket.on("data", onData).on("error", onError).on("close", onClose);
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP timed out.")));
+  };
+  socket.on("data", onData).on("error", onError).on("close", onClose);
+  socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP timed out.")));
+
+  const read = () =>
+    new Promise<SmtpReply>((resolve, reject) => {
+      const next = pending.shift();
+      if (next) {
+        resolve(next);
+      } else if (failure) {
+        reject(failure);
+      } else {
+        waiter = { resolve, reject };
+      }
+    });
+
+  const expect = async (expected: number, step: string) => {
+    const reply = await read();
+    if (reply.code !== expected) {
+      throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  };
+
+  return {
+    expect,
+    async command(line: string, expected: number, step = line.split(" ")[0]) {
+      socket.write(`${line}\r\n`);
+      return expect(expected, step);
+    },
+    upgrade(next: net.Socket) {
+      attach(next);
+    },
+    get socket() {
+      return socket;
+    },
+    close() {
+      socket.end();
+    }
+  };
+}
+
+function connectSmtp() {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const socket = SMTP_SECURE
+      ? tls.connect({ host: SMTP_HOST, port: SMTP_PORT, servername: SMTP_HOST }, () => resolve(socket))
+      : net.connect({ host: SMTP_HOST, port: SMTP_PORT }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+function startTls(socket: net.Socket) {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: SMTP_HOST }, () => resolve(secure));
+    secure.once("error", reject);
+  });
+}
+
+function createSmtpTransport(): MailTransport {
+  if (!SMTP_HOST) {
+    throw new Error("SMTP_HOST must be set when MAIL_TRANSPORT=smtp.");
+  }
+  return {
+    name: "smtp",
+    async send(message) {
+      const smtp = openSmtpConversation(await connectSmtp());
+      try {
+        await smtp.expect(220, "greeting");
+        const hello = await smtp.command("EHLO vicino", 250);
+        if (!SMTP_SECURE && /\bSTARTTLS\b/i.test(hello.text)) {
+          await smtp.command("STARTTLS", 220);
+          smtp.upgrade(await startTls(smtp.socket));
+          await smtp.command("EHLO vicino", 250);
+        } else if (!SMTP_SECURE && SMTP_USER && !SMTP_ALLOW_INSECURE) {
+          throw new Error("SMTP server does not offer STARTTLS; refusing to send credentials in cleartext.");
+        }
+        if (SMTP_USER) {
+          const credentials = Buffer.from(`\0${SMTP_USER}\0${SMTP_PASSWORD}`).toString("base64");
+          await smtp.command(`AUTH PLAIN ${credentials}`, 235, "AUTH");
+        }
+        await smtp.command(`MAIL FROM:<${addressOf(MAIL_FROM)}>`, 250);
+        await smtp.command(`RCPT TO:<${addressOf(message.to)}>`, 250);
+        await smtp.command("DATA", 354);
+        const data = formatMessage(message).replace(/^\./gm, "..");
+        await smtp.command(`${data}\r\n.`, 250, "message");
+        await smtp.command("QUIT", 221).catch(() => null);
+      } finally {
+        smtp.close();
+      }
+    }
+  };
+}
+
+function createConfiguredTransport(): MailTransport {
+  const driver = (process.env.MAIL_TRANSPORT ?? (IS_PRODUCTION ? "smtp" : "console")).toLowerCase();
+  if (driver === "smtp") {
+    return createSmtpTransport();
+  }
+  if (driver === "file") {
+    return createFileTransport(MAIL_FILE_DIR);
+  }
+  if (IS_PRODUCTION) {
+    throw new Error(`MAIL_TRANSPORT=${driver} is not allowed when NODE_ENV=production; use smtp.`);
+  }
+  return consoleTransport;
+}
+
+let activeTransport: MailTransport = createConfiguredTransport();
+
+export function setMailTransport(transport: MailTransport) {
+  activeTransport = transport;
+}
+
+export function getMailTransport() {
+  return activeTransport;
+}
+
+export async function sendMail(message: MailMessage) {
+  await activeTransport.send(message);
+}
@@ -0,0 +1,241 @@
+export type ModerationVerdict = "allow" | "warn" | "flag" | "block";
+
+export type ModerationCategory =
+  | "contact_info"
+  | "off_platform"
+  | "private_location"
+  | "solicitation"
+  | "harassment"
+  | "threat"
+  | "blocked_term";
+
+export type ModerationFinding = {
+  category: ModerationCategory;
+  verdict: Exclude<ModerationVerdict, "allow">;
+  detail: string;
+};
+
+export type ModerationResult = {
+  verdict: ModerationVerdict;
+  findings: ModerationFinding[];
+  classifier: string;
+};
+
+export type MessageModerationInput = {
+  body: string;
+  matchId: string;
+  senderUserId: string;
+  recipientUserId: string;
+};
+
+// Every outgoing chat message is classified before it is stored. The default
+// classifier is a local rule set; anything with the same shape (for example a
+// hosted model behind an HTTP call) can replace it with setMessageClassifier.
+export type MessageClassifier = {
+  name: string;
+  classify: (input: MessageModerationInput) => Promise<Omit<ModerationResult, "classifier">>;
+};
+
+type Rule = {
+  category: ModerationCategory;
+  verdict: ModerationFinding["verdict"];
+  detail: string;
+  pattern: RegExp;
+  // Rules on the raw text see digits and punctuation; the rest run on the
+  // normalized text so "k1ll y0urself" still matches.
+  raw?: boolean;
+};
+
+const VERDICT_RANK: Record<ModerationVerdict, number> = { allow: 0, warn: 1, flag: 2, block: 3 };
+
+const LEET_MAP: Record<string, string> = { "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "7": "t", $: "s" };
+
+function parseTermsEnv(name: string) {
+  return (process.env[name] ?? "")
+    .split(",")
+    .map((term) => normalizeText(term))
+    .filter(Boolean);
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function termsPattern(terms: string[]) {
+  return new RegExp(`\\b(?:${terms.map(escapeRegExp).join("|")})\\b`);
+}
+
+// Joins alternatives into one word-bounded pattern, so long rules can be
+// written one phrase shape per line.
+function anyOf(...parts: RegExp[]) {
+  return new RegExp(`\\b(?:${parts.map((part) => part.source).join("|")})\\b`);
+}
+
+const CHAT_APPS = "whats ?app|telegram|snap ?chat|snap|signal|kik|wechat|instagram|insta|ig|line|viber";
+
+function normalizeText(value: string) {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[013457$]/g, (char) => LEET_MAP[char] ?? char)
+    .replace(/[^a-z@\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function countDigits(value: string) {
+  return value.replace(/\D/g, "").length;
+}
+
+const RULES: Rule[] = [
+  {
+    category: "threat",
+    verdict: "block",
+    detail: "Threat of violence or self-harm encouragement",
+    pattern:
+      /\b(?:kill (?:your ?self|urself)|kys|(?:i ?ll|i will|im going to|i m going to|gonna) (?:kill|hurt|stab|shoot|rape) (?:you|u)|i know where (?:you|u) live)\b/
+  },
+  {
+    category: "threat",
+    verdict: "block",
+    detail: "Extortion or blackmail",
+    pattern: /\b(?:or i ?ll (?:leak|post|send) (?:your|ur)|pay (?:me )?or i|i ?ll (?:leak|expose) (?:your|ur))\b/
+  },
+  {
+    category: "harassment",
+    verdict: "flag",
+    detail: "Insult or degrading language",
+    pattern:
+      /\b(?:(?:you|u) (?:are|re|r) (?:so )?(?:worthless|pathetic|disgusting|ugly|stupid|trash)|shut up (?:bitch|whore|slut)|(?:stupid|dumb|ugly) (?:bitch|whore|slut)|nobody (?:will ever )?(?:wants|loves) (?:you|u))\b/
+  },
+  {
+    category: "harassment",
+    verdict: "flag",
+    detail: "Unsolicited sexual request",
+    pattern: /\b(?:send (?:me )?(?:nudes|noodz|pics of your body)|show me your (?:body|boobs|tits|dick))\b/
+  },
+  {
+    category: "solicitation",
+    verdict: "flag",
+    detail: "Payment or commercial solicitation",
+    // A payment app or coin on its own ("I work in crypto", "I'll venmo you
+    // for dinner") is normal chat; asking to be paid or pitching is not.
+    pattern: anyOf(
+      /(?:send|pay|wire|transfer|lend|loan) (?:me|us) (?:some |the )?(?:money|cash|funds|bitcoin|btc|crypto|usdt|gift ?cards?)/,
+      /(?:venmo|cash ?app|zelle|paypal) me/,
+      /(?:buy|get) me (?:a |some )?gift ?cards?/,
+      /invest(?:ing)? (?:in|with) (?:crypto|bitcoin|btc|forex) (?:with|through) me/,
+      /(?:crypto|bitcoin|forex) (?:investment|trading) (?:platform|opportunity|app)/,
+      /investment opportunity|guaranteed (?:returns|profits?)/,
+      /(?:my|subscribe to|check out) (?:my )?onlyfans|sugar (?:daddy|baby)/
+    )
+  },
+  {
+    category: "solicitation",
+    verdict: "flag",
+    detail: "External link",
+    pattern: /\b(?:https?:\/\/|www\.)\S+/i,
+    raw: true
+  },
+  {
+    category: "contact_info",
+    verdict: "warn",
+    detail: "Email address",
+    pattern: /[\w.+-]+@[\w-]+\.[\w.-]+/,
+    raw: true
+  },
+  {
+    category: "off_platform",
+    verdict: "warn",
+    detail: "Moving the chat to another app",
+    // Needs an app name next to a contact request, so "text me when you get
+    // home" or "my instagram is all dogs" stay allowed.
+    pattern: anyOf(
+      new RegExp(`(?:add|follow|find|message|msg|hit|text|call|dm|reach|talk to|chat with) me (?:on|at|via|over) (?:${CHAT_APPS})`),
+      new RegExp(`(?:move|switch|take|continue) (?:this|this chat|the chat|it|us) (?:to|over to|onto|on) (?:${CHAT_APPS})`),
+      new RegExp(`(?:what s|whats|what is|send me|give me|drop) (?:your|ur) (?:number|digits|${CHAT_APPS})`),
+      new RegExp(`(?:my|our) (?:${CHAT_APPS}) (?:handle|username|user name|id|number|is @)`)
+    )
+  },
+  {
+    category: "off_platform",
+    verdict: "warn",
+    detail: "Social media handle",
+    pattern: /(?:^|\s)@[a-z_][a-z_.]{2,}/
+  },
+  {
+    category: "private_location",
+    verdict: "warn",
+    detail: "Private residence as a meeting spot",
+    pattern: /\b(?:come (?:over )?to my (?:place|house|apartment|apt|flat)|meet (?:me )?at my (?:place|house|apartment|apt|flat)|your place or mine)\b/
+  }
+];
+
+function extraTermRules(): Rule[] {
+  const rules: Rule[] = [];
+  const blocked = parseTermsEnv("MODERATION_BLOCKED_TERMS");
+  if (blocked.length > 0) {
+    rules.push({ category: "blocked_term", verdict: "block", detail: "Blocked term", pattern: termsPattern(blocked) });
+  }
+  const flagged = parseTermsEnv("MODERATION_FLAGGED_TERMS");
+  if (flagged.length > 0) {
+    rules.push({ category: "blocked_term", verdict: "flag", detail: "Flagged term", pattern: termsPattern(flagged) });
+  }
+  return rules;
+}
+
+// Keyword and pattern rules from the community guidelines. Phone numbers are
+// matched on digit count so "five five five" style evasion is out of scope,
+// but separators, spaces and brackets are not.
+function createRulesClassifier(): MessageClassifier {
+  const rules = [...RULES, ...extraTermRules()];
+  return {
+    name: "rules",
+    async classify({ body }) {
+      const normalized = normalizeText(body);
+      const findings: ModerationFinding[] = [];
+      for (const rule of rules) {
+        if (rule.pattern.test(rule.raw ? body : normalized)) {
+          findings.push({ category: rule.category, verdict: rule.verdict, detail: rule.detail });
+        }
+      }
+      const phoneCandidates = body.match(/\+?\d[\d\s().-]{6,}\d/g) ?? [];
+      if (phoneCandidates.some((candidate) => countDigits(candidate) >= 9 && countDigits(candidate) <= 15)) {
+        findings.push({ category: "contact_info", verdict: "warn", detail: "Phone number" });
+      }
+      const verdict = findings.reduce<ModerationVerdict>(
+        (worst, finding) => (VERDICT_RANK[finding.verdict] > VERDICT_RANK[worst] ? finding.verdict : worst),
+        "allow"
+      );
+      return { verdict, findings };
+    }
+  };
+}
+
+const allowAllClassifier: MessageClassifier = {
+  name: "off",
+  async classify() {
+    return { verdict: "allow", findings: [] };
+  }
+};
+
+function createConfiguredClassifier(): MessageClassifier {
+  const driver = (process.env.MESSAGE_MODERATION ?? "rules").toLowerCase();
+  return driver === "off" ? allowAllClassifier : createRulesClassifier();
+}
+
+let activeClassifier: MessageClassifier = createConfiguredClassifier();
+
+export function setMessageClassifier(classifier: MessageClassifier) {
+  activeClassifier = classifier;
+}
+
+export function getMessageClassifier() {
+  return activeClassifier;
+}
+
+export async function classifyMessage(input: MessageModerationInput): Promise<ModerationResult> {
+  const result = await activeClassifier.classify(input);
+  return { ...result, classifier: activeClassifier.name };
+}
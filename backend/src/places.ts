@@ -0,0 +1,351 @@
+import { pool } from "./db.js";
+
+const DEFAULT_PLACE_TIMEZONE = process.env.PLACES_DEFAULT_TIMEZONE?.trim() || "America/Los_Angeles";
+const NEARBY_CANDIDATE_LIMIT = 200;
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+export type PlaceSafetyTier = "preferred" | "standard" | "limited";
+type Weekday = (typeof WEEKDAYS)[number];
+
+// Opening hours map a weekday to "HH:MM-HH:MM" ranges in the place's local time.
+// A range that ends before it starts runs past midnight. A missing day means the
+// place is closed that day; null hours mean the place is always open.
+export type OpeningHours = Partial<Record<Weekday, string[]>>;
+
+export type PlaceRecord = {
+  id: string;
+  name: string;
+  category: string;
+  latitude: number;
+  longitude: number;
+  address: string | null;
+  timezone: string;
+  openingHours: OpeningHours | null;
+  safetyTier: PlaceSafetyTier;
+  isPublic: boolean;
+};
+
+const SAFETY_TIER_DISTANCE_WEIGHT: Record<PlaceSafetyTier, number> = {
+  preferred: 0.75,
+  standard: 1,
+  limited: 1.5
+};
+
+function mapPlace(row: Record<string, unknown>): PlaceRecord {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    category: String(row.category),
+    latitude: Number(row.latitude),
+    longitude: Number(row.longitude),
+    address: row.address ? String(row.address) : null,
+    timezone: String(row.timezone),
+    openingHours: (row.opening_hours as OpeningHours | null) ?? null,
+    safetyTier: String(row.safety_tier) as PlaceSafetyTier,
+    isPublic: Boolean(row.is_public)
+  };
+}
+
+function toMinutes(value: string) {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+function parseRange(range: string) {
+  const [start, end] = range.split("-");
+  const startMin = start ? toMinutes(start) : null;
+  const endMin = end ? toMinutes(end) : null;
+  if (startMin === null || endMin === null) {
+    return null;
+  }
+  return { startMin, endMin };
+}
+
+function localClock(at: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23"
+  }).formatToParts(at);
+  const weekday = parts.find((p) => p.type === "weekday")?.value.toLowerCase().slice(0, 3) as Weekday;
+  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? 0);
+  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? 0);
+  return { dayIndex: WEEKDAYS.indexOf(weekday), minutes: hour * 60 + minute };
+}
+
+export function isPlaceOpen(place: Pick<PlaceRecord, "openingHours" | "timezone">, at = new Date()) {
+  if (!place.openingHours) {
+    return true;
+  }
+  const { dayIndex, minutes } = localClock(at, place.timezone);
+  const today = WEEKDAYS[dayIndex];
+  const yesterday = WEEKDAYS[(dayIndex + 6) % 7];
+
+  for (const raw of place.openingHours[today] ?? []) {
+    const range = parseRange(raw);
+    if (!range) {
+      continue;
+    }
+    if (range.endMin > range.startMin) {
+      if (minutes >= range.startMin && minutes < range.endMin) {
+        return true;
+      }
+    } else if (minutes >= range.startMin) {
+      return true;
+    }
+  }
+
+  for (const raw of place.openingHours[yesterday] ?? []) {
+    const range = parseRange(raw);
+    if (range && range.endMin <= range.startMin && minutes < range.endMin) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+export async function listPlacesNear(
+  latitude: number,
+  longitude: number,
+  options?: { radiusMiles?: number; limit?: number; at?: Date }
+) {
+  const radiusMiles = Math.max(0.5, Math.min(Number(options?.radiusMiles) || 5, 50));
+  const limit = Math.max(1, Math.min(Number(options?.limit) || 10, 50));
+  const at = options?.at ?? new Date();
+
+  const { rows } = await pool.query(
+    `SELECT *
+     FROM (
+       SELECT
+         id, name, category, latitude, longitude, address, timezone, opening_hours, safety_tier, is_public,
+         3959 * ACOS(
+           LEAST(1, GREATEST(-1,
+             COS(RADIANS($1)) * COS(RADIANS(latitude)) *
+             COS(RADIANS(longitude) - RADIANS($2)) +
+             SIN(RADIANS($1)) * SIN(RADIANS(latitude))
+           ))
+         ) AS distance_miles
+       FROM places
+       WHERE active = TRUE AND is_public = TRUE
+     ) ranked
+     WHERE distance_miles <= $3
+     ORDER BY distance_miles ASC
+     LIMIT $4`,
+    [latitude, longitude, radiusMiles, NEARBY_CANDIDATE_LIMIT]
+  );
+
+  return rows
+    .map((row) => ({ place: mapPlace(row), distanceMiles: Number(row.distance_miles) }))
+    .filter(({ place }) => isPlaceOpen(place, at))
+    .sort(
+      (a, b) =>
+        a.distanceMiles * SAFETY_TIER_DISTANCE_WEIGHT[a.place.safetyTier] -
+        b.distanceMiles * SAFETY_TIER_DISTANCE_WEIGHT[b.place.safetyTier]
+    )
+    .slice(0, limit)
+    .map(({ place, distanceMiles }) => ({
+      id: place.id,
+      name: place.name,
+      category: place.category,
+      latitude: place.latitude,
+      longitude: place.longitude,
+      address: place.address,
+      safetyTier: place.safetyTier,
+      distanceMiles: Math.round(distanceMiles * 100) / 100
+    }));
+}
+
+export async function getBookablePlace(placeId: string, at = new Date()) {
+  const { rows } = await pool.query(
+    `SELECT id, name, category, latitude, longitude, address, timezone, opening_hours, safety_tier, is_public
+     FROM places
+     WHERE id = $1 AND active = TRUE`,
+    [placeId]
+  );
+  const row = rows[0];
+  if (!row || !row.is_public) {
+    throw new Error("Location must be a public mapped place");
+  }
+  const place = mapPlace(row);
+  if (!isPlaceOpen(place, at)) {
+    throw new Error("That place is closed right now");
+  }
+  return place;
+}
+
+function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+// Intl rejects unknown zones with a RangeError, which would otherwise surface
+// later from every isPlaceOpen call on the imported place.
+function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function normalizePlace(input: Record<string, unknown>): PlaceRecord {
+  const name = String(input.name ?? "").trim();
+  const latitude = Number(input.latitude);
+  const longitude = Number(input.longitude);
+  if (!name || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    throw new Error(`Place is missing a name or coordinates: ${JSON.stringify(input)}`);
+  }
+  const rawTier = String(input.safetyTier ?? input.safety_tier ?? "standard").toLowerCase();
+  const safetyTier: PlaceSafetyTier =
+    rawTier === "preferred" || rawTier === "limited" ? rawTier : "standard";
+  const rawHours = input.openingHours ?? input.opening_hours ?? null;
+  const openingHours =
+    typeof rawHours === "string" && rawHours.trim()
+      ? (JSON.parse(rawHours) as OpeningHours)
+      : rawHours && typeof rawHours === "object"
+        ? (rawHours as OpeningHours)
+        : null;
+  const rawPublic = input.isPublic ?? input.is_public ?? true;
+  const category = String(input.category ?? "venue").trim().toLowerCase() || "venue";
+  const timezone = String(input.timezone ?? "").trim() || DEFAULT_PLACE_TIMEZONE;
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Place has an unknown timezone "${timezone}": ${JSON.stringify(input)}`);
+  }
+
+  return {
+    id: String(input.id ?? "").trim() || `poi_${slugify(`${name} ${category}`)}`,
+    name,
+    category,
+    latitude,
+    longitude,
+    address: input.address ? String(input.address).trim() : null,
+    timezone,
+    openingHours,
+    safetyTier,
+    isPublic: typeof rawPublic === "string" ? rawPublic.toLowerCase() !== "false" : Boolean(rawPublic)
+  };
+}
+
+export function parsePlacesGeoJson(text: string) {
+  const data = JSON.parse(text) as {
+    type?: string;
+    features?: Array<{
+      geometry?: { type?: string; coordinates?: [number, number] };
+      properties?: Record<string, unknown>;
+    }>;
+  };
+  if (data.type !== "FeatureCollection" || !Array.isArray(data.features)) {
+    throw new Error("GeoJSON input must be a FeatureCollection");
+  }
+  return data.features
+    .filter((feature) => feature.geometry?.type === "Point" && Array.isArray(feature.geometry.coordinates))
+    .map((feature) => {
+      const [longitude, latitude] = feature.geometry!.coordinates!;
+      return normalizePlace({ ...(feature.properties ?? {}), latitude, longitude });
+    });
+}
+
+function splitCsvLine(line: string) {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i += 1) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+export function parsePlacesCsv(text: string) {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  const header = lines.shift();
+  if (!header) {
+    return [];
+  }
+  const columns = splitCsvLine(header).map((column) => column.trim());
+  return lines.map((line) => {
+    const values = splitCsvLine(line);
+    const record = Object.fromEntries(columns.map((column, index) => [column, values[index] ?? ""]));
+    return normalizePlace(record);
+  });
+}
+
+export async function importPlaces(places: PlaceRecord[], source: string) {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    for (const place of places) {
+      await client.query(
+        `INSERT INTO places (
+           id, name, category, latitude, longitude, address, timezone, opening_hours,
+           safety_tier, is_public, active, source, created_at, updated_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9, $10, TRUE, $11, NOW(), NOW())
+         ON CONFLICT (id) DO UPDATE
+         SET name = EXCLUDED.name,
+             category = EXCLUDED.category,
+             latitude = EXCLUDED.latitude,
+             longitude = EXCLUDED.longitude,
+             address = EXCLUDED.address,
+             timezone = EXCLUDED.timezone,
+             opening_hours = EXCLUDED.opening_hours,
+             safety_tier = EXCLUDED.safety_tier,
+             is_public = EXCLUDED.is_public,
+             active = TRUE,
+             source = EXCLUDED.source,
+             updated_at = NOW()`,
+        [
+          place.id,
+          place.name,
+          place.category,
+          place.latitude,
+          place.longitude,
+          place.address,
+          place.timezone,
+          place.openingHours ? JSON.stringify(place.openingHours) : null,
+          place.safetyTier,
+          place.isPublic,
+          source
+        ]
+      );
+    }
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+  return { importedCount: places.length };
+}
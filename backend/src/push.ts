@@ -9,22 +9,28 @@ function isExpoPushToken(token: string) {
   return /^Expo(nent)?PushToken\[[^\]]+\]$/.test(token);
 }
 
-export async function registerUserPushToken(userId: string, expoPushToken: string, platform: string) {
+export async function registerUserPushToken(
+  userId: string,
+  expoPushToken: string,
+  platform: string,
+  sessionId: string | null = null
+) {
   const token = expoPushToken.trim();
   if (!isExpoPushToken(token)) {
     throw new Error("Invalid Expo push token format.");
   }
 
   await pool.query(
-    `INSERT INTO user_push_tokens (id, user_id, expo_push_token, platform, active, created_at, last_seen_at)
-     VALUES ($1, $2, $3, $4, TRUE, NOW(), NOW())
+    `INSERT INTO user_push_tokens (id, user_id, expo_push_token, platform, session_id, active, created_at, last_seen_at)
+     VALUES ($1, $2, $3, $4, $5, TRUE, NOW(), NOW())
      ON CONFLICT (expo_push_token)
      DO UPDATE SET
        user_id = EXCLUDED.user_id,
        platform = EXCLUDED.platform,
+       session_id = EXCLUDED.session_id,
        active = TRUE,
        last_seen_at = NOW()`,
-    [id("pt"), userId, token, platform.trim().toLowerCase() || "unknown"]
+    [id("pt"), userId, token, platform.trim().toLowerCase() || "unknown", sessionId]
   );
 }
 
@@ -59,7 +65,7 @@ async function deactivateTokens(tokens: string[]) {
 
 export async function sendPushToUsers(
   userIds: string[],
-  notification: { title: string; body: string; data?: Record<string, unknown> }
+  notification: { title: string; body: string; data?: Record<string, unknown>; badge?: number }
 ) {
   if (!PUSH_ENABLED) {
     return;
@@ -75,7 +81,8 @@ export async function sendPushToUsers(
     sound: "default",
     title: notification.title,
     body: notification.body,
-    data: notification.data ?? {}
+    data: notification.data ?? {},
+    ...(notification.badge !== undefined ? { badge: notification.badge } : {})
   }));
 
   try {
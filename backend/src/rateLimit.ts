@@ -1,44 +1,274 @@
-import type { RequestHandler } from "express";
+import type { Request, RequestHandler } from "express";
+import type { PoolClient } from "pg";
+import { verifyAccessToken } from "./authToken.js";
+import { pool } from "./db.js";
+import { captureBackendError } from "./sentry.js";
 
 type LimiterOptions = {
   windowMs: number;
   max: number;
   keyPrefix: string;
+  // Extra identities to limit on top of the caller, e.g. the username on login.
+  extraKeys?: (req: Request) => string[];
 };
 
-type Entry = {
-  count: number;
-  resetAt: number;
+type BucketState = {
+  key: string;
+  windowStart: number;
+  windowMs: number;
+  max: number;
+  current: number;
+  previous: number;
+};
+
+export type RateLimitLockout = {
+  key: string;
+  limit: number;
+  windowMs: number;
+  estimatedHits: number;
+  resetAt: string;
 };
 
-const buckets = new Map<string, Entry>();
+export interface RateLimitStore {
+  hit(key: string, windowMs: number, max: number, now: number): Promise<BucketState>;
+  listLockouts(now: number): Promise<RateLimitLockout[]>;
+  reset(key: string): Promise<boolean>;
+}
+
+const MEMORY_SWEEP_MS = 60 * 1000;
+
+// Sliding window counter: the previous fixed window is weighted by how much of
+// it still overlaps the trailing window, which smooths bursts at window edges
+// without storing every request timestamp.
+function estimateHits(state: BucketState, now: number) {
+  const currentWindowStart = Math.floor(now / state.windowMs) * state.windowMs;
+  let current = state.current;
+  let previous = state.previous;
+  if (state.windowStart !== currentWindowStart) {
+    previous = state.windowStart === currentWindowStart - state.windowMs ? state.current : 0;
+    current = 0;
+  }
+  const overlap = 1 - (now - currentWindowStart) / state.windowMs;
+  return {
+    estimated: previous * overlap + current,
+    resetAt: currentWindowStart + state.windowMs
+  };
+}
 
-function clientIp(reqHeaders: Record<string, string | string[] | undefined>) {
-  const forwarded = reqHeaders["x-forwarded-for"];
-  if (typeof forwarded === "string" && forwarded.trim()) {
-    return forwarded.split(",")[0]?.trim() || "unknown";
+function toLockout(state: BucketState, now: number): RateLimitLockout | null {
+  const { estimated, resetAt } = estimateHits(state, now);
+  if (estimated <= state.max) {
+    return null;
+  }
+  return {
+    key: state.key,
+    limit: state.max,
+    windowMs: state.windowMs,
+    estimatedHits: Math.round(estimated * 100) / 100,
+    resetAt: new Date(resetAt).toISOString()
+  };
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, BucketState>();
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [key, state] of buckets) {
+      if (state.windowStart + state.windowMs * 2 <= now) {
+        buckets.delete(key);
+      }
+    }
+  }, MEMORY_SWEEP_MS);
+  sweep.unref();
+
+  return {
+    async hit(key, windowMs, max, now) {
+      const windowStart = Math.floor(now / windowMs) * windowMs;
+      const existing = buckets.get(key);
+      let next: BucketState;
+      if (!existing) {
+        next = { key, windowStart, windowMs, max, current: 1, previous: 0 };
+      } else if (existing.windowStart === windowStart) {
+        next = { ...existing, windowMs, max, current: existing.current + 1 };
+      } else {
+        const previous = existing.windowStart === windowStart - windowMs ? existing.current : 0;
+        next = { key, windowStart, windowMs, max, current: 1, previous };
+      }
+      buckets.set(key, next);
+      return next;
+    },
+    async listLockouts(now) {
+      return [...buckets.values()]
+        .map((state) => toLockout(state, now))
+        .filter((lockout): lockout is RateLimitLockout => lockout !== null);
+    },
+    async reset(key) {
+      return buckets.delete(key);
+    }
+  };
+}
+
+function mapBucket(row: Record<string, unknown>): BucketState {
+  return {
+    key: String(row.key),
+    windowStart: Number(row.window_start),
+    windowMs: Number(row.window_ms),
+    max: Number(row.max_hits),
+    current: Number(row.current_count),
+    previous: Number(row.previous_count)
+  };
+}
+
+export function createPostgresRateLimitStore(): RateLimitStore {
+  return {
+    async hit(key, windowMs, max, now) {
+      const windowStart = Math.floor(now / windowMs) * windowMs;
+      const { rows } = await pool.query(
+        `INSERT INTO rate_limit_buckets AS b (
+           key, window_start, window_ms, max_hits, current_count, previous_count, expires_at
+         )
+         VALUES ($1, $2::bigint, $3::int, $4::int, 1, 0, to_timestamp(($2::bigint + $3::int * 2) / 1000.0))
+         ON CONFLICT (key) DO UPDATE
+         SET previous_count = CASE
+               WHEN b.window_start = EXCLUDED.window_start THEN b.previous_count
+               WHEN b.window_start = EXCLUDED.window_start - EXCLUDED.window_ms THEN b.current_count
+               ELSE 0
+             END,
+             current_count = CASE
+               WHEN b.window_start = EXCLUDED.window_start THEN b.current_count + 1
+               ELSE 1
+             END,
+             window_start = EXCLUDED.window_start,
+             window_ms = EXCLUDED.window_ms,
+             max_hits = EXCLUDED.max_hits,
+             expires_at = EXCLUDED.expires_at
+         RETURNING key, window_start, window_ms, max_hits, current_count, previous_count`,
+        [key, windowStart, windowMs, max]
+      );
+      return mapBucket(rows[0]);
+    },
+    async listLockouts(now) {
+      const { rows } = await pool.query(
+        `SELECT key, window_start, window_ms, max_hits, current_count, previous_count
+         FROM rate_limit_buckets
+         WHERE expires_at > NOW()
+           AND current_count + previous_count > max_hits
+         ORDER BY key
+         LIMIT 500`
+      );
+      return rows
+        .map((row) => toLockout(mapBucket(row), now))
+        .filter((lockout): lockout is RateLimitLockout => lockout !== null);
+    },
+    async reset(key) {
+      const { rowCount } = await pool.query(`DELETE FROM rate_limit_buckets WHERE key = $1`, [key]);
+      return Number(rowCount ?? 0) > 0;
+    }
+  };
+}
+
+export async function purgeExpiredRateLimitBuckets(client: PoolClient, limit: number) {
+  const { rowCount } = await client.query(
+    `DELETE FROM rate_limit_buckets
+     WHERE key IN (
+       SELECT key FROM rate_limit_buckets
+       WHERE expires_at < NOW()
+       LIMIT $1
+     )`,
+    [limit]
+  );
+  return Number(rowCount ?? 0);
+}
+
+const fallbackStore = createMemoryRateLimitStore();
+let activeStore: RateLimitStore =
+  (process.env.RATE_LIMIT_STORE ?? "postgres").toLowerCase() === "memory"
+    ? fallbackStore
+    : createPostgresRateLimitStore();
+
+export function setRateLimitStore(store: RateLimitStore) {
+  activeStore = store;
+}
+
+export function getRateLimitStore() {
+  return activeStore;
+}
+
+const SHARED_IP_FACTOR = Math.max(1, Number(process.env.RATE_LIMIT_SHARED_IP_FACTOR ?? 5));
+
+function clientIp(req: Request) {
+  return req.ip || req.socket.remoteAddress || "unknown";
+}
+
+// Signed-in callers are limited per account and, more loosely, per IP: the
+// account bucket stops one user from hammering the API, and the IP bucket stops
+// one address from spreading requests across many accounts without throttling
+// people who merely share a NAT. Anonymous callers only have the IP bucket.
+function callerKeys(req: Request, max: number) {
+  const ipKey = `ip:${clientIp(req)}`;
+  const token = String(req.header("authorization") ?? "").replace(/^Bearer\s+/i, "");
+  if (token) {
+    try {
+      const userId = verifyAccessToken(token).sub;
+      return [
+        { key: `user:${userId}`, max },
+        { key: ipKey, max: max * SHARED_IP_FACTOR }
+      ];
+    } catch {
+      // Invalid tokens are rejected later; limit them by IP until then.
+    }
+  }
+  return [{ key: ipKey, max }];
+}
+
+async function hitWithFallback(key: string, windowMs: number, max: number, now: number) {
+  try {
+    return await activeStore.hit(key, windowMs, max, now);
+  } catch (err) {
+    captureBackendError(err, { stage: "rate_limit_store" });
+    return fallbackStore.hit(key, windowMs, max, now);
   }
-  return "unknown";
 }
 
 export function createRateLimit(options: LimiterOptions): RequestHandler {
   const { windowMs, max, keyPrefix } = options;
+  const windowSeconds = Math.ceil(windowMs / 1000);
 
-  return (req, res, next) => {
+  return async (req, res, next) => {
     const now = Date.now();
-    const ip = clientIp(req.headers as Record<string, string | string[] | undefined>);
-    const key = `${keyPrefix}:${ip}`;
-    const current = buckets.get(key);
+    const keys = [
+      ...callerKeys(req, max),
+      ...(options.extraKeys?.(req) ?? []).map((key) => ({ key, max }))
+    ].map((entry) => ({ ...entry, key: `${keyPrefix}:${entry.key}` }));
 
-    if (!current || current.resetAt <= now) {
-      buckets.set(key, { count: 1, resetAt: now + windowMs });
+    let remaining = max;
+    let resetAt = now + windowMs;
+    let limited = false;
+    try {
+      for (const entry of keys) {
+        const state = await hitWithFallback(entry.key, windowMs, entry.max, now);
+        const estimate = estimateHits(state, now);
+        const keyRemaining = Math.max(0, Math.floor(entry.max - estimate.estimated));
+        if (keyRemaining <= remaining) {
+          remaining = keyRemaining;
+          resetAt = estimate.resetAt;
+        }
+        limited = limited || estimate.estimated > entry.max;
+      }
+    } catch (err) {
+      captureBackendError(err, { stage: "rate_limit" });
       return next();
     }
 
-    current.count += 1;
-    if (current.count > max) {
-      const retryAfter = Math.max(1, Math.ceil((current.resetAt - now) / 1000));
-      res.setHeader("Retry-After", String(retryAfter));
+    const resetSeconds = Math.max(1, Math.ceil((resetAt - now) / 1000));
+    res.setHeader("RateLimit-Policy", `${max};w=${windowSeconds}`);
+    res.setHeader("RateLimit-Limit", String(max));
+    res.setHeader("RateLimit-Remaining", String(remaining));
+    res.setHeader("RateLimit-Reset", String(resetSeconds));
+
+    if (limited) {
+      res.setHeader("Retry-After", String(resetSeconds));
       return res.status(429).json({ error: "Too many requests. Please slow down." });
     }
     return next();
@@ -0,0 +1,170 @@
+import type { Response } from "express";
+import type { PoolClient } from "pg";
+import { pool } from "./db.js";
+
+const CHANNEL = "vicino_events";
+const HEARTBEAT_SECONDS = 25;
+const STREAM_MAX_SECONDS = Math.max(60, Number(process.env.REALTIME_STREAM_MAX_SECONDS ?? 900));
+const LISTENER_RETRY_MS = 5000;
+// Postgres rejects NOTIFY payloads of 8000 bytes or more.
+const MAX_NOTIFY_PAYLOAD_BYTES = 7900;
+
+export type RealtimeEventType =
+  | "match.created"
+  | "message.created"
+  | "message.read"
+  | "message.reaction"
+  | "typing"
+  | "availability.request"
+  | "offer.created"
+  | "offer.status_changed"
+  | "resync";
+
+export type RealtimeEvent = {
+  type: RealtimeEventType;
+  data: Record<string, unknown>;
+};
+
+const subscribers = new Map<string, Set<Response>>();
+let listener: PoolClient | null = null;
+let listenerStarted = false;
+// Set when the LISTEN connection drops; cleared once it is back and the
+// streams held here have been told to resync.
+let listenerLost = false;
+
+function writeEvent(res: Response, event: RealtimeEvent) {
+  res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+}
+
+function deliverLocally(userIds: string[], event: RealtimeEvent) {
+  for (const userId of new Set(userIds)) {
+    const streams = subscribers.get(userId);
+    if (!streams) {
+      continue;
+    }
+    for (const res of streams) {
+      writeEvent(res, event);
+    }
+  }
+}
+
+function deliverToAll(event: RealtimeEvent) {
+  for (const streams of subscribers.values()) {
+    for (const res of streams) {
+      writeEvent(res, event);
+    }
+  }
+}
+
+// Events are fanned out through Postgres NOTIFY so every replica can reach the
+// streams it holds. Oversized payloads or a failed NOTIFY fall back to this
+// process only; clients still catch up on their next poll. While the LISTEN
+// connection is reconnecting our own NOTIFYs would not come back to us, so
+// local streams are written directly and the NOTIFY only serves other replicas.
+export function publishToUsers(userIds: string[], event: RealtimeEvent) {
+  if (userIds.length === 0) {
+    return;
+  }
+  const payload = JSON.stringify({ userIds, event });
+  if (!listenerStarted || Buffer.byteLength(payload) > MAX_NOTIFY_PAYLOAD_BYTES) {
+    deliverLocally(userIds, event);
+    return;
+  }
+  const listening = listener !== null;
+  if (!listening) {
+    deliverLocally(userIds, event);
+  }
+  void pool.query(`SELECT pg_notify($1, $2)`, [CHANNEL, payload]).catch(() => {
+    if (listening) {
+      deliverLocally(userIds, event);
+    }
+  });
+}
+
+export function subscribeToEvents(userId: string, res: Response) {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+  res.write(`retry: ${LISTENER_RETRY_MS}\n\n`);
+
+  const streams = subscribers.get(userId) ?? new Set<Response>();
+  streams.add(res);
+  subscribers.set(userId, streams);
+
+  const heartbeat = setInterval(() => {
+    res.write(`: ping\n\n`);
+  }, HEARTBEAT_SECONDS * 1000);
+
+  // Streams are recycled periodically so clients re-authenticate with a fresh token.
+  const maxAge = setTimeout(() => {
+    res.end();
+  }, STREAM_MAX_SECONDS * 1000);
+
+  let closed = false;
+  return () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    clearInterval(heartbeat);
+    clearTimeout(maxAge);
+    const current = subscribers.get(userId);
+    current?.delete(res);
+    if (current && current.size === 0) {
+      subscribers.delete(userId);
+    }
+  };
+}
+
+function scheduleListenerReconnect() {
+  setTimeout(() => {
+    void connectListener().catch(scheduleListenerReconnect);
+  }, LISTENER_RETRY_MS);
+}
+
+async function connectListener() {
+  const client = await pool.connect();
+  client.on("notification", (msg) => {
+    if (msg.channel !== CHANNEL || !msg.payload) {
+      return;
+    }
+    try {
+      const parsed = JSON.parse(msg.payload) as { userIds: string[]; event: RealtimeEvent };
+      deliverLocally(parsed.userIds, parsed.event);
+    } catch {
+      // Ignore malformed payloads from other publishers.
+    }
+  });
+  client.on("error", () => {
+    if (listener === client) {
+      listener = null;
+      listenerLost = true;
+      client.release(true);
+      scheduleListenerReconnect();
+    }
+  });
+  try {
+    await client.query(`LISTEN ${CHANNEL}`);
+  } catch (err) {
+    client.release(true);
+    throw err;
+  }
+  listener = client;
+  // Events other replicas published while we were not listening are gone, so
+  // every open stream is told to refetch its state.
+  if (listenerLost) {
+    listenerLost = false;
+    deliverToAll({ type: "resync", data: { reason: "listener_reconnected" } });
+  }
+}
+
+export async function startRealtime() {
+  listenerStarted = true;
+  await connectListener().catch(() => {
+    listenerLost = true;
+    scheduleListenerReconnect();
+  });
+}
@@ -0,0 +1,384 @@
+import type { PoolClient } from "pg";
+import { pool } from "./db.js";
+import { sendPushToUsers } from "./push.js";
+
+const CHECKIN_AFTER_MINUTES = Math.max(15, Number(process.env.SAFETY_CHECKIN_AFTER_MINUTES ?? 60));
+const CHECKIN_GRACE_MINUTES = Math.max(5, Number(process.env.SAFETY_CHECKIN_GRACE_MINUTES ?? 15));
+const MAX_TRUSTED_CONTACTS = 5;
+
+const id = (prefix: string) => `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
+
+export type TrustedContact = {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+};
+
+export type SafetyAlertKind = "missed_checkin" | "panic";
+
+export type SafetyAlert = {
+  kind: SafetyAlertKind;
+  userId: string;
+  userFirstName: string;
+  placeLabel: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  occurredAt: string;
+};
+
+// Delivery to trusted contacts is pluggable so an SMS or email provider can be
+// swapped in. Every attempt is recorded in safety_notifications either way.
+export type SafetyNotifier = {
+  channel: string;
+  notify: (contact: TrustedContact, alert: SafetyAlert) => Promise<void>;
+};
+
+const logNotifier: SafetyNotifier = {
+  channel: "log",
+  async notify(contact, alert) {
+    console.log(
+      JSON.stringify({
+        level: "warn",
+        event: "safety_contact_alert",
+        contactId: contact.id,
+        kind: alert.kind,
+        userId: alert.userId
+      })
+    );
+  }
+};
+
+let activeNotifier: SafetyNotifier = logNotifier;
+
+export function setSafetyNotifier(notifier: SafetyNotifier) {
+  activeNotifier = notifier;
+}
+
+function mapContact(row: Record<string, unknown>): TrustedContact {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    phone: row.phone ? String(row.phone) : null,
+    email: row.email ? String(row.email) : null
+  };
+}
+
+export async function listTrustedContacts(userId: string) {
+  const { rows } = await pool.query(
+    `SELECT id, name, phone, email
+     FROM trusted_contacts
+     WHERE user_id = $1
+     ORDER BY created_at ASC`,
+    [userId]
+  );
+  return rows.map(mapContact);
+}
+
+export async function addTrustedContact(
+  userId: string,
+  input: { name: string; phone?: string | null; email?: string | null }
+) {
+  const name = input.name.trim();
+  const phone = input.phone?.trim() || null;
+  const email = input.email?.trim().toLowerCase() || null;
+  if (!name) {
+    throw new Error("Contact name is required");
+  }
+  if (!phone && !email) {
+    throw new Error("Contact needs a phone number or email");
+  }
+
+  const countRes = await pool.query(`SELECT COUNT(*)::int AS count FROM trusted_contacts WHERE user_id = $1`, [
+    userId
+  ]);
+  if (Number(countRes.rows[0]?.count ?? 0) >= MAX_TRUSTED_CONTACTS) {
+    throw new Error(`You can add up to ${MAX_TRUSTED_CONTACTS} trusted contacts`);
+  }
+
+  const { rows } = await pool.query(
+    `INSERT INTO trusted_contacts (id, user_id, name, phone, email, created_at)
+     VALUES ($1, $2, $3, $4, $5, NOW())
+     RETURNING id, name, phone, email`,
+    [id("contact"), userId, name, phone, email]
+  );
+  return mapContact(rows[0]);
+}
+
+export async function removeTrustedContact(userId: string, contactId: string) {
+  const { rowCount } = await pool.query(`DELETE FROM trusted_contacts WHERE id = $1 AND user_id = $2`, [
+    contactId,
+    userId
+  ]);
+  if (!rowCount) {
+    throw new Error("Trusted contact not found");
+  }
+  return { ok: true as const };
+}
+
+export async function scheduleSafetyCheckins(
+  client: PoolClient,
+  offer: { id: string; initiatorUserId: string; recipientUserId: string },
+  coordinationEndsAt: Date
+) {
+  const dueAt = new Date(coordinationEndsAt.getTime() + CHECKIN_AFTER_MINUTES * 60 * 1000);
+  for (const userId of [offer.initiatorUserId, offer.recipientUserId]) {
+    await client.query(
+      `INSERT INTO safety_checkins (id, offer_id, user_id, due_at, status, created_at)
+       VALUES ($1, $2, $3, $4, 'scheduled', NOW())
+       ON CONFLICT (offer_id, user_id) DO NOTHING`,
+      [id("checkin"), offer.id, userId, dueAt]
+    );
+  }
+}
+
+const CHECKIN_SELECT = `
+  SELECT c.id, c.offer_id AS "offerId", c.due_at AS "dueAt", c.status,
+         c.reminded_at AS "remindedAt", c.responded_at AS "respondedAt",
+         o.place_id AS "placeId", o.place_label AS "placeLabel",
+         CASE WHEN o.initiator_user_id = c.user_id THEN o.recipient_user_id ELSE o.initiator_user_id END AS "otherUserId"
+  FROM safety_checkins c
+  JOIN meetup_offers o ON o.id = c.offer_id`;
+
+export async function getActiveSafetyCheckin(userId: string) {
+  const { rows } = await pool.query(
+    `${CHECKIN_SELECT}
+     WHERE c.user_id = $1 AND c.status IN ('scheduled', 'reminded', 'escalated')
+     ORDER BY c.due_at ASC
+     LIMIT 1`,
+    [userId]
+  );
+  return rows[0] ?? null;
+}
+
+export async function confirmSafetyCheckin(userId: string, checkinId: string) {
+  const { rows } = await pool.query(
+    `UPDATE safety_checkins
+     SET status = 'ok', responded_at = NOW()
+     WHERE id = $1 AND user_id = $2 AND status IN ('scheduled', 'reminded', 'escalated')
+     RETURNING id`,
+    [checkinId, userId]
+  );
+  if (!rows[0]) {
+    throw new Error("Check-in not found or already closed");
+  }
+  return { ok: true as const };
+}
+
+async function dispatchAlert(
+  db: PoolClient,
+  userId: string,
+  alert: SafetyAlert,
+  refs: { checkinId?: string | null; panicEventId?: string | null }
+) {
+  const contactsRes = await db.query(
+    `SELECT id, name, phone, email
+     FROM trusted_contacts
+     WHERE user_id = $1`,
+    [userId]
+  );
+  const queued: Array<{ notificationId: string; contact: TrustedContact }> = [];
+  for (const row of contactsRes.rows) {
+    const notificationId = id("safetynote");
+    await db.query(
+      `INSERT INTO safety_notifications (
+         id, user_id, contact_id, checkin_id, panic_event_id, kind, channel, payload, status, created_at
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, 'pending', NOW())`,
+      [
+        notificationId,
+        userId,
+        row.id,
+        refs.checkinId ?? null,
+        refs.panicEventId ?? null,
+        alert.kind,
+        activeNotifier.channel,
+        JSON.stringify(alert)
+      ]
+    );
+    queued.push({ notificationId, contact: mapContact(row) });
+  }
+  return queued;
+}
+
+async function deliverQueued(queued: Array<{ notificationId: string; contact: TrustedContact }>, alert: SafetyAlert) {
+  for (const entry of queued) {
+    try {
+      await activeNotifier.notify(entry.contact, alert);
+      await pool.query(`UPDATE safety_notifications SET status = 'sent', sent_at = NOW() WHERE id = $1`, [
+        entry.notificationId
+      ]);
+    } catch (err) {
+      await pool
+        .query(`UPDATE safety_notifications SET status = 'failed', error = $2 WHERE id = $1`, [
+          entry.notificationId,
+          (err as Error).message
+        ])
+        .catch(() => null);
+    }
+  }
+}
+
+async function loadAlertContext(db: PoolClient, userId: string, offerId: string | null) {
+  const { rows } = await db.query(
+    `SELECT u.first_name, u.latitude, u.longitude, o.place_label
+     FROM users u
+     LEFT JOIN meetup_offers o ON o.id = $2
+     WHERE u.id = $1`,
+    [userId, offerId]
+  );
+  return rows[0] ?? {};
+}
+
+// Reminds users whose check-in came due, then escalates to trusted contacts once
+// the grace period passes without an answer. Runs inside the expiry sweep lock.
+export async function sweepSafetyCheckins(client: PoolClient) {
+  const dueRes = await client.query(
+    `UPDATE safety_checkins
+     SET status = 'reminded', reminded_at = NOW()
+     WHERE id IN (
+       SELECT id FROM safety_checkins
+       WHERE status = 'scheduled' AND due_at < NOW()
+       ORDER BY due_at
+       LIMIT 200
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, user_id, offer_id`
+  );
+
+  const missedRes = await client.query(
+    `UPDATE safety_checkins
+     SET status = 'escalated', escalated_at = NOW()
+     WHERE id IN (
+       SELECT id FROM safety_checkins
+       WHERE status = 'reminded' AND reminded_at < NOW() - ($1::int || ' minutes')::interval
+       ORDER BY reminded_at
+       LIMIT 200
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, user_id, offer_id`,
+    [CHECKIN_GRACE_MINUTES]
+  );
+
+  const escalations: Array<{ alert: SafetyAlert; queued: Awaited<ReturnType<typeof dispatchAlert>> }> = [];
+  for (const row of missedRes.rows) {
+    const context = await loadAlertContext(client, String(row.user_id), String(row.offer_id));
+    const alert: SafetyAlert = {
+      kind: "missed_checkin",
+      userId: String(row.user_id),
+      userFirstName: context.first_name ? String(context.first_name) : "Your contact",
+      placeLabel: context.place_label ? String(context.place_label) : null,
+      latitude: context.latitude == null ? null : Number(context.latitude),
+      longitude: context.longitude == null ? null : Number(context.longitude),
+      occurredAt: new Date().toISOString()
+    };
+    const queued = await dispatchAlert(client, String(row.user_id), alert, { checkinId: String(row.id) });
+    escalations.push({ alert, queued });
+  }
+
+  return {
+    reminders: dueRes.rows.map((row) => ({
+      userIds: [String(row.user_id)],
+      notification: {
+        title: "Are you OK?",
+        body: "Check in to let us know your meetup is going fine.",
+        data: { type: "safety_checkin", checkinId: String(row.id), offerId: String(row.offer_id) }
+      }
+    })),
+    deliver: async () => {
+      for (const escalation of escalations) {
+        await deliverQueued(escalation.queued, escalation.alert);
+      }
+    }
+  };
+}
+
+export async function recordPanic(
+  userId: string,
+  input: { offerId?: string | null; latitude?: number | null; longitude?: number | null }
+) {
+  const client = await pool.connect();
+  let alert: SafetyAlert;
+  let queued: Awaited<ReturnType<typeof dispatchAlert>>;
+  let panicEvent: Record<string, unknown>;
+  try {
+    await client.query("BEGIN");
+    let offerId = input.offerId ?? null;
+    if (offerId) {
+      const owned = await client.query(
+        `SELECT 1 FROM meetup_offers
+         WHERE id = $1 AND (initiator_user_id = $2 OR recipient_user_id = $2)`,
+        [offerId, userId]
+      );
+      if (!owned.rowCount) {
+        throw new Error("User is not part of this offer");
+      }
+    } else {
+      const latest = await client.query(
+        `SELECT id FROM meetup_offers
+         WHERE (initiator_user_id = $1 OR recipient_user_id = $1)
+           AND status IN ('accepted', 'location_expired')
+         ORDER BY created_at DESC
+         LIMIT 1`,
+        [userId]
+      );
+      offerId = latest.rows[0]?.id ? String(latest.rows[0].id) : null;
+    }
+
+    if (input.latitude != null && input.longitude != null) {
+      await client.query(
+        `UPDATE users SET latitude = $2, longitude = $3, last_location_at = NOW() WHERE id = $1`,
+        [userId, input.latitude, input.longitude]
+      );
+    }
+
+    const context = await loadAlertContext(client, userId, offerId);
+    const { rows } = await client.query(
+      `INSERT INTO panic_events (id, user_id, offer_id, place_id, place_label, latitude, longitude, created_at)
+       SELECT $1, $2, o.id, o.place_id, o.place_label, u.latitude, u.longitude, NOW()
+       FROM users u
+       LEFT JOIN meetup_offers o ON o.id = $3
+       WHERE u.id = $2
+       RETURNING id, offer_id AS "offerId", place_id AS "placeId", place_label AS "placeLabel",
+                 latitude, longitude, created_at AS "createdAt"`,
+      [id("panic"), userId, offerId]
+    );
+    panicEvent = rows[0];
+
+    await client.query(
+      `UPDATE safety_checkins
+       SET status = 'panic', responded_at = NOW()
+       WHERE user_id = $1 AND status IN ('scheduled', 'reminded', 'escalated')`,
+      [userId]
+    );
+
+    alert = {
+      kind: "panic",
+      userId,
+      userFirstName: context.first_name ? String(context.first_name) : "Your contact",
+      placeLabel: panicEvent.placeLabel ? String(panicEvent.placeLabel) : null,
+      latitude: panicEvent.latitude == null ? null : Number(panicEvent.latitude),
+      longitude: panicEvent.longitude == null ? null : Number(panicEvent.longitude),
+      occurredAt: new Date().toISOString()
+    };
+    queued = await dispatchAlert(client, userId, alert, { panicEventId: String(panicEvent.id) });
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  await deliverQueued(queued, alert);
+  void sendPushToUsers([userId], {
+    title: "Help request sent",
+    body:
+      queued.length > 0
+        ? "Your trusted contacts have been alerted with your location."
+        : "Add trusted contacts so we can alert them next time. If you are in danger, call 911.",
+    data: { type: "safety_panic", panicEventId: panicEvent.id }
+  }).catch(() => null);
+
+  return { panicEvent, contactsNotified: queued.length };
+}
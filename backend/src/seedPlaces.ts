@@ -0,0 +1,21 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { pool } from "./db.js";
+import { importPlaces, parsePlacesCsv, parsePlacesGeoJson } from "./places.js";
+
+async function run() {
+  const file = process.argv[2];
+  if (!file) {
+    throw new Error("Usage: npm run seed:places -- <file.geojson|file.csv>");
+  }
+  const text = await fs.readFile(file, "utf8");
+  const places = file.toLowerCase().endsWith(".csv") ? parsePlacesCsv(text) : parsePlacesGeoJson(text);
+  const result = await importPlaces(places, `import:${path.basename(file)}`);
+  console.log(`Imported ${result.importedCount} places from ${file}.`);
+  await pool.end();
+}
+
+run().catch((err) => {
+  console.error("Place import failed:", err);
+  process.exit(1);
+});
@@ -1,11 +1,20 @@
 import cors from "cors";
 import express from "express";
 import fs from "node:fs";
-import https from "node:https";
 import path from "node:path";
-import { createHash, createHmac, randomUUID } from "node:crypto";
+import { randomUUID } from "node:crypto";
 import { z } from "zod";
+import {
+  AUDIT_LOG_CSV_HEADER,
+  formatAuditLogCsvRow,
+  iterateAdminAuditLogs,
+  listAdminAuditLogs,
+  resolveAdminCredential,
+  type AuditLogRow
+} from "./admin.js";
 import { initDb, pool } from "./db.js";
+import { getDiscoveryRanker, getRankingVariants } from "./discoveryRanking.js";
+import { startBackgroundJobs } from "./jobs.js";
 import {
   assertVerifiedUser,
   assertAdminSession,
@@ -17,26 +26,44 @@ import {
   purgeExpiredVerificationSubmissions,
   expireLocationIfNeeded,
   getAvailabilityState,
+  getCurrentUserProfile,
   getLatestVerificationSubmissionForUser,
+  getUserReportDetail,
   getVerificationStatus,
   listAdminUsers,
+  listAuthSessions,
   listInterestedCandidates,
   listIncomingAvailabilityForUser,
   listMatches,
+  listMatchProfiles,
+  listNearbyPlacesForMatch,
   listDiscoveryProfiles,
   listVerificationQueue,
   listMessages,
+  markMessagesRead,
+  getMatchPresence,
+  sendTypingIndicator,
   listOffers,
+  listOffersForUser,
+  listUserReports,
   listUsers,
   getAuthSession,
   loginAuthUser,
   logoutAuthSession,
   refreshAuthSession,
   registerPushTokenForUser,
+  resolveAuthSession,
   registerAuthUser,
+  renameAuthSession,
+  requestPasswordReset,
+  resetPassword,
+  revokeAuthSession,
+  revokeOtherAuthSessions,
   reviewVerificationSubmission,
   respondAvailabilityInterest,
   respondToOffer,
+  resolveUserReport,
+  sendEmailVerification,
   sendMessage,
   setUserPlanTierByAdmin,
   setMeetDecision,
@@ -47,14 +74,39 @@ import {
   unmatchPair,
   updateUserProfile,
   updateUserDistancePreference,
+  updateUserVisibility,
   updateUserLocation,
-  swipe
+  verifyEmailAddress,
+  swipe,
+  undoLastSwipe,
+  getSwipeQuota,
+  reactToMessage,
+  MESSAGE_REACTIONS,
+  SwipeLimitError,
+  MessageModerationError,
+  VOICE_NOTE_MAX_BYTES,
+  VOICE_NOTE_MAX_SECONDS,
+  recordUpload,
+  type AuthContext
 } from "./logic.js";
-import { createRateLimit } from "./rateLimit.js";
+import { listLoginEvents } from "./loginSecurity.js";
+import { createRateLimit, getRateLimitStore } from "./rateLimit.js";
+import { startRealtime, subscribeToEvents } from "./realtime.js";
+import {
+  addTrustedContact,
+  confirmSafetyCheckin,
+  getActiveSafetyCheckin,
+  listTrustedContacts,
+  recordPanic,
+  removeTrustedContact
+} from "./safety.js";
 import { captureBackendError, initBackendSentry } from "./sentry.js";
+import { REQUIRE_S3_UPLOADS, s3Configured, uploadToS3, uploadsDir } from "./storage.js";
 
 const app = express();
-app.set("trust proxy", true);
+// Only trust the hops we actually sit behind, so clients can't pick their own
+// rate limit key by sending a forged x-forwarded-for.
+app.set("trust proxy", Math.max(0, Number(process.env.TRUST_PROXY_HOPS ?? 1)));
 app.use(cors());
 app.use(express.json({ limit: "20mb" }));
 app.use((req, res, next) => {
@@ -79,40 +131,28 @@ app.use((req, res, next) => {
   res.setHeader("x-request-id", requestId);
   next();
 });
-const uploadsDir = path.join(process.cwd(), "uploads");
-fs.mkdirSync(uploadsDir, { recursive: true });
 app.use("/uploads", express.static(uploadsDir));
-const ADMIN_REVIEW_KEY = process.env.ADMIN_REVIEW_KEY ?? "";
 const MAX_UPLOAD_BYTES = Math.max(256 * 1024, Number(process.env.MAX_UPLOAD_BYTES ?? 5 * 1024 * 1024));
 const ALLOWED_UPLOAD_MIME_TYPES = new Set(["image/jpeg", "image/jpg", "image/png", "image/webp", "image/heic"]);
-const AWS_REGION = process.env.AWS_REGION?.trim();
-const AWS_ACCESS_KEY_ID = process.env.AWS_ACCESS_KEY_ID?.trim();
-const AWS_SECRET_ACCESS_KEY = process.env.AWS_SECRET_ACCESS_KEY?.trim();
-const AWS_S3_BUCKET = process.env.AWS_S3_BUCKET?.trim();
-const AWS_S3_PUBLIC_BASE_URL = process.env.AWS_S3_PUBLIC_BASE_URL?.trim().replace(/\/+$/, "");
+const ALLOWED_AUDIO_UPLOAD_MIME_TYPES = new Set(["audio/mp4", "audio/m4a", "audio/x-m4a"]);
 const PUBLIC_BASE_URL = process.env.PUBLIC_BASE_URL?.trim().replace(/\/+$/, "");
-const REQUIRE_S3_UPLOADS =
-  String(process.env.REQUIRE_S3_UPLOADS ?? (process.env.NODE_ENV === "production" ? "true" : "false"))
-    .trim()
-    .toLowerCase() === "true";
-
-const S3_CONFIG_KEYS = [AWS_REGION, AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_S3_BUCKET];
-const s3Configured = S3_CONFIG_KEYS.every((value) => Boolean(value));
-const s3PartiallyConfigured = S3_CONFIG_KEYS.some((value) => Boolean(value)) && !s3Configured;
-if (s3PartiallyConfigured) {
-  throw new Error(
-    "Incomplete S3 config: set AWS_REGION, AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, and AWS_S3_BUCKET together."
-  );
-}
-if (REQUIRE_S3_UPLOADS && !s3Configured) {
-  throw new Error(
-    "S3 uploads are required but S3 is not configured. Set AWS_REGION, AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, and AWS_S3_BUCKET."
-  );
-}
 
 const authRateLimit = createRateLimit({ windowMs: 15 * 60 * 1000, max: 50, keyPrefix: "auth" });
-const loginRateLimit = createRateLimit({ windowMs: 15 * 60 * 1000, max: 20, keyPrefix: "auth-login" });
+const loginRateLimit = createRateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  keyPrefix: "auth-login",
+  extraKeys: (req) =>
+    typeof req.body?.username === "string" ? [`username:${req.body.username.trim().toLowerCase()}`] : []
+});
+const passwordResetRateLimit = createRateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 5,
+  keyPrefix: "auth-password-reset",
+  extraKeys: (req) => (typeof req.body?.email === "string" ? [`email:${req.body.email.trim().toLowerCase()}`] : [])
+});
 const userActionRateLimit = createRateLimit({ windowMs: 60 * 1000, max: 120, keyPrefix: "user-actions" });
+const typingRateLimit = createRateLimit({ windowMs: 60 * 1000, max: 60, keyPrefix: "typing" });
 const uploadRateLimit = createRateLimit({ windowMs: 60 * 1000, max: 30, keyPrefix: "uploads" });
 const adminRateLimit = createRateLimit({ windowMs: 60 * 1000, max: 60, keyPrefix: "admin" });
 
@@ -123,27 +163,58 @@ function estimateBase64Bytes(base64Data: string) {
   return Math.floor((body.length * 3) / 4) - padding;
 }
 
-function sha256Hex(input: Buffer | string) {
-  return createHash("sha256").update(input).digest("hex");
-}
-
-function hmac(key: Buffer | string, data: string) {
-  return createHmac("sha256", key).update(data).digest();
-}
-
-function toAmzDate(date: Date) {
-  return date.toISOString().replace(/[:-]|\.\d{3}/g, "");
-}
-
-function toDateStamp(date: Date) {
-  return toAmzDate(date).slice(0, 8);
+// Reads the duration from the mvhd box of an MP4/M4A file, which is what the
+// apps record voice notes as. Returns null when the box can't be found.
+function readMp4DurationSeconds(buffer: Buffer) {
+  const findBox = (start: number, end: number, type: string) => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      let size = buffer.readUInt32BE(offset);
+      let header = 8;
+      if (size === 1 && offset + 16 <= end) {
+        size = Number(buffer.readBigUInt64BE(offset + 8));
+        header = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < header || offset + size > end) {
+        return null;
+      }
+      if (buffer.toString("latin1", offset + 4, offset + 8) === type) {
+        return { start: offset + header, end: offset + size };
+      }
+      offset += size;
+    }
+    return null;
+  };
+  const moov = findBox(0, buffer.length, "moov");
+  const mvhd = moov ? findBox(moov.start, moov.end, "mvhd") : null;
+  if (!mvhd) {
+    return null;
+  }
+  const version = buffer[mvhd.start];
+  if (mvhd.end - mvhd.start < (version === 1 ? 32 : 20)) {
+    return null;
+  }
+  const timescale = buffer.readUInt32BE(mvhd.start + (version === 1 ? 20 : 12));
+  const duration =
+    version === 1 ? Number(buffer.readBigUInt64BE(mvhd.start + 24)) : buffer.readUInt32BE(mvhd.start + 16);
+  return timescale > 0 ? duration / timescale : null;
 }
 
-function encodeS3Key(key: string) {
-  return key
-    .split("/")
-    .map((part) => encodeURIComponent(part))
-    .join("/");
+// The leading bytes of each accepted image type, so a file can't be stored as
+// an image while holding something else.
+function matchesImageSignature(buffer: Buffer, mime: string) {
+  if (mime.includes("png")) {
+    return buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+  }
+  if (mime.includes("webp")) {
+    return buffer.toString("latin1", 0, 4) === "RIFF" && buffer.toString("latin1", 8, 12) === "WEBP";
+  }
+  if (mime.includes("heic")) {
+    return buffer.toString("latin1", 4, 8) === "ftyp";
+  }
+  return buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff;
 }
 
 function resolvePublicBaseUrl(req: express.Request) {
@@ -156,109 +227,60 @@ function resolvePublicBaseUrl(req: express.Request) {
   return `${protocol}://${host}`;
 }
 
-async function uploadToS3(input: {
-  key: string;
-  body: Buffer;
-  mimeType: string;
-}) {
-  if (!s3Configured || !AWS_REGION || !AWS_ACCESS_KEY_ID || !AWS_SECRET_ACCESS_KEY || !AWS_S3_BUCKET) {
-    throw new Error("S3 is not configured.");
-  }
-
-  const host = `${AWS_S3_BUCKET}.s3.${AWS_REGION}.amazonaws.com`;
-  const now = new Date();
-  const amzDate = toAmzDate(now);
-  const dateStamp = toDateStamp(now);
-  const payloadHash = sha256Hex(input.body);
-  const canonicalUri = `/${encodeS3Key(input.key)}`;
-  const canonicalHeaders =
-    `content-type:${input.mimeType}\n` +
-    `host:${host}\n` +
-    `x-amz-content-sha256:${payloadHash}\n` +
-    `x-amz-date:${amzDate}\n`;
-  const signedHeaders = "content-type;host;x-amz-content-sha256;x-amz-date";
-  const canonicalRequest = `PUT\n${canonicalUri}\n\n${canonicalHeaders}\n${signedHeaders}\n${payloadHash}`;
-  const credentialScope = `${dateStamp}/${AWS_REGION}/s3/aws4_request`;
-  const stringToSign =
-    `AWS4-HMAC-SHA256\n${amzDate}\n${credentialScope}\n${sha256Hex(canonicalRequest)}`;
-
-  const kDate = hmac(`AWS4${AWS_SECRET_ACCESS_KEY}`, dateStamp);
-  const kRegion = hmac(kDate, AWS_REGION);
-  const kService = hmac(kRegion, "s3");
-  const kSigning = hmac(kService, "aws4_request");
-  const signature = createHmac("sha256", kSigning).update(stringToSign).digest("hex");
-
-  const authorization =
-    `AWS4-HMAC-SHA256 Credential=${AWS_ACCESS_KEY_ID}/${credentialScope}, ` +
-    `SignedHeaders=${signedHeaders}, Signature=${signature}`;
-
-  await new Promise<void>((resolve, reject) => {
-    const req = https.request(
-      {
-        host,
-        method: "PUT",
-        path: canonicalUri,
-        headers: {
-          "content-type": input.mimeType,
-          "content-length": String(input.body.length),
-          "x-amz-date": amzDate,
-          "x-amz-content-sha256": payloadHash,
-          Authorization: authorization
-        }
-      },
-      (res) => {
-        const chunks: Buffer[] = [];
-        res.on("data", (chunk) => chunks.push(Buffer.from(chunk)));
-        res.on("end", () => {
-          const bodyText = Buffer.concat(chunks).toString("utf8");
-          if ((res.statusCode ?? 500) >= 200 && (res.statusCode ?? 500) < 300) {
-            resolve();
-            return;
-          }
-          reject(new Error(`S3 upload failed (${res.statusCode}): ${bodyText || "Unknown error"}`));
-        });
-      }
-    );
-    req.on("error", reject);
-    req.write(input.body);
-    req.end();
-  });
-
-  const publicBase = AWS_S3_PUBLIC_BASE_URL || `https://${host}`;
-  return `${publicBase}/${encodeS3Key(input.key)}`;
-}
-
 const requireAdminAccess: express.RequestHandler = async (req, res, next) => {
   const token = String(req.header("authorization") ?? "").replace(/^Bearer\s+/i, "");
   if (token) {
     try {
-      await assertAdminSession(token);
+      const session = await assertAdminSession(token);
+      res.locals.adminUserId = String(session.user.id);
       return next();
     } catch {
       // fallback to key-based flow below
     }
   }
 
-  if (!ADMIN_REVIEW_KEY) {
-    return res.status(503).json({ error: "Admin access is not configured on server." });
-  }
-
   const provided = req.header("x-admin-key");
-  if (!provided || provided !== ADMIN_REVIEW_KEY) {
+  if (!provided) {
     return res.status(401).json({ error: "Unauthorized admin access." });
   }
-  return next();
+  try {
+    const credential = await resolveAdminCredential(provided);
+    res.locals.adminUserId = credential.adminUserId;
+    return next();
+  } catch (err) {
+    return res.status(401).json({ error: (err as Error).message });
+  }
 };
 
-const resolveAdminActorId = async (req: express.Request) => {
+const requireUserAuth: express.RequestHandler = async (req, res, next) => {
   const token = String(req.header("authorization") ?? "").replace(/^Bearer\s+/i, "");
   if (!token) {
-    return "u_admin";
+    return res.status(401).json({ error: "Missing auth token." });
+  }
+
+  try {
+    res.locals.auth = await resolveAuthSession(token);
+    return next();
+  } catch (err) {
+    return res.status(401).json({ error: (err as Error).message });
+  }
+};
+
+const requireSelfParam: express.RequestHandler = (req, res, next) => {
+  if (req.params.userId !== authUserId(res)) {
+    return res.status(403).json({ error: "Cannot act on behalf of another user." });
   }
-  const session = await assertAdminSession(token);
-  return String(session.user.id);
+  return next();
 };
 
+function authUserId(res: express.Response) {
+  return (res.locals.auth as AuthContext).userId;
+}
+
+function adminActorId(res: express.Response) {
+  return String(res.locals.adminUserId);
+}
+
 app.get("/health", (_req, res) => {
   res.json({ ok: true, service: "vicino-backend" });
 });
@@ -272,11 +294,14 @@ app.get("/readyz", async (_req, res) => {
   }
 });
 
-app.post("/uploads/image-base64", uploadRateLimit, async (req, res) => {
+// Every upload is recorded against the signed-in uploader with the type, size
+// and duration measured here; message attachments are taken from that record.
+app.post("/uploads/image-base64", uploadRateLimit, requireUserAuth, async (req, res) => {
   const schema = z.object({
     base64: z.string().min(1).max(14_000_000),
     mimeType: z.string().optional(),
-    filename: z.string().optional()
+    filename: z.string().optional(),
+    purpose: z.enum(["message_attachment", "profile_photo", "verification"]).default("profile_photo")
   });
   const parsed = schema.safeParse(req.body);
   if (!parsed.success) {
@@ -285,38 +310,77 @@ app.post("/uploads/image-base64", uploadRateLimit, async (req, res) => {
 
   try {
     const mime = (parsed.data.mimeType ?? "image/jpeg").toLowerCase().trim();
-    if (!ALLOWED_UPLOAD_MIME_TYPES.has(mime)) {
-      return res.status(400).json({ error: "Unsupported image type. Allowed: jpeg, png, webp, heic." });
+    const isAudio = ALLOWED_AUDIO_UPLOAD_MIME_TYPES.has(mime);
+    if (isAudio && parsed.data.purpose !== "message_attachment") {
+      return res.status(400).json({ error: "Voice notes can only be uploaded as message attachments." });
+    }
+    if (!isAudio && !ALLOWED_UPLOAD_MIME_TYPES.has(mime)) {
+      return res
+        .status(400)
+        .json({ error: "Unsupported file type. Allowed: jpeg, png, webp, heic images and m4a voice notes." });
     }
     const estimatedBytes = estimateBase64Bytes(parsed.data.base64);
-    if (estimatedBytes > MAX_UPLOAD_BYTES) {
-      return res.status(400).json({ error: `Image too large. Max ${MAX_UPLOAD_BYTES} bytes.` });
+    const maxBytes = isAudio ? VOICE_NOTE_MAX_BYTES : MAX_UPLOAD_BYTES;
+    if (estimatedBytes > maxBytes) {
+      return res.status(400).json({ error: `${isAudio ? "Voice note" : "Image"} too large. Max ${maxBytes} bytes.` });
     }
 
-    const ext = mime.includes("png") ? "png" : mime.includes("webp") ? "webp" : mime.includes("heic") ? "heic" : "jpg";
+    const ext = isAudio
+      ? "m4a"
+      : mime.includes("png")
+        ? "png"
+        : mime.includes("webp")
+          ? "webp"
+          : mime.includes("heic")
+            ? "heic"
+            : "jpg";
     const safeName = `${Date.now()}_${Math.random().toString(36).slice(2, 10)}.${ext}`;
     const body = parsed.data.base64.replace(/^data:[^;]+;base64,/, "");
     const buffer = Buffer.from(body, "base64");
 
-    if (s3Configured) {
-      const key = `uploads/${safeName}`;
-      const url = await uploadToS3({ key, body: buffer, mimeType: mime });
-      return res.json({ url });
+    if (!isAudio && !matchesImageSignature(buffer, mime)) {
+      return res.status(400).json({ error: "File contents don't match the image type." });
     }
-    if (REQUIRE_S3_UPLOADS) {
+
+    let durationSeconds: number | null = null;
+    if (isAudio) {
+      const duration = readMp4DurationSeconds(buffer);
+      if (duration === null) {
+        return res.status(400).json({ error: "Could not read the voice note duration." });
+      }
+      if (duration > VOICE_NOTE_MAX_SECONDS) {
+        return res.status(400).json({ error: `Voice notes can be up to ${VOICE_NOTE_MAX_SECONDS} seconds.` });
+      }
+      durationSeconds = Math.round(duration * 10) / 10;
+    }
+    let url: string;
+    if (s3Configured) {
+      url = await uploadToS3({ key: `uploads/${safeName}`, body: buffer, mimeType: mime });
+    } else if (REQUIRE_S3_UPLOADS) {
       return res.status(503).json({ error: "Image uploads temporarily unavailable. S3 storage is required." });
+    } else {
+      await fs.promises.writeFile(path.join(uploadsDir, safeName), buffer);
+      url = `${resolvePublicBaseUrl(req)}/uploads/${safeName}`;
     }
 
-    const target = path.join(uploadsDir, safeName);
-    await fs.promises.writeFile(target, buffer);
-    const baseUrl = resolvePublicBaseUrl(req);
-    return res.json({ url: `${baseUrl}/uploads/${safeName}` });
+    return res.json(
+      await recordUpload({
+        ownerUserId: authUserId(res),
+        kind: isAudio ? "audio" : "image",
+        purpose: parsed.data.purpose,
+        storedName: safeName,
+        url,
+        mimeType: mime,
+        sizeBytes: buffer.length,
+        durationSeconds
+      })
+    );
   } catch (err) {
     return res.status(500).json({ error: (err as Error).message });
   }
 });
 
-app.get("/users", async (_req, res) => {
+app.get("/users", adminRateLimit, requireAdminAccess, async (_req, res) => {
   try {
     res.json(await listUsers());
   } catch (err) {
@@ -324,6 +388,14 @@ app.get("/users", async (_req, res) => {
   }
 });
 
+app.get("/users/me", requireUserAuth, async (_req, res) => {
+  try {
+    res.json(await getCurrentUserProfile(authUserId(res)));
+  } catch (err) {
+    res.status(400).json({ error: (err as Error).message });
+  }
+});
+
 app.post("/auth/register", authRateLimit, async (req, res) => {
   const schema = z.object({
     email: z.string().email(),
@@ -336,7 +408,8 @@ app.post("/auth/register", authRateLimit, async (req, res) => {
     acceptedTerms: z.literal(true),
     acceptedPrivacy: z.literal(true),
     marketingConsent: z.boolean().optional().default(false),
-    policyVersion: z.string().min(1).max(40)
+    policyVersion: z.string().min(1).max(40),
+    deviceId: z.string().min(8).max(120).optional()
   });
   const parsed = schema.safeParse(req.body);
   if (!parsed.success) {
@@ -344,7 +417,12 @@ app.post("/auth/register", authRateLimit, async (req, res) => {
   }
 
   try {
-    const row = await registerAuthUser(parsed.data);
+    const { deviceId, ...input } = parsed.data;
+    const row = await registerAuthUser(input, {
+      ip: req.ip ?? null,
+      userAgent: req.header("user-agent") ?? null,
+      deviceId: deviceId ?? null
+    });
     return res.json(row);
   } catch (err) {
     return res.status(400).json({ error: (err as Error).message });
@@ -354,7 +432,8 @@ app.post("/auth/register", authRateLimit, async (req, res) => {
 app.post("/auth/login", authRateLimit, loginRateLimit, async (req, res) => {
   const schema = z.object({
     username: z.string().min(3).max(24),
-    password: z.string().min(8).max(200)
+    password: z.string().min(8).max(200),
+    deviceId: z.string().min(8).max(120).optional()
   });
   const parsed = schema.safeParse(req.body);
   if (!parsed.success) {
@@ -362,7 +441,11 @@ app.post("/auth/login", authRateLimit, loginRateLimit, async (req, res) => {
   }
 
   try {
-    const row = await loginAuthUser(parsed.data.username, parsed.data.password);
+    const row = await loginAuthUser(parsed.data.username, parsed.data.password, {
+      ip: req.ip ?? null,
+      userAgent: req.header("user-agent") ?? null,
+      deviceId: parsed.data.deviceId ?? null
+    });
     return res.json(row);
   } catch (err) {
     return res.status(401).json({ error: (err as Error).message });
@@ -379,7 +462,10 @@ app.post("/auth/refresh", authRateLimit, async (req, res) => {
   }
 
   try {
-    const refreshed = await refreshAuthSession(parsed.data.refreshToken);
+    const refreshed = await refreshAuthSession(parsed.data.refreshToken, {
+      ip: req.ip ?? null,
+      userAgent: req.header("user-agent") ?? null
+    });
     return res.json(refreshed);
   } catch (err) {
     return res.status(401).json({ error: (err as Error).message });
@@ -414,18 +500,120 @@ app.post("/auth/logout", async (req, res) => {
   }
 });
 
-app.get("/verification/:userId/status", async (req, res) => {
+app.post("/auth/password/forgot", authRateLimit, passwordResetRateLimit, async (req, res) => {
+  const schema = z.object({
+    email: z.string().email()
+  });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.flatten() });
+  }
+
+  try {
+    return res.json(await requestPasswordReset(parsed.data.email));
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.post("/auth/password/reset", authRateLimit, async (req, res) => {
+  const schema = z.object({
+    token: z.string().min(32).max(200),
+    password: z.string().min(8).max(200)
+  });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.flatten() });
+  }
+
+  try {
+    const row = await resetPassword(parsed.data.token, parsed.data.password, {
+      ip: req.ip ?? null,
+      userAgent: req.header("user-agent") ?? null
+    });
+    return res.json(row);
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.post("/auth/email/verify", authRateLimit, async (req, res) => {
+  const schema = z.object({
+    token: z.string().min(32).max(200)
+  });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.flatten() });
+  }
+
+  try {
+    return res.json(await verifyEmailAddress(parsed.data.token));
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.post("/auth/email/verify/resend", authRateLimit, requireUserAuth, async (_req, res) => {
+  try {
+    return res.json(await sendEmailVerification(authUserId(res)));
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.get("/auth/sessions", requireUserAuth, async (_req, res) => {
+  try {
+    const auth = res.locals.auth as AuthContext;
+    return res.json(await listAuthSessions(auth.userId, auth.sessionId));
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.post("/auth/sessions/revoke-others", userActionRateLimit, requireUserAuth, async (_req, res) => {
+  try {
+    const auth = res.locals.auth as AuthContext;
+    return res.json(await revokeOtherAuthSessions(auth.userId, auth.sessionId));
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.post("/auth/sessions/:sessionId/name", userActionRateLimit, requireUserAuth, async (req, res) => {
+  const schema = z.object({
+    name: z.string().max(60).nullable()
+  });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.flatten() });
+  }
+
+  try {
+    return res.json(await renameAuthSession(authUserId(res), String(req.params.sessionId), parsed.data.name));
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.delete("/auth/sessions/:sessionId", userActionRateLimit, requireUserAuth, async (req, res) => {
+  try {
+    return res.json(await revokeAuthSession(authUserId(res), String(req.params.sessionId)));
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.get("/verification/:userId/status", requireUserAuth, requireSelfParam, async (req, res) => {
   try {
-    const status = await getVerificationStatus(req.params.userId);
+    const status = await getVerificationStatus(authUserId(res));
     return res.json(status);
   } catch (err) {
     return res.status(400).json({ error: (err as Error).message });
   }
 });
 
-app.post("/verification/submit", async (req, res) => {
+app.post("/verification/submit", requireUserAuth, async (req, res) => {
   const schema = z.object({
-    userId: z.string(),
     idDocumentUri: z.string().min(1),
     selfieUri: z.string().min(1),
     idDocumentType: z.string().min(1).default("unknown")
@@ -437,7 +625,7 @@ app.post("/verification/submit", async (req, res) => {
 
   try {
     const result = await submitVerification(
-      parsed.data.userId,
+      authUserId(res),
       parsed.data.idDocumentUri,
       parsed.data.selfieUri,
       parsed.data.idDocumentType
@@ -491,6 +679,18 @@ app.get("/admin/users", adminRateLimit, requireAdminAccess, async (req, res) =>
   }
 });
 
+app.get("/admin/users/:userId/login-events", adminRateLimit, requireAdminAccess, async (req, res) => {
+  const outcome = String(req.query.outcome ?? "failed") === "all" ? "all" : "failed";
+  const limit = Math.max(1, Math.min(Number(req.query.limit ?? 50), 200));
+  const offset = Math.max(0, Number(req.query.offset ?? 0));
+  try {
+    const rows = await listLoginEvents(String(req.params.userId), { outcome, limit, offset });
+    return res.json(rows);
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
 app.post("/admin/verifications/:submissionId/review", adminRateLimit, requireAdminAccess, async (req, res) => {
   const schema = z.object({
     decision: z.enum(["approved", "rejected"]),
@@ -503,7 +703,7 @@ app.post("/admin/verifications/:submissionId/review", adminRateLimit, requireAdm
 
   try {
     const submissionId = String(req.params.submissionId);
-    const adminUserId = await resolveAdminActorId(req);
+    const adminUserId = adminActorId(res);
     const result = await reviewVerificationSubmission(
       submissionId,
       parsed.data.decision,
@@ -526,7 +726,7 @@ app.post("/admin/users/:userId/ban", adminRateLimit, requireAdminAccess, async (
   }
 
   try {
-    const adminUserId = await resolveAdminActorId(req);
+    const adminUserId = adminActorId(res);
     const result = await banUserByAdmin(adminUserId, String(req.params.userId), parsed.data.reason);
     return res.json(result);
   } catch (err) {
@@ -536,7 +736,7 @@ app.post("/admin/users/:userId/ban", adminRateLimit, requireAdminAccess, async (
 
 app.post("/admin/users/:userId/unban", adminRateLimit, requireAdminAccess, async (req, res) => {
   try {
-    const adminUserId = await resolveAdminActorId(req);
+    const adminUserId = adminActorId(res);
     const result = await unbanUserByAdmin(adminUserId, String(req.params.userId));
     return res.json(result);
   } catch (err) {
@@ -555,7 +755,7 @@ app.post("/admin/users/:userId/plan-tier", adminRateLimit, requireAdminAccess, a
   }
 
   try {
-    const adminUserId = await resolveAdminActorId(req);
+    const adminUserId = adminActorId(res);
     const result = await setUserPlanTierByAdmin(
       adminUserId,
       String(req.params.userId),
@@ -590,9 +790,8 @@ app.post("/analytics/events", userActionRateLimit, async (req, res) => {
   }
 });
 
-app.post("/reports", userActionRateLimit, async (req, res) => {
+app.post("/reports", userActionRateLimit, requireUserAuth, async (req, res) => {
   const schema = z.object({
-    reporterUserId: z.string(),
     targetUserId: z.string(),
     reason: z.string().min(3).max(120),
     details: z.string().max(1000).optional()
@@ -603,7 +802,7 @@ app.post("/reports", userActionRateLimit, async (req, res) => {
   }
   try {
     const row = await createUserReport(
-      parsed.data.reporterUserId,
+      authUserId(res),
       parsed.data.targetUserId,
       parsed.data.reason,
       parsed.data.details
@@ -614,6 +813,137 @@ app.post("/reports", userActionRateLimit, async (req, res) => {
   }
 });
 
+app.get("/admin/reports", adminRateLimit, requireAdminAccess, async (req, res) => {
+  const status = String(req.query.status ?? "open");
+  const validStatus = ["open", "reviewed", "closed", "all"].includes(status)
+    ? (status as "open" | "reviewed" | "closed" | "all")
+    : "open";
+  const source = String(req.query.source ?? "all");
+  const validSource = ["user", "moderation", "all"].includes(source)
+    ? (source as "user" | "moderation" | "all")
+    : "all";
+  const targetUserId = req.query.targetUserId ? String(req.query.targetUserId) : undefined;
+  const reason = req.query.reason ? String(req.query.reason) : "";
+  const limit = Math.max(1, Math.min(Number(req.query.limit ?? 50), 200));
+  const offset = Math.max(0, Number(req.query.offset ?? 0));
+  try {
+    const rows = await listUserReports({ status: validStatus, source: validSource, targetUserId, reason, limit, offset });
+    return res.json(rows);
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.get("/admin/reports/:reportId", adminRateLimit, requireAdminAccess, async (req, res) => {
+  try {
+    const row = await getUserReportDetail(String(req.params.reportId));
+    return res.json(row);
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.post("/admin/reports/:reportId/resolve", adminRateLimit, requireAdminAccess, async (req, res) => {
+  const schema = z.object({
+    action: z.enum(["dismiss", "warn", "ban", "close_pair"]),
+    note: z.string().max(280).optional()
+  });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.flatten() });
+  }
+
+  try {
+    const adminUserId = adminActorId(res);
+    const result = await resolveUserReport(
+      adminUserId,
+      String(req.params.reportId),
+      parsed.data.action,
+      parsed.data.note
+    );
+    return res.json(result);
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.get("/admin/audit-logs", adminRateLimit, requireAdminAccess, async (req, res) => {
+  const filters = {
+    adminUserId: req.query.adminUserId ? String(req.query.adminUserId) : undefined,
+    action: req.query.action ? String(req.query.action) : undefined,
+    targetUserId: req.query.targetUserId ? String(req.query.targetUserId) : undefined,
+    from: req.query.from ? String(req.query.from) : undefined,
+    to: req.query.to ? String(req.query.to) : undefined
+  };
+  const format = String(req.query.format ?? "json");
+
+  if (format !== "csv" && format !== "ndjson") {
+    try {
+      const page = await listAdminAuditLogs(filters, {
+        limit: Number(req.query.limit ?? 50),
+        cursor: req.query.cursor ? String(req.query.cursor) : null
+      });
+      return res.json(page);
+    } catch (err) {
+      return res.status(400).json({ error: (err as Error).message });
+    }
+  }
+
+  const batches = iterateAdminAuditLogs(filters);
+  let first: IteratorResult<AuditLogRow[]>;
+  try {
+    first = await batches.next();
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+
+  const stamp = new Date().toISOString().slice(0, 10);
+  res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson");
+  res.setHeader("Content-Disposition", `attachment; filename="audit-logs-${stamp}.${format}"`);
+  if (format === "csv") {
+    res.write(`${AUDIT_LOG_CSV_HEADER}\n`);
+  }
+  const writeRows = (rows: AuditLogRow[]) => {
+    for (const row of rows) {
+      res.write(`${format === "csv" ? formatAuditLogCsvRow(row) : JSON.stringify(row)}\n`);
+    }
+  };
+
+  try {
+    if (!first.done) {
+      writeRows(first.value);
+    }
+    for await (const rows of batches) {
+      writeRows(rows);
+    }
+  } catch (err) {
+    captureBackendError(err, { stage: "audit_log_export" });
+  }
+  return res.end();
+});
+
+app.get("/admin/rate-limits", adminRateLimit, requireAdminAccess, async (_req, res) => {
+  try {
+    const rows = await getRateLimitStore().listLockouts(Date.now());
+    return res.json({ rows });
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.delete("/admin/rate-limits/:key", adminRateLimit, requireAdminAccess, async (req, res) => {
+  try {
+    const cleared = await getRateLimitStore().reset(String(req.params.key));
+    return res.json({ ok: true, cleared });
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.get("/admin/discovery/ranking", adminRateLimit, requireAdminAccess, (_req, res) => {
+  return res.json({ ranker: getDiscoveryRanker().name, variants: getRankingVariants() });
+});
+
 app.post("/admin/maintenance/purge-verification", adminRateLimit, requireAdminAccess, async (_req, res) => {
   try {
     const row = await purgeExpiredVerificationSubmissions();
@@ -623,16 +953,22 @@ app.post("/admin/maintenance/purge-verification", adminRateLimit, requireAdminAc
   }
 });
 
-app.get("/discovery/:userId", async (req, res) => {
+app.get("/discovery/:userId", requireUserAuth, requireSelfParam, async (req, res) => {
   try {
-    await assertVerifiedUser(req.params.userId);
-    res.json(await listDiscoveryProfiles(req.params.userId));
+    await assertVerifiedUser(authUserId(res));
+    res.json(
+      await listDiscoveryProfiles(authUserId(res), {
+        limit: Number(req.query.limit ?? 20),
+        cursor: req.query.cursor ? String(req.query.cursor) : null,
+        refresh: String(req.query.refresh ?? "").toLowerCase() === "true"
+      })
+    );
   } catch (err) {
     res.status(400).json({ error: (err as Error).message });
   }
 });
 
-app.post("/users/:userId/location", async (req, res) => {
+app.post("/users/:userId/location", requireUserAuth, requireSelfParam, async (req, res) => {
   const schema = z.object({
     latitude: z.number().min(-90).max(90),
     longitude: z.number().min(-180).max(180)
@@ -643,14 +979,14 @@ app.post("/users/:userId/location", async (req, res) => {
   }
 
   try {
-    const row = await updateUserLocation(req.params.userId, parsed.data.latitude, parsed.data.longitude);
+    const row = await updateUserLocation(authUserId(res), parsed.data.latitude, parsed.data.longitude);
     return res.json(row);
   } catch (err) {
     return res.status(400).json({ error: (err as Error).message });
   }
 });
 
-app.post("/users/:userId/push-token", async (req, res) => {
+app.post("/users/:userId/push-token", requireUserAuth, requireSelfParam, async (req, res) => {
   const schema = z.object({
     expoPushToken: z.string().min(1),
     platform: z.string().optional().default("unknown")
@@ -662,9 +998,10 @@ app.post("/users/:userId/push-token", async (req, res) => {
 
   try {
     const row = await registerPushTokenForUser(
-      String(req.params.userId),
+      authUserId(res),
       parsed.data.expoPushToken,
-      parsed.data.platform
+      parsed.data.platform,
+      (res.locals.auth as AuthContext).sessionId
     );
     return res.json(row);
   } catch (err) {
@@ -672,7 +1009,7 @@ app.post("/users/:userId/push-token", async (req, res) => {
   }
 });
 
-app.post("/users/:userId/preferences/distance", async (req, res) => {
+app.post("/users/:userId/preferences/distance", requireUserAuth, requireSelfParam, async (req, res) => {
   const schema = z.object({
     maxDistanceMiles: z.number().min(1).max(150)
   });
@@ -682,14 +1019,39 @@ app.post("/users/:userId/preferences/distance", async (req, res) => {
   }
 
   try {
-    const row = await updateUserDistancePreference(req.params.userId, parsed.data.maxDistanceMiles);
+    const row = await updateUserDistancePreference(authUserId(res), parsed.data.maxDistanceMiles);
+    return res.json(row);
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.post("/users/:userId/preferences/visibility", requireUserAuth, requireSelfParam, async (req, res) => {
+  const schema = z
+    .object({
+      discoverable: z.boolean().optional(),
+      discoveryVisibility: z.enum(["everyone", "liked_only"]).optional(),
+      shareLastActive: z.boolean().optional()
+    })
+    .refine(
+      (value) =>
+        value.discoverable !== undefined || value.discoveryVisibility !== undefined || value.shareLastActive !== undefined,
+      { message: "Nothing to update." }
+    );
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.flatten() });
+  }
+
+  try {
+    const row = await updateUserVisibility(authUserId(res), parsed.data);
     return res.json(row);
   } catch (err) {
     return res.status(400).json({ error: (err as Error).message });
   }
 });
 
-app.post("/users/:userId/profile", async (req, res) => {
+app.post("/users/:userId/profile", requireUserAuth, requireSelfParam, async (req, res) => {
   const schema = z
     .object({
       firstName: z.string().min(1).max(60).optional(),
@@ -724,25 +1086,32 @@ app.post("/users/:userId/profile", async (req, res) => {
   }
 
   try {
-    const row = await updateUserProfile(req.params.userId, parsed.data);
+    const row = await updateUserProfile(authUserId(res), parsed.data);
     return res.json(row);
   } catch (err) {
     return res.status(400).json({ error: (err as Error).message });
   }
 });
 
-app.get("/matches", async (req, res) => {
-  const userId = req.query.userId ? String(req.query.userId) : undefined;
+app.get("/matches", requireUserAuth, async (req, res) => {
   const limit = Math.max(1, Math.min(Number(req.query.limit ?? 50), 200));
-  const offset = Math.max(0, Number(req.query.offset ?? 0));
+  const cursor = req.query.cursor ? String(req.query.cursor) : null;
+  try {
+    res.json(await listMatches(authUserId(res), { limit, cursor }));
+  } catch (err) {
+    res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.get("/matches/profiles", requireUserAuth, async (_req, res) => {
   try {
-    res.json(await listMatches(userId, { limit, offset }));
+    res.json(await listMatchProfiles(authUserId(res)));
   } catch (err) {
     res.status(500).json({ error: (err as Error).message });
   }
 });
 
-app.get("/offers", async (_req, res) => {
+app.get("/offers", adminRateLimit, requireAdminAccess, async (_req, res) => {
   try {
     res.json(await listOffers());
   } catch (err) {
@@ -750,9 +1119,22 @@ app.get("/offers", async (_req, res) => {
   }
 });
 
-app.post("/swipes", userActionRateLimit, async (req, res) => {
+app.get("/offers/mine", requireUserAuth, async (req, res) => {
+  const status = req.query.status ? String(req.query.status) : undefined;
+  if (status && !["pending", "accepted", "declined", "expired", "location_expired"].includes(status)) {
+    return res.status(400).json({ error: "Invalid offer status." });
+  }
+  const limit = Math.max(1, Math.min(Number(req.query.limit ?? 50), 200));
+  const offset = Math.max(0, Number(req.query.offset ?? 0));
+  try {
+    return res.json(await listOffersForUser(authUserId(res), { status, limit, offset }));
+  } catch (err) {
+    return res.status(500).json({ error: (err as Error).message });
+  }
+});
+
+app.post("/swipes", userActionRateLimit, requireUserAuth, async (req, res) => {
   const schema = z.object({
-    fromUserId: z.string(),
     toUserId: z.string(),
     decision: z.enum(["left", "right"])
   });
@@ -762,20 +1144,41 @@ app.post("/swipes", userActionRateLimit, async (req, res) => {
   }
 
   try {
-    await assertVerifiedUser(parsed.data.fromUserId);
+    const fromUserId = authUserId(res);
+    await assertVerifiedUser(fromUserId);
     await assertVerifiedUser(parsed.data.toUserId);
-    const result = await swipe(parsed.data.fromUserId, parsed.data.toUserId, parsed.data.decision);
+    const result = await swipe(fromUserId, parsed.data.toUserId, parsed.data.decision);
     return res.json(result);
+  } catch (err) {
+    if (err instanceof SwipeLimitError) {
+      return res.status(429).json({ error: err.message, code: err.code, quota: err.quota });
+    }
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.get("/swipes/quota", requireUserAuth, async (_req, res) => {
+  try {
+    return res.json(await getSwipeQuota(authUserId(res)));
   } catch (err) {
     return res.status(400).json({ error: (err as Error).message });
   }
 });
 
-app.post("/messages", userActionRateLimit, async (req, res) => {
+app.post("/swipes/undo", userActionRateLimit, requireUserAuth, async (_req, res) => {
+  try {
+    return res.json(await undoLastSwipe(authUserId(res)));
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.post("/messages", userActionRateLimit, requireUserAuth, async (req, res) => {
   const schema = z.object({
     matchId: z.string(),
-    senderUserId: z.string(),
-    body: z.string().min(1)
+    body: z.string().default(""),
+    acknowledgeWarning: z.boolean().optional(),
+    attachment: z.object({ uploadId: z.string().min(1) }).optional()
   });
   const parsed = schema.safeParse(req.body);
   if (!parsed.success) {
@@ -783,122 +1186,184 @@ app.post("/messages", userActionRateLimit, async (req, res) => {
   }
 
   try {
-    await assertVerifiedUser(parsed.data.senderUserId);
-    const result = await sendMessage(parsed.data.matchId, parsed.data.senderUserId, parsed.data.body);
+    const senderUserId = authUserId(res);
+    await assertVerifiedUser(senderUserId);
+    const result = await sendMessage(parsed.data.matchId, senderUserId, parsed.data.body, {
+      acknowledgeWarning: parsed.data.acknowledgeWarning,
+      attachment: parsed.data.attachment
+    });
     return res.json(result);
   } catch (err) {
+    if (err instanceof MessageModerationError) {
+      return res.status(422).json({
+        error: err.message,
+        code: err.code,
+        moderation: { verdict: err.moderation.verdict, findings: err.moderation.findings }
+      });
+    }
     return res.status(400).json({ error: (err as Error).message });
   }
 });
 
-app.get("/messages/:matchId", async (req, res) => {
+app.post("/messages/:matchId/reactions", userActionRateLimit, requireUserAuth, async (req, res) => {
+  const schema = z.object({
+    messageId: z.string(),
+    emoji: z.enum(MESSAGE_REACTIONS).nullable()
+  });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.flatten() });
+  }
+  try {
+    const result = await reactToMessage(
+      String(req.params.matchId),
+      parsed.data.messageId,
+      authUserId(res),
+      parsed.data.emoji
+    );
+    return res.json(result);
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.get("/messages/:matchId", requireUserAuth, async (req, res) => {
   const limit = Math.max(1, Math.min(Number(req.query.limit ?? 100), 300));
   const before = req.query.before ? String(req.query.before) : null;
   try {
-    const rows = await listMessages(req.params.matchId, { limit, before });
+    const rows = await listMessages(String(req.params.matchId), authUserId(res), { limit, before });
     return res.json(rows);
   } catch (err) {
     return res.status(400).json({ error: (err as Error).message });
   }
 });
 
-app.post("/meet-decisions", userActionRateLimit, async (req, res) => {
+app.post("/messages/:matchId/read", userActionRateLimit, requireUserAuth, async (req, res) => {
   const schema = z.object({
-    matchId: z.string(),
-    userId: z.string(),
-    decision: z.enum(["yes", "no"])
+    messageId: z.string().optional()
   });
-
-  const parsed = schema.safeParse(req.body);
+  const parsed = schema.safeParse(req.body ?? {});
   if (!parsed.success) {
     return res.status(400).json({ error: parsed.error.flatten() });
   }
 
   try {
-    await assertVerifiedUser(parsed.data.userId);
-    const result = await setMeetDecision(parsed.data.matchId, parsed.data.userId, parsed.data.decision);
+    const result = await markMessagesRead(String(req.params.matchId), authUserId(res), {
+      messageId: parsed.data.messageId ?? null
+    });
     return res.json(result);
   } catch (err) {
     return res.status(400).json({ error: (err as Error).message });
   }
 });
 
-app.post("/matches/:matchId/unmatch", userActionRateLimit, async (req, res) => {
-  const schema = z.object({ userId: z.string() });
+app.post("/messages/:matchId/typing", typingRateLimit, requireUserAuth, async (req, res) => {
+  const schema = z.object({
+    typing: z.boolean()
+  });
   const parsed = schema.safeParse(req.body);
   if (!parsed.success) {
     return res.status(400).json({ error: parsed.error.flatten() });
   }
+
+  try {
+    return res.json(await sendTypingIndicator(String(req.params.matchId), authUserId(res), parsed.data.typing));
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.get("/matches/:matchId/presence", requireUserAuth, async (req, res) => {
   try {
-    await assertVerifiedUser(parsed.data.userId);
-    return res.json(await unmatchPair(String(req.params.matchId), parsed.data.userId));
+    return res.json(await getMatchPresence(String(req.params.matchId), authUserId(res)));
   } catch (err) {
     return res.status(400).json({ error: (err as Error).message });
   }
 });
 
-app.post("/matches/:matchId/block", userActionRateLimit, async (req, res) => {
-  const schema = z.object({ userId: z.string() });
+app.post("/meet-decisions", userActionRateLimit, requireUserAuth, async (req, res) => {
+  const schema = z.object({
+    matchId: z.string(),
+    decision: z.enum(["yes", "no"])
+  });
+
   const parsed = schema.safeParse(req.body);
   if (!parsed.success) {
     return res.status(400).json({ error: parsed.error.flatten() });
   }
+
   try {
-    await assertVerifiedUser(parsed.data.userId);
-    return res.json(await blockPair(String(req.params.matchId), parsed.data.userId));
+    const userId = authUserId(res);
+    await assertVerifiedUser(userId);
+    const result = await setMeetDecision(parsed.data.matchId, userId, parsed.data.decision);
+    return res.json(result);
   } catch (err) {
     return res.status(400).json({ error: (err as Error).message });
   }
 });
 
-app.post("/availability/start", userActionRateLimit, async (req, res) => {
-  const schema = z.object({ initiatorUserId: z.string() });
-  const parsed = schema.safeParse(req.body);
-  if (!parsed.success) {
-    return res.status(400).json({ error: parsed.error.flatten() });
+app.post("/matches/:matchId/unmatch", userActionRateLimit, requireUserAuth, async (req, res) => {
+  try {
+    const userId = authUserId(res);
+    await assertVerifiedUser(userId);
+    return res.json(await unmatchPair(String(req.params.matchId), userId));
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
   }
+});
+
+app.post("/matches/:matchId/block", userActionRateLimit, requireUserAuth, async (req, res) => {
+  try {
+    const userId = authUserId(res);
+    await assertVerifiedUser(userId);
+    return res.json(await blockPair(String(req.params.matchId), userId));
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
 
+app.post("/availability/start", userActionRateLimit, requireUserAuth, async (req, res) => {
   try {
-    await assertVerifiedUser(parsed.data.initiatorUserId);
-    const session = await startAvailability(parsed.data.initiatorUserId);
-    const candidates = await listInterestedCandidates(session.id);
+    const initiatorUserId = authUserId(res);
+    await assertVerifiedUser(initiatorUserId);
+    const session = await startAvailability(initiatorUserId);
+    const candidates = await listInterestedCandidates(session.id, initiatorUserId);
     return res.json({ session, candidates });
   } catch (err) {
     return res.status(400).json({ error: (err as Error).message });
   }
 });
 
-app.get("/availability/:sessionId", async (req, res) => {
+app.get("/availability/:sessionId", requireUserAuth, async (req, res) => {
   try {
-    const state = await getAvailabilityState(req.params.sessionId);
+    const state = await getAvailabilityState(String(req.params.sessionId), authUserId(res));
     return res.json(state);
   } catch (err) {
     return res.status(400).json({ error: (err as Error).message });
   }
 });
 
-app.get("/availability/:sessionId/candidates", async (req, res) => {
+app.get("/availability/:sessionId/candidates", requireUserAuth, async (req, res) => {
   try {
-    const candidates = await listInterestedCandidates(req.params.sessionId);
+    const candidates = await listInterestedCandidates(String(req.params.sessionId), authUserId(res));
     return res.json(candidates);
   } catch (err) {
     return res.status(400).json({ error: (err as Error).message });
   }
 });
 
-app.get("/availability/incoming/:userId", async (req, res) => {
+app.get("/availability/incoming/:userId", requireUserAuth, requireSelfParam, async (req, res) => {
   try {
-    const rows = await listIncomingAvailabilityForUser(String(req.params.userId));
+    const rows = await listIncomingAvailabilityForUser(authUserId(res));
     return res.json(rows);
   } catch (err) {
     return res.status(400).json({ error: (err as Error).message });
   }
 });
 
-app.post("/availability/respond-interest", userActionRateLimit, async (req, res) => {
+app.post("/availability/respond-interest", userActionRateLimit, requireUserAuth, async (req, res) => {
   const schema = z.object({
     sessionId: z.string(),
-    userId: z.string(),
     response: z.enum(["yes", "no"])
   });
   const parsed = schema.safeParse(req.body);
@@ -907,10 +1372,11 @@ app.post("/availability/respond-interest", userActionRateLimit, async (req, res)
   }
 
   try {
-    await assertVerifiedUser(parsed.data.userId);
+    const userId = authUserId(res);
+    await assertVerifiedUser(userId);
     const row = await respondAvailabilityInterest(
       parsed.data.sessionId,
-      parsed.data.userId,
+      userId,
       parsed.data.response
     );
     return res.json(row);
@@ -919,29 +1385,38 @@ app.post("/availability/respond-interest", userActionRateLimit, async (req, res)
   }
 });
 
-app.post("/availability/:sessionId/close", userActionRateLimit, async (req, res) => {
-  const schema = z.object({ initiatorUserId: z.string() });
-  const parsed = schema.safeParse(req.body);
-  if (!parsed.success) {
-    return res.status(400).json({ error: parsed.error.flatten() });
+app.post("/availability/:sessionId/close", userActionRateLimit, requireUserAuth, async (req, res) => {
+  try {
+    const initiatorUserId = authUserId(res);
+    await assertVerifiedUser(initiatorUserId);
+    const result = await closeAvailability(String(req.params.sessionId), initiatorUserId);
+    return res.json(result);
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
   }
+});
 
+app.get("/places/nearby", requireUserAuth, async (req, res) => {
+  const matchId = String(req.query.matchId ?? "").trim();
+  if (!matchId) {
+    return res.status(400).json({ error: "matchId is required." });
+  }
   try {
-    await assertVerifiedUser(parsed.data.initiatorUserId);
-    const result = await closeAvailability(String(req.params.sessionId), parsed.data.initiatorUserId);
+    const result = await listNearbyPlacesForMatch(matchId, authUserId(res), {
+      radiusMiles: req.query.radiusMiles ? Number(req.query.radiusMiles) : undefined,
+      limit: req.query.limit ? Number(req.query.limit) : undefined
+    });
     return res.json(result);
   } catch (err) {
     return res.status(400).json({ error: (err as Error).message });
   }
 });
 
-app.post("/offers", userActionRateLimit, async (req, res) => {
+app.post("/offers", userActionRateLimit, requireUserAuth, async (req, res) => {
   const schema = z.object({
     sessionId: z.string(),
-    initiatorUserId: z.string(),
     recipientUserId: z.string(),
-    placeId: z.string(),
-    placeLabel: z.string().min(1)
+    placeId: z.string()
   });
 
   const parsed = schema.safeParse(req.body);
@@ -950,14 +1425,14 @@ app.post("/offers", userActionRateLimit, async (req, res) => {
   }
 
   try {
-    await assertVerifiedUser(parsed.data.initiatorUserId);
+    const initiatorUserId = authUserId(res);
+    await assertVerifiedUser(initiatorUserId);
     await assertVerifiedUser(parsed.data.recipientUserId);
     const offer = await createMeetupOffer(
       parsed.data.sessionId,
-      parsed.data.initiatorUserId,
+      initiatorUserId,
       parsed.data.recipientUserId,
-      parsed.data.placeId,
-      parsed.data.placeLabel
+      parsed.data.placeId
     );
     return res.json(offer);
   } catch (err) {
@@ -965,10 +1440,9 @@ app.post("/offers", userActionRateLimit, async (req, res) => {
   }
 });
 
-app.post("/offers/respond", userActionRateLimit, async (req, res) => {
+app.post("/offers/respond", userActionRateLimit, requireUserAuth, async (req, res) => {
   const schema = z.object({
     offerId: z.string(),
-    recipientUserId: z.string(),
     accept: z.boolean()
   });
 
@@ -978,23 +1452,98 @@ app.post("/offers/respond", userActionRateLimit, async (req, res) => {
   }
 
   try {
-    await assertVerifiedUser(parsed.data.recipientUserId);
-    const result = await respondToOffer(parsed.data.offerId, parsed.data.recipientUserId, parsed.data.accept);
+    const recipientUserId = authUserId(res);
+    await assertVerifiedUser(recipientUserId);
+    const result = await respondToOffer(parsed.data.offerId, recipientUserId, parsed.data.accept);
     return res.json(result);
   } catch (err) {
     return res.status(400).json({ error: (err as Error).message });
   }
 });
 
-app.post("/offers/:offerId/expire-location", async (req, res) => {
+app.post("/offers/:offerId/expire-location", requireUserAuth, async (req, res) => {
   try {
-    const offer = await expireLocationIfNeeded(req.params.offerId);
+    const offer = await expireLocationIfNeeded(String(req.params.offerId), authUserId(res));
     return res.json(offer);
   } catch (err) {
     return res.status(400).json({ error: (err as Error).message });
   }
 });
 
+app.get("/safety/contacts", requireUserAuth, async (_req, res) => {
+  try {
+    return res.json(await listTrustedContacts(authUserId(res)));
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.post("/safety/contacts", userActionRateLimit, requireUserAuth, async (req, res) => {
+  const schema = z.object({
+    name: z.string().min(1).max(80),
+    phone: z.string().max(32).optional().nullable(),
+    email: z.string().email().optional().nullable()
+  });
+  const parsed = schema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.flatten() });
+  }
+
+  try {
+    return res.json(await addTrustedContact(authUserId(res), parsed.data));
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.delete("/safety/contacts/:contactId", userActionRateLimit, requireUserAuth, async (req, res) => {
+  try {
+    return res.json(await removeTrustedContact(authUserId(res), String(req.params.contactId)));
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.get("/safety/checkins/active", requireUserAuth, async (_req, res) => {
+  try {
+    return res.json({ checkin: await getActiveSafetyCheckin(authUserId(res)) });
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.post("/safety/checkins/:checkinId/ok", userActionRateLimit, requireUserAuth, async (req, res) => {
+  try {
+    return res.json(await confirmSafetyCheckin(authUserId(res), String(req.params.checkinId)));
+  } catch (err) {
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.post("/safety/panic", requireUserAuth, async (req, res) => {
+  const schema = z.object({
+    offerId: z.string().optional().nullable(),
+    latitude: z.number().min(-90).max(90).optional().nullable(),
+    longitude: z.number().min(-180).max(180).optional().nullable()
+  });
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.flatten() });
+  }
+
+  try {
+    return res.json(await recordPanic(authUserId(res), parsed.data));
+  } catch (err) {
+    captureBackendError(err, { route: "/safety/panic" });
+    return res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+app.get("/events", requireUserAuth, (req, res) => {
+  const unsubscribe = subscribeToEvents(authUserId(res), res);
+  req.on("close", unsubscribe);
+});
+
 const PORT = Number(process.env.PORT ?? 4000);
 
 async function start() {
@@ -1011,9 +1560,11 @@ async function start() {
       })
     );
   }
+  await startRealtime();
   app.listen(PORT, () => {
     console.log(`Vicino backend listening on :${PORT}`);
   });
+  startBackgroundJobs();
 }
 
 start().catch((err) => {
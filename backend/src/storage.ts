@@ -0,0 +1,160 @@
+import fs from "node:fs";
+import https from "node:https";
+import path from "node:path";
+import { createHash, createHmac } from "node:crypto";
+
+const AWS_REGION = process.env.AWS_REGION?.trim();
+const AWS_ACCESS_KEY_ID = process.env.AWS_ACCESS_KEY_ID?.trim();
+const AWS_SECRET_ACCESS_KEY = process.env.AWS_SECRET_ACCESS_KEY?.trim();
+const AWS_S3_BUCKET = process.env.AWS_S3_BUCKET?.trim();
+const AWS_S3_PUBLIC_BASE_URL = process.env.AWS_S3_PUBLIC_BASE_URL?.trim().replace(/\/+$/, "");
+export const REQUIRE_S3_UPLOADS =
+  String(process.env.REQUIRE_S3_UPLOADS ?? (process.env.NODE_ENV === "production" ? "true" : "false"))
+    .trim()
+    .toLowerCase() === "true";
+
+export const uploadsDir = path.join(process.cwd(), "uploads");
+fs.mkdirSync(uploadsDir, { recursive: true });
+
+const S3_CONFIG_KEYS = [AWS_REGION, AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_S3_BUCKET];
+export const s3Configured = S3_CONFIG_KEYS.every((value) => Boolean(value));
+const s3PartiallyConfigured = S3_CONFIG_KEYS.some((value) => Boolean(value)) && !s3Configured;
+if (s3PartiallyConfigured) {
+  throw new Error(
+    "Incomplete S3 config: set AWS_REGION, AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, and AWS_S3_BUCKET together."
+  );
+}
+if (REQUIRE_S3_UPLOADS && !s3Configured) {
+  throw new Error(
+    "S3 uploads are required but S3 is not configured. Set AWS_REGION, AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, and AWS_S3_BUCKET."
+  );
+}
+
+// Every stored upload lives under this prefix, both as the S3 key and as the
+// path of locally served files.
+const UPLOAD_KEY_PREFIX = "uploads/";
+const UPLOAD_NAME_PATTERN = /^[\w.-]+$/;
+
+function sha256Hex(input: Buffer | string) {
+  return createHash("sha256").update(input).digest("hex");
+}
+
+function hmac(key: Buffer | string, data: string) {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+function toAmzDate(date: Date) {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+}
+
+function toDateStamp(date: Date) {
+  return toAmzDate(date).slice(0, 8);
+}
+
+function encodeS3Key(key: string) {
+  return key
+    .split("/")
+    .map((part) => encodeURIComponent(part))
+    .join("/");
+}
+
+function s3Host() {
+  return `${AWS_S3_BUCKET}.s3.${AWS_REGION}.amazonaws.com`;
+}
+
+function s3PublicBase() {
+  return AWS_S3_PUBLIC_BASE_URL || `https://${s3Host()}`;
+}
+
+// Signs and sends one SigV4 request for a single object in the bucket.
+async function s3Request(input: { method: "PUT" | "DELETE"; key: string; body?: Buffer; mimeType?: string }) {
+  if (!s3Configured || !AWS_REGION || !AWS_ACCESS_KEY_ID || !AWS_SECRET_ACCESS_KEY || !AWS_S3_BUCKET) {
+    throw new Error("S3 is not configured.");
+  }
+
+  const host = s3Host();
+  const body = input.body ?? Buffer.alloc(0);
+  const now = new Date();
+  const amzDate = toAmzDate(now);
+  const dateStamp = toDateStamp(now);
+  const payloadHash = sha256Hex(body);
+  const canonicalUri = `/${encodeS3Key(input.key)}`;
+  const canonicalHeaders =
+    (input.mimeType ? `content-type:${input.mimeType}\n` : "") +
+    `host:${host}\n` +
+    `x-amz-content-sha256:${payloadHash}\n` +
+    `x-amz-date:${amzDate}\n`;
+  const signedHeaders = `${input.mimeType ? "content-type;" : ""}host;x-amz-content-sha256;x-amz-date`;
+  const canonicalRequest = `${input.method}\n${canonicalUri}\n\n${canonicalHeaders}\n${signedHeaders}\n${payloadHash}`;
+  const credentialScope = `${dateStamp}/${AWS_REGION}/s3/aws4_request`;
+  const stringToSign =
+    `AWS4-HMAC-SHA256\n${amzDate}\n${credentialScope}\n${sha256Hex(canonicalRequest)}`;
+
+  const kDate = hmac(`AWS4${AWS_SECRET_ACCESS_KEY}`, dateStamp);
+  const kRegion = hmac(kDate, AWS_REGION);
+  const kService = hmac(kRegion, "s3");
+  const kSigning = hmac(kService, "aws4_request");
+  const signature = createHmac("sha256", kSigning).update(stringToSign).digest("hex");
+
+  const authorization =
+    `AWS4-HMAC-SHA256 Credential=${AWS_ACCESS_KEY_ID}/${credentialScope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+
+  await new Promise<void>((resolve, reject) => {
+    const req = https.request(
+      {
+        host,
+        method: input.method,
+        path: canonicalUri,
+        headers: {
+          ...(input.mimeType ? { "content-type": input.mimeType } : {}),
+          "content-length": String(body.length),
+          "x-amz-date": amzDate,
+          "x-amz-content-sha256": payloadHash,
+          Authorization: authorization
+        }
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk) => chunks.push(Buffer.from(chunk)));
+        res.on("end", () => {
+          const bodyText = Buffer.concat(chunks).toString("utf8");
+          if ((res.statusCode ?? 500) >= 200 && (res.statusCode ?? 500) < 300) {
+            resolve();
+            return;
+          }
+          reject(new Error(`S3 ${input.method.toLowerCase()} failed (${res.statusCode}): ${bodyText || "Unknown error"}`));
+        });
+      }
+    );
+    req.on("error", reject);
+    req.write(body);
+    req.end();
+  });
+}
+
+export async function uploadToS3(input: {
+  key: string;
+  body: Buffer;
+  mimeType: string;
+}) {
+  await s3Request({ method: "PUT", key: input.key, body: input.body, mimeType: input.mimeType });
+  return `${s3PublicBase()}/${encodeS3Key(input.key)}`;
+}
+
+export async function deleteFromS3(key: string) {
+  await s3Request({ method: "DELETE", key });
+}
+
+// Deletes a file stored by /uploads, by the name it was stored under (the
+// `stored_name` of its uploads row).
+export async function deleteStoredUpload(name: string) {
+  if (!UPLOAD_NAME_PATTERN.test(name)) {
+    return;
+  }
+  if (s3Configured) {
+    await deleteFromS3(`${UPLOAD_KEY_PREFIX}${name}`);
+    return;
+  }
+  await fs.promises.rm(path.join(uploadsDir, name), { force: true });
+}
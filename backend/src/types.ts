@@ -30,6 +30,7 @@ export interface Match {
   totalMessages: number;
   meetDecisionByUser: Partial<Record<string, MeetDecision>>;
   coordinationEndsAt?: Date;
+  coordinationExpired?: boolean;
 }
 
 export interface Message {
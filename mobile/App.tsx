@@ -28,6 +28,8 @@ import {
   postReportUser,
   postUserLocation,
   postUserPushToken,
+  postVerifyEmail,
+  setApiAuthToken,
   type ApiUser,
   type VerificationStatus
 } from "./src/api";
@@ -48,6 +50,7 @@ import { initMobileSentry } from "./src/sentry";
 const AUTH_TOKEN_KEY = "vicino_auth_token";
 const LOCATION_SYNC_MS = 3 * 60 * 1000;
 const SCREEN_HEIGHT = Dimensions.get("window").height;
+const AUTH_LINK_PATTERN = /\/(reset-password|verify-email)\?(?:.*&)?token=([A-Za-z0-9]+)/;
 
 function VicinoApp() {
   const [fontsLoaded] = useFonts({
@@ -69,10 +72,10 @@ function VicinoApp() {
   const [refreshing, setRefreshing] = useState(false);
   const [previewProfile, setPreviewProfile] = useState<ProfileCard | null>(null);
   const [lastPushToken, setLastPushToken] = useState<string | null>(null);
+  const [resetToken, setResetToken] = useState<string | null>(null);
   const menuTranslateY = useRef(new Animated.Value(-SCREEN_HEIGHT)).current;
 
   const canAccessApp = Boolean(user && (user.isAdmin || verification?.status === "approved"));
-  const showDevTools = __DEV__ && Boolean(user?.isAdmin);
   const activeUserId = canAccessApp && user ? user.id : null;
   const state = useVicinoState(activeUserId);
 
@@ -112,10 +115,12 @@ function VicinoApp() {
         return;
       }
       const session = await getAuthSession(token);
+      setApiAuthToken(token);
       setAuthToken(token);
       setUser(session.user);
       setVerification(session.verification);
     } catch (err) {
+      setApiAuthToken(null);
       setAuthToken(null);
       setUser(null);
       setVerification(null);
@@ -130,6 +135,34 @@ function VicinoApp() {
     void hydrateSession();
   }, []);
 
+  // Password reset and email verification emails link back into the app.
+  useEffect(() => {
+    const handleUrl = (url: string | null) => {
+      const match = url?.match(AUTH_LINK_PATTERN);
+      if (!match) {
+        return;
+      }
+      const [, action, token] = match;
+      if (action === "reset-password") {
+        setResetToken(token);
+        return;
+      }
+      postVerifyEmail(token)
+        .then(() => {
+          setUser((prev) => (prev ? { ...prev, emailVerified: true } : prev));
+          setNotice("Email confirmed.");
+        })
+        .catch((err) => setNotice((err as Error).message))
+        .finally(() => setTimeout(() => setNotice(null), 2600));
+    };
+
+    void Linking.getInitialURL().then(handleUrl).catch(() => null);
+    const sub = Linking.addEventListener("url", (event) => handleUrl(event.url));
+    return () => {
+      sub.remove();
+    };
+  }, []);
+
   useEffect(() => {
     if (!user?.isAdmin && state.tab === "admin") {
       state.setTab("swipe");
@@ -264,6 +297,7 @@ function VicinoApp() {
 
   const signIn = async (token: string, nextUser: ApiUser, nextVerification: VerificationStatus) => {
     await AsyncStorage.setItem(AUTH_TOKEN_KEY, token);
+    setApiAuthToken(token);
     setAuthToken(token);
     setUser(nextUser);
     setVerification(nextVerification);
@@ -275,6 +309,7 @@ function VicinoApp() {
       await postLogout(authToken).catch(() => null);
     }
     await AsyncStorage.removeItem(AUTH_TOKEN_KEY).catch(() => null);
+    setApiAuthToken(null);
     setAuthToken(null);
     setUser(null);
     setVerification(null);
@@ -292,7 +327,7 @@ function VicinoApp() {
       return;
     }
     try {
-      await postReportUser(user.id, targetUserId, "inappropriate_behavior");
+      await postReportUser(targetUserId, "inappropriate_behavior");
       setNotice("Report submitted. Our team will review.");
       setTimeout(() => setNotice(null), 2200);
     } catch (err) {
@@ -422,9 +457,11 @@ function VicinoApp() {
             <ScrollView contentContainerStyle={styles.scrollWrap}>
               <OnboardingScreen
                 currentUser={user}
+                resetToken={resetToken}
                 onSignedIn={(token, nextUser, nextVerification) => void signIn(token, nextUser, nextVerification)}
                 onSignedOut={() => void signOut()}
                 onVerificationUpdated={setVerification}
+                onResetTokenHandled={() => setResetToken(null)}
               />
               {authError ? <Text style={styles.errorText}>{authError}</Text> : null}
             </ScrollView>
@@ -443,6 +480,13 @@ function VicinoApp() {
                     card={state.topCard}
                     remaining={state.deck.length}
                     onSwipe={state.swipe}
+                    onUndo={state.canUndoSwipe ? state.undoSwipe : undefined}
+                    undoing={state.undoingSwipe}
+                    quota={state.swipeQuota}
+                    onUpgrade={() => {
+                      setMembershipOpen(true);
+                      void postAnalyticsEvent("view_paywall", user?.id, { source: "swipe_limit" }).catch(() => null);
+                    }}
                     swipeError={state.swipeError}
                     onDismissSwipeError={state.clearSwipeError}
                     onReport={(targetUserId) => void reportUserFromProfile(targetUserId)}
@@ -460,13 +504,13 @@ function VicinoApp() {
                   openChat={state.openChat}
                   closeChat={state.closeChat}
                   sendMessage={state.sendMessage}
-                  sendAutoReply={state.sendAutoReply}
+                  onReact={state.reactToMessage}
+                  onTyping={state.notifyTyping}
                   messageCapReached={state.messageCapReached}
                   setMeetDecision={state.setMeetDecision}
                   blockMatch={state.block}
                   unmatch={state.unmatch}
                   bothMeetYes={state.bothMeetYes}
-                  showDevTools={showDevTools}
                   refreshing={refreshing}
                   onRefresh={refreshContent}
                 />
@@ -486,11 +530,8 @@ function VicinoApp() {
                     eligibleOutCount={state.eligibleOutMatches.length}
                     startOutTonight={state.startOutTonight}
                     stopOutTonight={state.stopOutTonight}
-                    simulateCandidateResponses={state.simulateCandidateResponses}
-                    showDevTools={showDevTools}
                     chooseCandidate={state.chooseCandidate}
                     sendMeetOffer={state.sendMeetOffer}
-                    respondToMeetOffer={state.respondToMeetOffer}
                     syncMeetupTimers={state.syncMeetupTimers}
                     respondIncomingRequest={state.respondIncomingRequest}
                   />
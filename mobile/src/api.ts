@@ -1,4 +1,44 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
 const API_BASE_URL = process.env.EXPO_PUBLIC_API_BASE_URL ?? "http://localhost:4000";
+const DEVICE_ID_KEY = "vicino_device_id";
+
+let sessionToken: string | null = null;
+let deviceIdPromise: Promise<string> | null = null;
+
+export function setApiAuthToken(token: string | null) {
+  sessionToken = token;
+}
+
+// A random per-install id lets the backend recognise this device across logins.
+export function getDeviceId() {
+  if (!deviceIdPromise) {
+    deviceIdPromise = (async () => {
+      const stored = await AsyncStorage.getItem(DEVICE_ID_KEY).catch(() => null);
+      if (stored) {
+        return stored;
+      }
+      const created = `dev_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 12)}`;
+      await AsyncStorage.setItem(DEVICE_ID_KEY, created).catch(() => null);
+      return created;
+    })();
+  }
+  return deviceIdPromise;
+}
+
+// Keeps the HTTP status and the server's machine-readable `code` (when it sends
+// one) alongside the message, so callers can branch without matching text.
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: string | null,
+    readonly payload: unknown
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
 
 function parseErrorMessage(payload: unknown, status: number) {
   if (typeof payload === "string" && payload.trim().length > 0) {
@@ -20,6 +60,7 @@ function parseErrorMessage(payload: unknown, status: number) {
 async function request<T>(path: string, init?: RequestInit): Promise<T> {
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
+    ...(sessionToken ? { Authorization: `Bearer ${sessionToken}` } : {}),
     ...((init?.headers as Record<string, string> | undefined) ?? {})
   };
 
@@ -30,7 +71,8 @@ async function request<T>(path: string, init?: RequestInit): Promise<T> {
 
   if (!res.ok) {
     const data = await res.json().catch(() => null);
-    throw new Error(parseErrorMessage(data, res.status));
+    const code = data && typeof data === "object" && typeof data.code === "string" ? data.code : null;
+    throw new ApiError(parseErrorMessage(data, res.status), res.status, code, data);
   }
 
   return (await res.json()) as T;
@@ -49,6 +91,7 @@ export interface ApiUser {
   username?: string | null;
   isAdmin?: boolean;
   email?: string | null;
+  emailVerified?: boolean;
   phone?: string | null;
   age: number;
   preferredAgeMin?: number;
@@ -67,26 +110,108 @@ export interface ApiUser {
   promptThree?: string | null;
   distanceMiles?: number;
   maxDistanceMiles?: number;
+  discoverable?: boolean;
+  discoveryVisibility?: "everyone" | "liked_only";
+  shareLastActive?: boolean;
   planTier?: "free" | "plus";
 }
 
+export interface ApiPublicProfile {
+  id: string;
+  firstName: string;
+  age: number;
+  gender: string;
+  bio: string;
+  profilePhotoUrl?: string | null;
+  verified: boolean;
+  photos: string[];
+  hobbies?: string[];
+  promptOne?: string | null;
+  promptTwo?: string | null;
+  promptThree?: string | null;
+}
+
+export interface ApiDiscoveryProfile extends ApiPublicProfile {
+  distanceMiles: number;
+}
+
+export interface ApiDiscoveryPage {
+  profiles: ApiDiscoveryProfile[];
+  nextCursor: string | null;
+  variant: string | null;
+}
+
 export interface ApiMatch {
   id: string;
   userAId: string;
   userBId: string;
   createdAt: string;
   coordinationEndsAt?: string | null;
+  coordinationExpired?: boolean;
   messagesByUser: Record<string, number>;
   totalMessages: number;
+  messageLimits: ApiMessageLimits;
+  remainingByUser: Record<string, number>;
+  remainingTotal: number;
   meetDecisionByUser: Record<string, "yes" | "no">;
 }
 
+// Empty (offline, no lastActiveAt) when the member doesn't share it.
+export interface ApiPresence {
+  online: boolean;
+  lastActiveAt: string | null;
+}
+
+export interface ApiMatchListing extends ApiMatch {
+  otherUser: ApiPublicProfile;
+  lastMessage: ApiMessage | null;
+  unreadCount: number;
+  otherLastReadAt: string | null;
+  otherPresence: ApiPresence;
+}
+
+export interface ApiMatchPage {
+  matches: ApiMatchListing[];
+  nextCursor: string | null;
+}
+
+export interface ApiMessageLimits {
+  maxMessagesPerUser: number;
+  maxMessagesTotal: number;
+}
+
+export interface ApiMessageAttachment {
+  kind: "image" | "audio";
+  url: string;
+  mimeType: string;
+  sizeBytes: number;
+  durationSeconds: number | null;
+}
+
+export interface ApiMessageReaction {
+  matchId: string;
+  messageId: string;
+  userId: string;
+  emoji: string | null;
+}
+
 export interface ApiMessage {
   id: string;
   matchId: string;
   senderUserId: string;
   body: string;
+  attachment?: ApiMessageAttachment | null;
+  reactions?: { userId: string; emoji: string }[];
   createdAt: string;
+  // Delivery state of the viewer's own messages; null for the other member's.
+  status?: "sent" | "delivered" | "read" | null;
+}
+
+// What the server's message classifier found. Sent with every accepted message
+// and in the payload of a "message_warning" / "message_blocked" error.
+export interface ApiMessageModeration {
+  verdict: "allow" | "warn" | "flag" | "block";
+  findings: { category: string; verdict: "warn" | "flag" | "block"; detail: string }[];
 }
 
 export interface AvailabilityCandidate {
@@ -135,6 +260,51 @@ export interface ApiOffer {
   status: "pending" | "accepted" | "declined" | "expired" | "location_expired";
 }
 
+export interface ApiPlace {
+  id: string;
+  name: string;
+  category: string;
+  latitude: number;
+  longitude: number;
+  address: string | null;
+  safetyTier: "preferred" | "standard" | "limited";
+  distanceMiles: number;
+}
+
+export interface NearbyPlacesResponse {
+  places: ApiPlace[];
+}
+
+export interface ApiTrustedContact {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+}
+
+export interface ApiAuthSession {
+  id: string;
+  name: string | null;
+  deviceLabel: string;
+  platform: string;
+  approximateIp: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+export interface ApiSafetyCheckin {
+  id: string;
+  offerId: string;
+  dueAt: string;
+  status: "scheduled" | "reminded" | "escalated";
+  remindedAt: string | null;
+  respondedAt: string | null;
+  placeId: string;
+  placeLabel: string;
+  otherUserId: string;
+}
+
 export interface VerificationStatus {
   userId: string;
   verified: boolean;
@@ -177,6 +347,20 @@ export interface AdminUserListItem {
   verificationReviewedAt?: string | null;
   planTier?: "free" | "plus";
   isBanned?: boolean;
+  loginLockedUntil?: string | null;
+  failedLogins24h?: number;
+  lastFailedLoginAt?: string | null;
+}
+
+export interface AdminLoginEvent {
+  id: string;
+  username: string;
+  ip: string | null;
+  userAgent: string | null;
+  deviceId: string | null;
+  outcome: "success" | "bad_password" | "unknown_user" | "throttled" | "locked" | "banned";
+  newDevice: boolean;
+  createdAt: string;
 }
 
 export interface AdminUsersResponse {
@@ -186,10 +370,102 @@ export interface AdminUsersResponse {
   offset: number;
 }
 
-export interface ApiPlanLimits {
+export type AdminReportStatus = "open" | "reviewed" | "closed";
+export type AdminReportAction = "dismiss" | "warn" | "ban" | "close_pair";
+// "moderation" reports are raised by the message classifier. They have no
+// reporter; the other member of the chat is the counterpart.
+export type AdminReportSource = "user" | "moderation";
+
+export interface AdminReport {
+  id: string;
+  reporterUserId: string | null;
+  reporterFirstName: string | null;
+  reporterLastName?: string | null;
+  counterpartUserId: string | null;
+  counterpartFirstName: string | null;
+  counterpartLastName?: string | null;
+  targetUserId: string;
+  targetFirstName: string;
+  targetLastName?: string | null;
+  targetIsBanned: boolean;
+  reason: string;
+  details: string | null;
+  status: AdminReportStatus;
+  source: AdminReportSource;
+  messageId: string | null;
+  messageBody: string | null;
+  moderation: ApiMessageModeration | null;
+  hitCount: number;
+  lastSeenAt: string | null;
+  resolution: "dismissed" | "warned" | "banned" | "pair_closed" | null;
+  resolutionNote: string | null;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+export interface AdminReportsResponse {
+  rows: AdminReport[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface AdminReportDetail {
+  report: AdminReport;
+  priorReports: AdminReport[];
+  ban: {
+    isBanned: boolean;
+    bannedReason: string | null;
+    bannedAt: string | null;
+    history: Array<{
+      id: string;
+      adminUserId: string;
+      action: "user_ban" | "user_unban";
+      metadata: Record<string, unknown>;
+      createdAt: string;
+    }>;
+  };
+  sharedHistory: {
+    matches: Array<{ id: string; createdAt: string }>;
+    messages: ApiMessage[];
+    closure: { reason: string; actorUserId: string; createdAt: string } | null;
+  };
+}
+
+export interface AdminAuditLog {
+  id: string;
+  adminUserId: string;
+  adminName: string;
+  action: string;
+  targetUserId: string | null;
+  targetName: string | null;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface AdminAuditLogPage {
+  rows: AdminAuditLog[];
+  nextCursor: string | null;
+}
+
+export interface ApiPlanLimits extends ApiMessageLimits {
   maxDailySwipes: number | null;
-  maxMessagesPerUser: number;
-  maxMessagesTotal: number;
+  maxDailyRewinds: number | null;
+}
+
+export interface ApiSwipeQuota {
+  planTier: "free" | "plus";
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  resetsAt: string | null;
+}
+
+export interface ApiSwipeUndo {
+  profile: ApiPublicProfile | null;
+  rewindsRemaining: number | null;
+  quota: ApiSwipeQuota;
 }
 
 export interface AuthResponse {
@@ -211,7 +487,12 @@ export interface RefreshAuthResponse extends AuthSessionResponse {
 }
 
 export interface UploadImageResponse {
+  id: string;
   url: string;
+  mimeType?: string;
+  sizeBytes?: number;
+  // Voice notes only; the server reads it from the file.
+  durationSeconds?: number;
 }
 
 export interface UserLocationResponse {
@@ -222,11 +503,38 @@ export interface UserLocationResponse {
   lastLocationAt: string;
 }
 
-export function getUsers() {
-  return request<ApiUser[]>("/users");
+export type ApiRealtimeEvent =
+  | { type: "match.created"; data: { match: ApiMatch } }
+  | { type: "message.created"; data: { message: ApiMessage } }
+  | { type: "message.read"; data: { matchId: string; userId: string; lastReadAt: string } }
+  | { type: "message.reaction"; data: ApiMessageReaction }
+  | { type: "typing"; data: { matchId: string; userId: string; typing: boolean; expiresAt: string | null } }
+  | { type: "availability.request"; data: { sessionId: string; initiatorUserId: string } }
+  | { type: "offer.created"; data: { offer: ApiOffer } }
+  | {
+      type: "offer.status_changed";
+      data: {
+        offerId: string;
+        sessionId: string;
+        status: ApiOffer["status"];
+        coordinationEndsAt: string | null;
+      };
+    }
+  | { type: "resync"; data: { reason: string } };
+
+export function getCurrentUser() {
+  return request<ApiUser>("/users/me");
+}
+
+export function getMyOffers(status?: ApiOffer["status"], limit = 50, offset = 0) {
+  const params = new URLSearchParams({ limit: String(limit), offset: String(offset) });
+  if (status) {
+    params.set("status", status);
+  }
+  return request<ApiOffer[]>(`/offers/mine?${params.toString()}`);
 }
 
-export function postRegister(payload: {
+export async function postRegister(payload: {
   email: string;
   username: string;
   password: string;
@@ -235,16 +543,18 @@ export function postRegister(payload: {
   marketingConsent?: boolean;
   policyVersion: string;
 }) {
+  const deviceId = await getDeviceId();
   return request<AuthResponse>("/auth/register", {
     method: "POST",
-    body: JSON.stringify(payload)
+    body: JSON.stringify({ ...payload, deviceId })
   });
 }
 
-export function postLogin(payload: { username: string; password: string }) {
+export async function postLogin(payload: { username: string; password: string }) {
+  const deviceId = await getDeviceId();
   return request<AuthResponse>("/auth/login", {
     method: "POST",
-    body: JSON.stringify(payload)
+    body: JSON.stringify({ ...payload, deviceId })
   });
 }
 
@@ -265,6 +575,58 @@ export function postLogout(token: string) {
   });
 }
 
+export function postForgotPassword(email: string) {
+  return request<{ ok: boolean }>("/auth/password/forgot", {
+    method: "POST",
+    body: JSON.stringify({ email })
+  });
+}
+
+export function postResetPassword(token: string, password: string) {
+  return request<{ ok: boolean }>("/auth/password/reset", {
+    method: "POST",
+    body: JSON.stringify({ token, password })
+  });
+}
+
+export function postVerifyEmail(token: string) {
+  return request<{ ok: boolean; userId: string }>("/auth/email/verify", {
+    method: "POST",
+    body: JSON.stringify({ token })
+  });
+}
+
+export function postResendEmailVerification() {
+  return request<{ ok: boolean; alreadyVerified: boolean }>("/auth/email/verify/resend", {
+    method: "POST",
+    body: JSON.stringify({})
+  });
+}
+
+export function getAuthSessions() {
+  return request<ApiAuthSession[]>("/auth/sessions");
+}
+
+export function postAuthSessionName(sessionId: string, name: string | null) {
+  return request<{ id: string; name: string | null }>(`/auth/sessions/${encodeURIComponent(sessionId)}/name`, {
+    method: "POST",
+    body: JSON.stringify({ name })
+  });
+}
+
+export function deleteAuthSession(sessionId: string) {
+  return request<{ ok: boolean; id: string }>(`/auth/sessions/${encodeURIComponent(sessionId)}`, {
+    method: "DELETE"
+  });
+}
+
+export function postRevokeOtherAuthSessions() {
+  return request<{ ok: boolean; revoked: number }>("/auth/sessions/revoke-others", {
+    method: "POST",
+    body: JSON.stringify({})
+  });
+}
+
 export function postRefreshAuth(refreshToken: string) {
   return request<RefreshAuthResponse>("/auth/refresh", {
     method: "POST",
@@ -272,13 +634,23 @@ export function postRefreshAuth(refreshToken: string) {
   });
 }
 
-export async function uploadImageBase64(base64: string, mimeType?: string, filename?: string) {
+export type UploadPurpose = "message_attachment" | "profile_photo" | "verification";
+
+// Only message_attachment uploads can be sent in a chat; profile and
+// verification images are never deleted along with one.
+export async function uploadImageBase64(
+  base64: string,
+  mimeType?: string,
+  filename?: string,
+  purpose: UploadPurpose = "profile_photo"
+) {
   const res = await requestRaw("/uploads/image-base64", {
     method: "POST",
     headers: {
-      "Content-Type": "application/json"
+      "Content-Type": "application/json",
+      ...(sessionToken ? { Authorization: `Bearer ${sessionToken}` } : {})
     },
-    body: JSON.stringify({ base64, mimeType, filename })
+    body: JSON.stringify({ base64, mimeType, filename, purpose })
   });
 
   if (!res.ok) {
@@ -299,6 +671,25 @@ export function postDistancePreference(userId: string, maxDistanceMiles: number)
   );
 }
 
+export function postVisibilityPreference(
+  userId: string,
+  updates: { discoverable?: boolean; discoveryVisibility?: "everyone" | "liked_only"; shareLastActive?: boolean }
+) {
+  return request<{
+    id: string;
+    discoverable: boolean;
+    discoveryVisibility: "everyone" | "liked_only";
+    pausedAt: string | null;
+    shareLastActive: boolean;
+  }>(
+    `/users/${userId}/preferences/visibility`,
+    {
+      method: "POST",
+      body: JSON.stringify(updates)
+    }
+  );
+}
+
 export function postUserLocation(userId: string, latitude: number, longitude: number) {
   return request<UserLocationResponse>(`/users/${userId}/location`, {
     method: "POST",
@@ -341,18 +732,25 @@ export function postUserProfile(
   });
 }
 
-export function getDiscovery(userId: string) {
-  return request<ApiUser[]>(`/discovery/${userId}`);
+export function getDiscovery(userId: string, options?: { limit?: number; cursor?: string | null; refresh?: boolean }) {
+  const params = new URLSearchParams();
+  params.set("limit", String(options?.limit ?? 20));
+  if (options?.cursor) {
+    params.set("cursor", options.cursor);
+  }
+  if (options?.refresh) {
+    params.set("refresh", "true");
+  }
+  return request<ApiDiscoveryPage>(`/discovery/${userId}?${params.toString()}`);
 }
 
-export function getMatches(userId?: string, limit = 50, offset = 0) {
+export function getMatches(limit = 50, cursor?: string | null) {
   const params = new URLSearchParams();
-  if (userId) {
-    params.set("userId", userId);
-  }
   params.set("limit", String(limit));
-  params.set("offset", String(offset));
-  return request<ApiMatch[]>(`/matches?${params.toString()}`);
+  if (cursor) {
+    params.set("cursor", cursor);
+  }
+  return request<ApiMatchPage>(`/matches?${params.toString()}`);
 }
 
 export function getMessages(matchId: string, limit = 100, before?: string | null) {
@@ -364,47 +762,105 @@ export function getMessages(matchId: string, limit = 100, before?: string | null
   return request<ApiMessage[]>(`/messages/${matchId}?${params.toString()}`);
 }
 
-export function postSwipe(fromUserId: string, toUserId: string, decision: "left" | "right") {
-  return request<{ matched: boolean }>("/swipes", {
+export function postSwipe(toUserId: string, decision: "left" | "right") {
+  return request<{ matched: boolean; quota: ApiSwipeQuota }>("/swipes", {
+    method: "POST",
+    body: JSON.stringify({ toUserId, decision })
+  });
+}
+
+export function getSwipeQuota() {
+  return request<ApiSwipeQuota>("/swipes/quota");
+}
+
+export function postUndoSwipe() {
+  return request<ApiSwipeUndo>("/swipes/undo", {
+    method: "POST",
+    body: JSON.stringify({})
+  });
+}
+
+export function postMessagesRead(matchId: string, messageId?: string) {
+  return request<{ matchId: string; lastReadAt: string | null; unreadCount: number; totalUnread: number }>(
+    `/messages/${matchId}/read`,
+    {
+      method: "POST",
+      body: JSON.stringify(messageId ? { messageId } : {})
+    }
+  );
+}
+
+export function postTyping(matchId: string, typing: boolean) {
+  return request<{ ok: boolean }>(`/messages/${matchId}/typing`, {
+    method: "POST",
+    body: JSON.stringify({ typing })
+  });
+}
+
+// emoji null removes the member's reaction.
+export function postMessageReaction(matchId: string, messageId: string, emoji: string | null) {
+  return request<ApiMessageReaction>(`/messages/${matchId}/reactions`, {
     method: "POST",
-    body: JSON.stringify({ fromUserId, toUserId, decision })
+    body: JSON.stringify({ messageId, emoji })
   });
 }
 
-export function postMessage(matchId: string, senderUserId: string, body: string) {
-  return request<{ message: ApiMessage }>("/messages", {
+export function getMatchPresence(matchId: string) {
+  return request<ApiPresence & { matchId: string; userId: string }>(`/matches/${matchId}/presence`);
+}
+
+export function postMessage(
+  matchId: string,
+  body: string,
+  // attachmentUploadId is the id returned by uploadImageBase64; the server reads
+  // the kind, type, size and duration from its own record of that upload.
+  options?: { acknowledgeWarning?: boolean; attachmentUploadId?: string }
+) {
+  return request<{
+    message: ApiMessage;
+    messageLimits: ApiMessageLimits;
+    remainingForSender: number;
+    remainingTotal: number;
+    needsMeetDecision: boolean;
+    moderation: ApiMessageModeration;
+  }>("/messages", {
     method: "POST",
-    body: JSON.stringify({ matchId, senderUserId, body })
+    body: JSON.stringify({
+      matchId,
+      body,
+      ...(options?.acknowledgeWarning ? { acknowledgeWarning: true } : {}),
+      ...(options?.attachmentUploadId ? { attachment: { uploadId: options.attachmentUploadId } } : {})
+    })
   });
 }
 
-export function postMeetDecision(matchId: string, userId: string, decision: "yes" | "no") {
+export function postMeetDecision(matchId: string, decision: "yes" | "no") {
   return request<{ bothYes: boolean; decisions: Record<string, "yes" | "no"> }>("/meet-decisions", {
     method: "POST",
-    body: JSON.stringify({ matchId, userId, decision })
+    body: JSON.stringify({ matchId, decision })
   });
 }
 
-export function postUnmatch(matchId: string, userId: string) {
+export function postUnmatch(matchId: string) {
   return request<{ ok: true }>(`/matches/${matchId}/unmatch`, {
     method: "POST",
-    body: JSON.stringify({ userId })
+    body: JSON.stringify({})
   });
 }
 
-export function postBlock(matchId: string, userId: string) {
+export function postBlock(matchId: string) {
   return request<{ ok: true }>(`/matches/${matchId}/block`, {
     method: "POST",
-    body: JSON.stringify({ userId })
+    body: JSON.stringify({})
   });
 }
 
-export function postAvailabilityStart(initiatorUserId: string) {
+export function postAvailabilityStart() {
   return request<{ session: AvailabilityState["session"]; candidates: AvailabilityCandidate[] }>(
     "/availability/start",
     {
       method: "POST",
-      body: JSON.stringify({ initiatorUserId })
+      body: JSON.stringify({})
     }
   );
 }
@@ -413,16 +869,12 @@ export function getAvailabilityState(sessionId: string) {
   return request<AvailabilityState>(`/availability/${sessionId}`);
 }
 
-export function postAvailabilityRespondInterest(
-  sessionId: string,
-  userId: string,
-  response: "yes" | "no"
-) {
+export function postAvailabilityRespondInterest(sessionId: string, response: "yes" | "no") {
   return request<{ sessionId: string; candidateUserId: string; response: "yes" | "no" }>(
     "/availability/respond-interest",
     {
       method: "POST",
-      body: JSON.stringify({ sessionId, userId, response })
+      body: JSON.stringify({ sessionId, response })
     }
   );
 }
@@ -431,30 +883,66 @@ export function getIncomingAvailability(userId: string) {
   return request<IncomingAvailabilityRequest[]>(`/availability/incoming/${userId}`);
 }
 
-export function postAvailabilityClose(sessionId: string, initiatorUserId: string) {
+export function postAvailabilityClose(sessionId: string) {
   return request<{ ok: boolean }>(`/availability/${sessionId}/close`, {
     method: "POST",
-    body: JSON.stringify({ initiatorUserId })
+    body: JSON.stringify({})
   });
 }
 
-export function postOffer(
-  sessionId: string,
-  initiatorUserId: string,
-  recipientUserId: string,
-  placeId: string,
-  placeLabel: string
-) {
+export function getNearbyPlaces(matchId: string) {
+  return request<NearbyPlacesResponse>(`/places/nearby?matchId=${encodeURIComponent(matchId)}`);
+}
+
+export function postOffer(sessionId: string, recipientUserId: string, placeId: string) {
   return request<ApiOffer>("/offers", {
     method: "POST",
-    body: JSON.stringify({ sessionId, initiatorUserId, recipientUserId, placeId, placeLabel })
+    body: JSON.stringify({ sessionId, recipientUserId, placeId })
+  });
+}
+
+export function getTrustedContacts() {
+  return request<ApiTrustedContact[]>("/safety/contacts");
+}
+
+export function postTrustedContact(name: string, phone?: string | null, email?: string | null) {
+  return request<ApiTrustedContact>("/safety/contacts", {
+    method: "POST",
+    body: JSON.stringify({ name, phone: phone || null, email: email || null })
   });
 }
 
-export function postOfferRespond(offerId: string, recipientUserId: string, accept: boolean) {
+export function deleteTrustedContact(contactId: string) {
+  return request<{ ok: boolean }>(`/safety/contacts/${encodeURIComponent(contactId)}`, {
+    method: "DELETE"
+  });
+}
+
+export function getActiveSafetyCheckin() {
+  return request<{ checkin: ApiSafetyCheckin | null }>("/safety/checkins/active");
+}
+
+export function postSafetyCheckinOk(checkinId: string) {
+  return request<{ ok: boolean }>(`/safety/checkins/${encodeURIComponent(checkinId)}/ok`, {
+    method: "POST",
+    body: JSON.stringify({})
+  });
+}
+
+export function postSafetyPanic(offerId?: string | null, latitude?: number | null, longitude?: number | null) {
+  return request<{ panicEvent: { id: string; placeLabel: string | null }; contactsNotified: number }>(
+    "/safety/panic",
+    {
+      method: "POST",
+      body: JSON.stringify({ offerId: offerId ?? null, latitude: latitude ?? null, longitude: longitude ?? null })
+    }
+  );
+}
+
+export function postOfferRespond(offerId: string, accept: boolean) {
   return request<{ offer: ApiOffer; coordinationEndsAt: string | null }>("/offers/respond", {
     method: "POST",
-    body: JSON.stringify({ offerId, recipientUserId, accept })
+    body: JSON.stringify({ offerId, accept })
   });
 }
 
@@ -462,15 +950,10 @@ export function getVerificationStatus(userId: string) {
   return request<VerificationStatus>(`/verification/${userId}/status`);
 }
 
-export function postVerificationSubmit(
-  userId: string,
-  idDocumentUri: string,
-  selfieUri: string,
-  idDocumentType: string
-) {
+export function postVerificationSubmit(idDocumentUri: string, selfieUri: string, idDocumentType: string) {
   return request<{ submissionId: string; userId: string; status: "pending" }>("/verification/submit", {
     method: "POST",
-    body: JSON.stringify({ userId, idDocumentUri, selfieUri, idDocumentType })
+    body: JSON.stringify({ idDocumentUri, selfieUri, idDocumentType })
   });
 }
 
@@ -532,6 +1015,20 @@ export function getAdminUsers(
   });
 }
 
+export function getAdminLoginEvents(
+  userId: string,
+  outcome: "failed" | "all" = "failed",
+  authToken?: string,
+  adminKey?: string
+) {
+  return request<AdminLoginEvent[]>(`/admin/users/${userId}/login-events?outcome=${outcome}`, {
+    headers: {
+      ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+      ...(adminKey ? { "x-admin-key": adminKey } : {})
+    }
+  });
+}
+
 export function postReviewVerification(
   submissionId: string,
   decision: "approved" | "rejected",
@@ -599,6 +1096,99 @@ export function postAdminSetPlanTier(
   );
 }
 
+export function getAdminReports(
+  params: {
+    status?: AdminReportStatus | "all";
+    source?: AdminReportSource | "all";
+    targetUserId?: string;
+    reason?: string;
+    limit?: number;
+    offset?: number;
+  },
+  authToken?: string,
+  adminKey?: string
+) {
+  const query = new URLSearchParams();
+  if (params.status) {
+    query.set("status", params.status);
+  }
+  if (params.source) {
+    query.set("source", params.source);
+  }
+  if (params.targetUserId) {
+    query.set("targetUserId", params.targetUserId);
+  }
+  if (params.reason) {
+    query.set("reason", params.reason);
+  }
+  query.set("limit", String(params.limit ?? 50));
+  query.set("offset", String(params.offset ?? 0));
+  return request<AdminReportsResponse>(`/admin/reports?${query.toString()}`, {
+    headers: {
+      ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+      ...(adminKey ? { "x-admin-key": adminKey } : {})
+    }
+  });
+}
+
+export function getAdminReportDetail(reportId: string, authToken?: string, adminKey?: string) {
+  return request<AdminReportDetail>(`/admin/reports/${reportId}`, {
+    headers: {
+      ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+      ...(adminKey ? { "x-admin-key": adminKey } : {})
+    }
+  });
+}
+
+export function postResolveAdminReport(
+  reportId: string,
+  action: AdminReportAction,
+  authToken?: string,
+  adminKey?: string,
+  note?: string
+) {
+  return request<{ ok: boolean; reportId: string; status: "closed"; resolution: string }>(
+    `/admin/reports/${reportId}/resolve`,
+    {
+      method: "POST",
+      headers: {
+        ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+        ...(adminKey ? { "X-Admin-Key": adminKey } : {})
+      },
+      body: JSON.stringify({ action, note })
+    }
+  );
+}
+
+export function getAdminAuditLogs(
+  params: {
+    adminUserId?: string;
+    action?: string;
+    targetUserId?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+    cursor?: string | null;
+  },
+  authToken?: string,
+  adminKey?: string
+) {
+  const query = new URLSearchParams();
+  for (const key of ["adminUserId", "action", "targetUserId", "from", "to", "cursor"] as const) {
+    const value = params[key];
+    if (value) {
+      query.set(key, value);
+    }
+  }
+  query.set("limit", String(params.limit ?? 50));
+  return request<AdminAuditLogPage>(`/admin/audit-logs?${query.toString()}`, {
+    headers: {
+      ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+      ...(adminKey ? { "x-admin-key": adminKey } : {})
+    }
+  });
+}
+
 export function postAnalyticsEvent(
   eventName: string,
   userId?: string,
@@ -610,14 +1200,112 @@ export function postAnalyticsEvent(
   });
 }
 
-export function postReportUser(
-  reporterUserId: string,
-  targetUserId: string,
-  reason: string,
-  details?: string
-) {
+export function postReportUser(targetUserId: string, reason: string, details?: string) {
   return request<{ ok: boolean }>("/reports", {
     method: "POST",
-    body: JSON.stringify({ reporterUserId, targetUserId, reason, details })
+    body: JSON.stringify({ targetUserId, reason, details })
   });
 }
+
+const EVENT_STREAM_RETRY_MIN_MS = 1000;
+const EVENT_STREAM_RETRY_MAX_MS = 30000;
+
+function parseEventBlock(block: string): ApiRealtimeEvent | null {
+  let type = "message";
+  const dataLines: string[] = [];
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) {
+      type = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+  if (dataLines.length === 0) {
+    return null;
+  }
+  try {
+    return { type, data: JSON.parse(dataLines.join("\n")) } as ApiRealtimeEvent;
+  } catch {
+    return null;
+  }
+}
+
+// React Native has no EventSource, so the stream is read incrementally off an XHR.
+// The connection is re-opened with backoff whenever it drops or the server recycles it.
+export function subscribeToEvents(handlers: {
+  onEvent: (event: ApiRealtimeEvent) => void;
+  onConnectionChange?: (connected: boolean) => void;
+}) {
+  let xhr: XMLHttpRequest | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let retryDelay = EVENT_STREAM_RETRY_MIN_MS;
+  let closed = false;
+
+  const scheduleReconnect = () => {
+    handlers.onConnectionChange?.(false);
+    if (closed || retryTimer) {
+      return;
+    }
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      connect();
+    }, retryDelay);
+    retryDelay = Math.min(retryDelay * 2, EVENT_STREAM_RETRY_MAX_MS);
+  };
+
+  const connect = () => {
+    if (closed || !sessionToken) {
+      scheduleReconnect();
+      return;
+    }
+
+    const current = new XMLHttpRequest();
+    xhr = current;
+    let cursor = 0;
+    let buffer = "";
+
+    current.open("GET", `${API_BASE_URL}/events`);
+    current.setRequestHeader("Accept", "text/event-stream");
+    current.setRequestHeader("Authorization", `Bearer ${sessionToken}`);
+    current.onreadystatechange = () => {
+      if (xhr !== current) {
+        return;
+      }
+      if (current.readyState === XMLHttpRequest.HEADERS_RECEIVED && current.status === 200) {
+        retryDelay = EVENT_STREAM_RETRY_MIN_MS;
+        handlers.onConnectionChange?.(true);
+      }
+      if (current.readyState === XMLHttpRequest.LOADING || current.readyState === XMLHttpRequest.DONE) {
+        const text = current.responseText ?? "";
+        buffer += text.slice(cursor).replace(/\r\n/g, "\n");
+        cursor = text.length;
+        let boundary = buffer.indexOf("\n\n");
+        while (boundary >= 0) {
+          const event = parseEventBlock(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
+          if (event) {
+            handlers.onEvent(event);
+          }
+          boundary = buffer.indexOf("\n\n");
+        }
+      }
+      if (current.readyState === XMLHttpRequest.DONE) {
+        xhr = null;
+        scheduleReconnect();
+      }
+    };
+    current.send();
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+    }
+    const current = xhr;
+    xhr = null;
+    current?.abort();
+  };
+}
@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { getAdminLoginEvents, type AdminLoginEvent } from "../api";
+import { theme } from "../theme";
+
+const OUTCOME_LABELS: Record<AdminLoginEvent["outcome"], string> = {
+  success: "Signed in",
+  bad_password: "Wrong password",
+  unknown_user: "Unknown user",
+  throttled: "Throttled",
+  locked: "Blocked by lockout",
+  banned: "Blocked (banned)"
+};
+
+export function AdminLoginHistory({ authToken, userId }: { authToken: string; userId: string }) {
+  const [events, setEvents] = useState<AdminLoginEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getAdminLoginEvents(userId, "failed", authToken)
+      .then((rows) => {
+        if (!cancelled) {
+          setEvents(rows);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError((err as Error).message);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [authToken, userId]);
+
+  return (
+    <View style={styles.wrap}>
+      {loading ? <Text style={styles.meta}>Loading failed logins...</Text> : null}
+      {!loading && events.length === 0 && !error ? <Text style={styles.meta}>No failed logins.</Text> : null}
+      {events.map((event) => (
+        <View key={event.id} style={styles.entry}>
+          <Text style={styles.outcome}>{OUTCOME_LABELS[event.outcome]}</Text>
+          <Text style={styles.meta}>
+            {new Date(event.createdAt).toLocaleString()} • {event.ip ?? "unknown IP"}
+          </Text>
+        </View>
+      ))}
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    gap: 6,
+    marginTop: 4
+  },
+  entry: {
+    borderLeftWidth: 2,
+    borderLeftColor: "#F4C7C3",
+    paddingLeft: 10,
+    gap: 2
+  },
+  outcome: {
+    color: theme.colors.text
+  },
+  meta: {
+    color: theme.colors.muted,
+    fontSize: 12
+  },
+  error: {
+    color: "#B42318",
+    fontWeight: "700"
+  }
+});
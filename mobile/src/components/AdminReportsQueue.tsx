@@ -0,0 +1,545 @@
+import { useEffect, useState } from "react";
+import { Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+import {
+  getAdminReportDetail,
+  getAdminReports,
+  postResolveAdminReport,
+  type AdminReport,
+  type AdminReportAction,
+  type AdminReportDetail,
+  type AdminReportSource,
+  type AdminReportStatus
+} from "../api";
+import { theme } from "../theme";
+
+const PAGE_SIZE = 30;
+const STATUS_FILTERS: Array<AdminReportStatus | "all"> = ["open", "reviewed", "closed", "all"];
+const SOURCE_FILTERS: Array<{ value: AdminReportSource | "all"; label: string }> = [
+  { value: "all", label: "All sources" },
+  { value: "user", label: "Members" },
+  { value: "moderation", label: "Auto-flagged" }
+];
+
+function formatTime(value: string) {
+  return new Date(value).toLocaleString();
+}
+
+function fullName(firstName: string | null, lastName?: string | null) {
+  return `${firstName ?? "Unknown"} ${lastName ?? ""}`.trim();
+}
+
+function describeReporter(report: AdminReport) {
+  if (report.source === "moderation") {
+    const repeats = report.hitCount > 1 ? ` (${report.hitCount} times)` : "";
+    return `Flagged automatically in a chat with ${fullName(report.counterpartFirstName, report.counterpartLastName)}${repeats}`;
+  }
+  return `Reported by ${fullName(report.reporterFirstName, report.reporterLastName)}`;
+}
+
+export function AdminReportsQueue({ authToken }: { authToken: string }) {
+  const [rows, setRows] = useState<AdminReport[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<AdminReportStatus | "all">("open");
+  const [source, setSource] = useState<AdminReportSource | "all">("all");
+  const [reason, setReason] = useState("");
+  const [reasonDraft, setReasonDraft] = useState("");
+  const [targetUserId, setTargetUserId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<AdminReportDetail | null>(null);
+  const [note, setNote] = useState("");
+  const [resolving, setResolving] = useState(false);
+
+  const hasMore = rows.length < total;
+
+  const loadPage = async (reset = false) => {
+    const targetOffset = reset ? 0 : rows.length;
+    if (reset) {
+      setLoading(true);
+    } else {
+      setLoadingMore(true);
+    }
+    setError(null);
+
+    try {
+      const result = await getAdminReports(
+        {
+          status,
+          source,
+          reason,
+          targetUserId: targetUserId ?? undefined,
+          limit: PAGE_SIZE,
+          offset: targetOffset
+        },
+        authToken
+      );
+      setTotal(result.total);
+      setRows((prev) => (reset ? result.rows : [...prev, ...result.rows]));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setReason(reasonDraft.trim());
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [reasonDraft]);
+
+  useEffect(() => {
+    void loadPage(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [authToken, status, source, reason, targetUserId]);
+
+  const openReport = async (reportId: string) => {
+    setError(null);
+    try {
+      setDetail(await getAdminReportDetail(reportId, authToken));
+      setNote("");
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const resolve = async (action: AdminReportAction) => {
+    if (!detail || resolving) {
+      return;
+    }
+    setResolving(true);
+    setError(null);
+    try {
+      await postResolveAdminReport(detail.report.id, action, authToken, undefined, note.trim() || undefined);
+      setDetail(null);
+      setNote("");
+      await loadPage(true);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  const report = detail?.report ?? null;
+
+  return (
+    <View style={styles.wrap}>
+      <View style={styles.card}>
+        <View style={styles.segmentRow}>
+          {STATUS_FILTERS.map((value) => (
+            <Pressable
+              key={value}
+              style={({ pressed }) => [
+                styles.segmentBtn,
+                status === value && styles.segmentBtnActive,
+                pressed && styles.segmentBtnPressed
+              ]}
+              onPress={() => setStatus(value)}
+            >
+              <Text style={[styles.segmentText, status === value && styles.segmentTextActive]}>
+                {value[0].toUpperCase() + value.slice(1)}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+        <View style={styles.segmentRow}>
+          {SOURCE_FILTERS.map((filter) => (
+            <Pressable
+              key={filter.value}
+              style={({ pressed }) => [
+                styles.segmentBtn,
+                source === filter.value && styles.segmentBtnActive,
+                pressed && styles.segmentBtnPressed
+              ]}
+              onPress={() => setSource(filter.value)}
+            >
+              <Text style={[styles.segmentText, source === filter.value && styles.segmentTextActive]}>
+                {filter.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+        <TextInput
+          style={styles.searchInput}
+          value={reasonDraft}
+          onChangeText={setReasonDraft}
+          placeholder="Filter by reason"
+          placeholderTextColor={theme.colors.muted}
+          autoCapitalize="none"
+        />
+        {targetUserId ? (
+          <Pressable onPress={() => setTargetUserId(null)}>
+            <Text style={styles.filterChip}>Target: {targetUserId} (tap to clear)</Text>
+          </Pressable>
+        ) : null}
+        <Text style={styles.meta}>{total} report(s)</Text>
+      </View>
+
+      {rows.map((row) => (
+        <Pressable
+          key={row.id}
+          style={({ pressed }) => [styles.itemCard, pressed && styles.itemCardPressed]}
+          onPress={() => void openReport(row.id)}
+        >
+          <Text style={styles.name}>
+            {fullName(row.targetFirstName, row.targetLastName)}
+            {row.targetIsBanned ? " • Banned" : ""}
+          </Text>
+          <Text style={styles.meta}>
+            Reason: {row.reason} • {row.status}
+            {row.resolution ? ` (${row.resolution})` : ""}
+          </Text>
+          <Text style={styles.uri}>
+            {describeReporter(row)} • {formatTime(row.createdAt)}
+          </Text>
+        </Pressable>
+      ))}
+
+      {hasMore ? (
+        <Pressable
+          style={({ pressed }) => [styles.loadMoreBtn, pressed && styles.loadMoreBtnPressed]}
+          onPress={() => void loadPage(false)}
+          disabled={loadingMore}
+        >
+          <Text style={styles.loadMoreText}>{loadingMore ? "Loading..." : `Load more (${rows.length}/${total})`}</Text>
+        </Pressable>
+      ) : null}
+
+      {detail && report ? (
+        <View style={styles.detailCard}>
+          <Text style={styles.detailTitle}>Report Detail</Text>
+          <Text style={styles.name}>{fullName(report.targetFirstName, report.targetLastName)}</Text>
+          <Text style={styles.meta}>Reason: {report.reason}</Text>
+          {report.source === "moderation" ? (
+            <>
+              <View style={[styles.messageBubble, styles.messageFromTarget]}>
+                <Text style={styles.messageSender}>
+                  {report.messageId ? "Flagged message" : "Blocked message (not delivered)"}
+                </Text>
+                <Text style={styles.messageBody}>{report.messageBody ?? report.details}</Text>
+              </View>
+              {report.moderation?.findings.map((finding, index) => (
+                <Text key={`${finding.category}-${index}`} style={styles.uri}>
+                  {finding.verdict} • {finding.category} • {finding.detail}
+                </Text>
+              ))}
+            </>
+          ) : report.details ? (
+            <Text style={styles.meta}>{report.details}</Text>
+          ) : null}
+          <Text style={styles.uri}>
+            {describeReporter(report)} • {formatTime(report.createdAt)}
+          </Text>
+          <Text style={[styles.meta, detail.ban.isBanned ? styles.bannedMeta : null]}>
+            Status: {detail.ban.isBanned ? `Banned (${detail.ban.bannedReason ?? "no reason"})` : "Active"}
+          </Text>
+
+          <Text style={styles.sectionLabel}>Prior reports ({detail.priorReports.length})</Text>
+          {detail.priorReports.map((prior) => (
+            <Text key={prior.id} style={styles.uri}>
+              {formatTime(prior.createdAt)} • {prior.reason} • {prior.status}
+              {prior.resolution ? ` (${prior.resolution})` : ""}
+            </Text>
+          ))}
+          {detail.priorReports.length > 0 ? (
+            <Pressable
+              onPress={() => {
+                setTargetUserId(report.targetUserId);
+                setStatus("all");
+                setDetail(null);
+              }}
+            >
+              <Text style={styles.filterChip}>Show all reports for this user</Text>
+            </Pressable>
+          ) : null}
+
+          <Text style={styles.sectionLabel}>Ban history ({detail.ban.history.length})</Text>
+          {detail.ban.history.map((entry) => (
+            <Text key={entry.id} style={styles.uri}>
+              {formatTime(entry.createdAt)} • {entry.action === "user_ban" ? "Banned" : "Unbanned"}
+            </Text>
+          ))}
+
+          <Text style={styles.sectionLabel}>Shared history</Text>
+          {detail.sharedHistory.closure ? (
+            <Text style={styles.uri}>
+              Pair closed ({detail.sharedHistory.closure.reason}) • {formatTime(detail.sharedHistory.closure.createdAt)}
+            </Text>
+          ) : null}
+          {detail.sharedHistory.matches.length === 0 ? (
+            <Text style={styles.uri}>No active match between these users.</Text>
+          ) : (
+            <Text style={styles.uri}>Matched {formatTime(detail.sharedHistory.matches[0].createdAt)}</Text>
+          )}
+          {detail.sharedHistory.messages.map((message) => (
+            <View
+              key={message.id}
+              style={[
+                styles.messageBubble,
+                message.senderUserId === report.targetUserId ? styles.messageFromTarget : null
+              ]}
+            >
+              <Text style={styles.messageSender}>
+                {message.senderUserId === report.targetUserId
+                  ? report.targetFirstName
+                  : report.reporterFirstName ?? report.counterpartFirstName}
+              </Text>
+              <Text style={styles.messageBody}>{message.body}</Text>
+              {message.attachment ? (
+                <Text style={styles.uri}>
+                  {message.attachment.kind === "audio" ? "Voice note" : "Photo"}: {message.attachment.url}
+                </Text>
+              ) : null}
+            </View>
+          ))}
+
+          {report.status !== "closed" ? (
+            <>
+              <TextInput
+                style={styles.searchInput}
+                value={note}
+                onChangeText={setNote}
+                placeholder="Resolution note (optional)"
+                placeholderTextColor={theme.colors.muted}
+              />
+              <View style={styles.row}>
+                <Pressable
+                  style={({ pressed }) => [styles.neutralBtn, pressed && styles.neutralBtnPressed]}
+                  onPress={() => void resolve("dismiss")}
+                  disabled={resolving}
+                >
+                  <Text style={styles.btnText}>Dismiss</Text>
+                </Pressable>
+                <Pressable
+                  style={({ pressed }) => [styles.warnBtn, pressed && styles.warnBtnPressed]}
+                  onPress={() => void resolve("warn")}
+                  disabled={resolving}
+                >
+                  <Text style={styles.btnText}>Warn</Text>
+                </Pressable>
+              </View>
+              <View style={styles.row}>
+                <Pressable
+                  style={({ pressed }) => [styles.banBtn, pressed && styles.banBtnPressed]}
+                  onPress={() => void resolve("ban")}
+                  disabled={resolving}
+                >
+                  <Text style={styles.btnText}>Ban User</Text>
+                </Pressable>
+                <Pressable
+                  style={({ pressed }) => [styles.banBtn, pressed && styles.banBtnPressed]}
+                  onPress={() => void resolve("close_pair")}
+                  disabled={resolving}
+                >
+                  <Text style={styles.btnText}>Close Pair</Text>
+                </Pressable>
+              </View>
+            </>
+          ) : (
+            <Text style={styles.meta}>
+              Resolved: {report.resolution ?? "closed"}
+              {report.resolutionNote ? ` • ${report.resolutionNote}` : ""}
+            </Text>
+          )}
+          <Pressable
+            style={({ pressed }) => [styles.closeBtn, pressed && styles.closeBtnPressed]}
+            onPress={() => setDetail(null)}
+          >
+            <Text style={styles.closeText}>Close</Text>
+          </Pressable>
+        </View>
+      ) : null}
+
+      {!loading && rows.length === 0 ? <Text style={styles.empty}>No reports found.</Text> : null}
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    gap: 12
+  },
+  card: {
+    backgroundColor: theme.colors.card,
+    borderRadius: theme.radius.lg,
+    padding: 16,
+    gap: 8
+  },
+  segmentRow: {
+    flexDirection: "row",
+    gap: 6
+  },
+  segmentBtn: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#E7E1F3",
+    borderRadius: theme.radius.sm,
+    paddingVertical: 8,
+    alignItems: "center"
+  },
+  segmentBtnActive: {
+    backgroundColor: theme.colors.primary
+  },
+  segmentBtnPressed: {
+    opacity: 0.86
+  },
+  segmentText: {
+    color: theme.colors.text,
+    fontSize: 12,
+    fontWeight: "600"
+  },
+  segmentTextActive: {
+    color: "#fff"
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderColor: "#DDD6F2",
+    borderRadius: theme.radius.sm,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: theme.colors.text
+  },
+  filterChip: {
+    color: theme.colors.primary,
+    fontWeight: "700"
+  },
+  itemCard: {
+    backgroundColor: theme.colors.card,
+    borderRadius: theme.radius.lg,
+    padding: 14,
+    gap: 6
+  },
+  itemCardPressed: {
+    opacity: 0.9
+  },
+  detailCard: {
+    backgroundColor: theme.colors.card,
+    borderRadius: theme.radius.lg,
+    padding: 14,
+    gap: 8
+  },
+  detailTitle: {
+    color: theme.colors.text,
+    fontSize: 18,
+    fontWeight: "800"
+  },
+  sectionLabel: {
+    color: theme.colors.text,
+    fontWeight: "700",
+    marginTop: 4
+  },
+  name: {
+    color: theme.colors.text,
+    fontWeight: "700",
+    fontSize: 16
+  },
+  meta: {
+    color: theme.colors.muted
+  },
+  bannedMeta: {
+    color: "#B42318",
+    fontWeight: "700"
+  },
+  uri: {
+    color: theme.colors.muted,
+    fontSize: 12
+  },
+  messageBubble: {
+    backgroundColor: "#F2ECF8",
+    borderRadius: theme.radius.sm,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    gap: 2
+  },
+  messageFromTarget: {
+    backgroundColor: "#FDECEA"
+  },
+  messageSender: {
+    color: theme.colors.text,
+    fontSize: 11,
+    fontWeight: "700"
+  },
+  messageBody: {
+    color: theme.colors.text
+  },
+  row: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 4
+  },
+  neutralBtn: {
+    flex: 1,
+    backgroundColor: "#6B7280",
+    borderRadius: theme.radius.sm,
+    paddingVertical: 10,
+    alignItems: "center"
+  },
+  neutralBtnPressed: {
+    backgroundColor: "#4B5563"
+  },
+  warnBtn: {
+    flex: 1,
+    backgroundColor: "#B54708",
+    borderRadius: theme.radius.sm,
+    paddingVertical: 10,
+    alignItems: "center"
+  },
+  warnBtnPressed: {
+    backgroundColor: "#93370D"
+  },
+  banBtn: {
+    flex: 1,
+    backgroundColor: "#B42318",
+    borderRadius: theme.radius.sm,
+    paddingVertical: 10,
+    alignItems: "center"
+  },
+  banBtnPressed: {
+    backgroundColor: "#8F1C13"
+  },
+  btnText: {
+    color: "#fff",
+    fontWeight: "700"
+  },
+  closeBtn: {
+    marginTop: 2,
+    backgroundColor: "#EDE7F6",
+    borderRadius: theme.radius.sm,
+    alignItems: "center",
+    paddingVertical: 10
+  },
+  closeBtnPressed: {
+    backgroundColor: "#E3D7F5"
+  },
+  closeText: {
+    color: theme.colors.primary,
+    fontWeight: "700"
+  },
+  loadMoreBtn: {
+    backgroundColor: "#EFE8F8",
+    borderRadius: theme.radius.sm,
+    paddingVertical: 11,
+    alignItems: "center"
+  },
+  loadMoreBtnPressed: {
+    backgroundColor: "#E3D7F5"
+  },
+  loadMoreText: {
+    color: theme.colors.primary,
+    fontWeight: "700"
+  },
+  empty: {
+    color: theme.colors.muted,
+    textAlign: "center"
+  },
+  error: {
+    color: "#B42318",
+    fontWeight: "700",
+    textAlign: "center"
+  }
+});
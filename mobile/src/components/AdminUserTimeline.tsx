@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { getAdminAuditLogs, type AdminAuditLog } from "../api";
+import { theme } from "../theme";
+
+const PAGE_SIZE = 20;
+
+const ACTION_LABELS: Record<string, string> = {
+  verification_review: "Verification reviewed",
+  user_ban: "Banned",
+  user_unban: "Unbanned",
+  plan_tier_update: "Plan changed",
+  report_resolve: "Report resolved",
+  pair_force_close: "Pair force-closed"
+};
+
+function describe(entry: AdminAuditLog) {
+  const label = ACTION_LABELS[entry.action] ?? entry.action;
+  const detail =
+    entry.metadata.decision ?? entry.metadata.planTier ?? entry.metadata.resolution ?? entry.metadata.reason ?? null;
+  return detail ? `${label}: ${String(detail)}` : label;
+}
+
+export function AdminUserTimeline({
+  authToken,
+  userId,
+  refreshKey
+}: {
+  authToken: string;
+  userId: string;
+  refreshKey?: number;
+}) {
+  const [entries, setEntries] = useState<AdminAuditLog[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    getAdminAuditLogs({ targetUserId: userId, limit: PAGE_SIZE }, authToken)
+      .then((page) => {
+        if (!cancelled) {
+          setEntries(page.rows);
+          setNextCursor(page.nextCursor);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError((err as Error).message);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [authToken, userId, refreshKey]);
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) {
+      return;
+    }
+    setLoadingMore(true);
+    try {
+      const page = await getAdminAuditLogs({ targetUserId: userId, limit: PAGE_SIZE, cursor: nextCursor }, authToken);
+      setEntries((prev) => [...prev, ...page.rows]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  return (
+    <View style={styles.wrap}>
+      <Text style={styles.title}>Admin timeline</Text>
+      {entries.length === 0 && !error ? <Text style={styles.meta}>No admin actions yet.</Text> : null}
+      {entries.map((entry) => (
+        <View key={entry.id} style={styles.entry}>
+          <Text style={styles.action}>{describe(entry)}</Text>
+          <Text style={styles.meta}>
+            {new Date(entry.createdAt).toLocaleString()} • by {entry.adminName || entry.adminUserId}
+          </Text>
+        </View>
+      ))}
+      {nextCursor ? (
+        <Pressable onPress={() => void loadMore()} disabled={loadingMore}>
+          <Text style={styles.more}>{loadingMore ? "Loading..." : "Show older"}</Text>
+        </Pressable>
+      ) : null}
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    gap: 6,
+    marginTop: 4
+  },
+  title: {
+    color: theme.colors.text,
+    fontWeight: "700"
+  },
+  entry: {
+    borderLeftWidth: 2,
+    borderLeftColor: "#DDD6F2",
+    paddingLeft: 10,
+    gap: 2
+  },
+  action: {
+    color: theme.colors.text
+  },
+  meta: {
+    color: theme.colors.muted,
+    fontSize: 12
+  },
+  more: {
+    color: theme.colors.primary,
+    fontWeight: "700"
+  },
+  error: {
+    color: "#B42318",
+    fontWeight: "700"
+  }
+});
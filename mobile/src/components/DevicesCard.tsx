@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { ActivityIndicator, Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+import {
+  deleteAuthSession,
+  getAuthSessions,
+  postAuthSessionName,
+  postRevokeOtherAuthSessions,
+  type ApiAuthSession
+} from "../api";
+import { theme } from "../theme";
+
+const FONT_REGULAR = "Satoshi-Regular";
+const FONT_MEDIUM = "Satoshi-Medium";
+
+const PLATFORM_LABELS: Record<string, string> = {
+  ios: "iOS",
+  android: "Android",
+  web: "Web"
+};
+
+function describeSession(session: ApiAuthSession) {
+  const parts = [PLATFORM_LABELS[session.platform] ?? null, session.approximateIp].filter(Boolean);
+  parts.push(`last active ${new Date(session.lastUsedAt).toLocaleDateString()}`);
+  return parts.join(" • ");
+}
+
+export function DevicesCard() {
+  const [sessions, setSessions] = useState<ApiAuthSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAuthSessions()
+      .then((rows) => {
+        if (!cancelled) {
+          setSessions(rows);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError((err as Error).message);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const startRename = (session: ApiAuthSession) => {
+    setEditingId(session.id);
+    setDraftName(session.name ?? session.deviceLabel);
+  };
+
+  const saveName = async () => {
+    if (!editingId || busy) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      const saved = await postAuthSessionName(editingId, draftName.trim() || null);
+      setSessions((prev) => prev.map((session) => (session.id === saved.id ? { ...session, name: saved.name } : session)));
+      setEditingId(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revokeSession = async (sessionId: string) => {
+    setError(null);
+    try {
+      await deleteAuthSession(sessionId);
+      setSessions((prev) => prev.filter((session) => session.id !== sessionId));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const revokeOthers = async () => {
+    if (busy) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await postRevokeOtherAuthSessions();
+      setSessions((prev) => prev.filter((session) => session.current));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const hasOthers = sessions.some((session) => !session.current);
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>Devices</Text>
+      <Text style={styles.helper}>Places where you're signed in. Remove any you don't recognise.</Text>
+      {loading ? <ActivityIndicator color={theme.colors.primary} /> : null}
+      {sessions.map((session) => (
+        <View key={session.id} style={styles.sessionRow}>
+          {editingId === session.id ? (
+            <View style={styles.editRow}>
+              <TextInput
+                style={styles.input}
+                value={draftName}
+                onChangeText={setDraftName}
+                placeholder={session.deviceLabel}
+                maxLength={60}
+                placeholderTextColor={theme.colors.muted}
+              />
+              <Pressable onPress={() => void saveName()} disabled={busy}>
+                <Text style={styles.actionText}>Save</Text>
+              </Pressable>
+            </View>
+          ) : (
+            <View style={styles.sessionInfo}>
+              <Text style={styles.sessionName}>
+                {session.name ?? session.deviceLabel}
+                {session.current ? " (this device)" : ""}
+              </Text>
+              <Text style={styles.helper}>{describeSession(session)}</Text>
+            </View>
+          )}
+          {editingId === session.id ? null : (
+            <View style={styles.actions}>
+              <Pressable onPress={() => startRename(session)}>
+                <Text style={styles.actionText}>Rename</Text>
+              </Pressable>
+              {session.current ? null : (
+                <Pressable onPress={() => void revokeSession(session.id)}>
+                  <Text style={styles.removeText}>Sign out</Text>
+                </Pressable>
+              )}
+            </View>
+          )}
+        </View>
+      ))}
+      {hasOthers ? (
+        <Pressable style={[styles.revokeBtn, busy && styles.disabled]} onPress={() => void revokeOthers()} disabled={busy}>
+          <Text style={styles.revokeText}>Sign out everywhere else</Text>
+        </Pressable>
+      ) : null}
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: theme.colors.card,
+    borderRadius: theme.radius.lg,
+    padding: 16,
+    gap: 10
+  },
+  sectionTitle: {
+    color: theme.colors.text,
+    fontWeight: "700",
+    fontSize: 16,
+    fontFamily: FONT_REGULAR
+  },
+  helper: {
+    color: theme.colors.muted,
+    fontSize: 12,
+    fontFamily: FONT_MEDIUM
+  },
+  sessionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 8,
+    backgroundColor: "#F7F2FC",
+    borderRadius: theme.radius.sm,
+    paddingHorizontal: 12,
+    paddingVertical: 8
+  },
+  sessionInfo: { gap: 2, flex: 1 },
+  sessionName: { color: theme.colors.text, fontWeight: "700", fontFamily: FONT_REGULAR },
+  editRow: { flexDirection: "row", alignItems: "center", gap: 8, flex: 1 },
+  actions: { alignItems: "flex-end", gap: 4 },
+  actionText: { color: theme.colors.primary, fontWeight: "700", fontFamily: FONT_REGULAR },
+  removeText: { color: theme.colors.danger, fontWeight: "700", fontFamily: FONT_REGULAR },
+  input: {
+    flex: 1,
+    backgroundColor: "#F2ECF8",
+    borderRadius: theme.radius.sm,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    color: theme.colors.text,
+    fontFamily: FONT_MEDIUM
+  },
+  revokeBtn: {
+    borderWidth: 1,
+    borderColor: theme.colors.danger,
+    borderRadius: theme.radius.sm,
+    alignItems: "center",
+    paddingVertical: 10
+  },
+  revokeText: { color: theme.colors.danger, fontWeight: "700", fontFamily: FONT_REGULAR },
+  disabled: { opacity: 0.6 },
+  error: { color: theme.colors.danger, fontWeight: "700", fontFamily: FONT_REGULAR }
+});
@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { ActivityIndicator, Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+import {
+  deleteTrustedContact,
+  getTrustedContacts,
+  postTrustedContact,
+  type ApiTrustedContact
+} from "../api";
+import { theme } from "../theme";
+
+const FONT_REGULAR = "Satoshi-Regular";
+const FONT_MEDIUM = "Satoshi-Medium";
+
+export function TrustedContactsCard() {
+  const [contacts, setContacts] = useState<ApiTrustedContact[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getTrustedContacts()
+      .then((rows) => {
+        if (!cancelled) {
+          setContacts(rows);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError((err as Error).message);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const addContact = async () => {
+    if (saving) {
+      return;
+    }
+    if (!name.trim() || (!phone.trim() && !email.trim())) {
+      setError("Add a name and a phone number or email.");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const contact = await postTrustedContact(name.trim(), phone.trim(), email.trim());
+      setContacts((prev) => [...prev, contact]);
+      setName("");
+      setPhone("");
+      setEmail("");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeContact = async (contactId: string) => {
+    setError(null);
+    try {
+      await deleteTrustedContact(contactId);
+      setContacts((prev) => prev.filter((contact) => contact.id !== contactId));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>Trusted Contacts</Text>
+      <Text style={styles.helper}>
+        We alert these people if you miss a meetup check-in or tap "I need help".
+      </Text>
+      {loading ? <ActivityIndicator color={theme.colors.primary} /> : null}
+      {contacts.map((contact) => (
+        <View key={contact.id} style={styles.contactRow}>
+          <View style={styles.contactInfo}>
+            <Text style={styles.contactName}>{contact.name}</Text>
+            <Text style={styles.helper}>{contact.phone ?? contact.email}</Text>
+          </View>
+          <Pressable onPress={() => void removeContact(contact.id)}>
+            <Text style={styles.removeText}>Remove</Text>
+          </Pressable>
+        </View>
+      ))}
+      <TextInput
+        style={styles.input}
+        value={name}
+        onChangeText={setName}
+        placeholder="Name"
+        placeholderTextColor={theme.colors.muted}
+      />
+      <TextInput
+        style={styles.input}
+        value={phone}
+        onChangeText={setPhone}
+        placeholder="Phone"
+        keyboardType="phone-pad"
+        placeholderTextColor={theme.colors.muted}
+      />
+      <TextInput
+        style={styles.input}
+        value={email}
+        onChangeText={setEmail}
+        placeholder="Email (optional)"
+        autoCapitalize="none"
+        keyboardType="email-address"
+        placeholderTextColor={theme.colors.muted}
+      />
+      <Pressable style={[styles.addBtn, saving && styles.disabled]} onPress={() => void addContact()} disabled={saving}>
+        <Text style={styles.addText}>{saving ? "Adding..." : "Add Contact"}</Text>
+      </Pressable>
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: theme.colors.card,
+    borderRadius: theme.radius.lg,
+    padding: 16,
+    gap: 10
+  },
+  sectionTitle: {
+    color: theme.colors.text,
+    fontWeight: "700",
+    fontSize: 16,
+    fontFamily: FONT_REGULAR
+  },
+  helper: {
+    color: theme.colors.muted,
+    fontSize: 12,
+    fontFamily: FONT_MEDIUM
+  },
+  contactRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "#F7F2FC",
+    borderRadius: theme.radius.sm,
+    paddingHorizontal: 12,
+    paddingVertical: 8
+  },
+  contactInfo: { gap: 2 },
+  contactName: { color: theme.colors.text, fontWeight: "700", fontFamily: FONT_REGULAR },
+  removeText: { color: theme.colors.danger, fontWeight: "700", fontFamily: FONT_REGULAR },
+  input: {
+    backgroundColor: "#F2ECF8",
+    borderRadius: theme.radius.sm,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: theme.colors.text,
+    fontFamily: FONT_MEDIUM
+  },
+  addBtn: {
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.radius.sm,
+    alignItems: "center",
+    paddingVertical: 10
+  },
+  addText: { color: "#fff", fontWeight: "700", fontFamily: FONT_REGULAR },
+  disabled: { opacity: 0.6 },
+  error: { color: theme.colors.danger, fontWeight: "700", fontFamily: FONT_REGULAR }
+});
@@ -1,18 +1,20 @@
-import { useEffect, useState } from "react";
-import { ActivityIndicator, Image, Pressable, StyleSheet, Text, View } from "react-native";
+import { useEffect, useRef, useState } from "react";
+import { ActivityIndicator, Alert, Image, Pressable, StyleSheet, Text, View } from "react-native";
+import * as Location from "expo-location";
+import {
+  getActiveSafetyCheckin,
+  getNearbyPlaces,
+  postSafetyCheckinOk,
+  postSafetyPanic,
+  type ApiPlace,
+  type ApiSafetyCheckin
+} from "../api";
 import type { MatchPreview, OutTonightState } from "../types";
 import { theme } from "../theme";
 
 const FONT_REGULAR = "Satoshi-Regular";
 const FONT_MEDIUM = "Satoshi-Medium";
 
-const PLACE_OPTIONS = [
-  "Starbucks - Main Street",
-  "Whole Foods Cafe - Downtown",
-  "Public Library Courtyard",
-  "City Park Main Entrance"
-];
-
 const fmtCountdown = (targetTs: number | null) => {
   if (!targetTs) {
     return "--:--";
@@ -26,6 +28,11 @@ const fmtCountdown = (targetTs: number | null) => {
   return `${min}:${sec}`;
 };
 
+const SAFETY_CHECKIN_POLL_MS = 60 * 1000;
+
+const fmtClock = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+
 const getOutLabel = () => {
   const hour = new Date().getHours();
   if (hour >= 4 && hour < 12) {
@@ -51,11 +58,8 @@ export function ActiveMatchesScreen({
   eligibleOutCount,
   startOutTonight,
   stopOutTonight,
-  simulateCandidateResponses,
-  showDevTools = false,
   chooseCandidate,
   sendMeetOffer,
-  respondToMeetOffer,
   syncMeetupTimers,
   respondIncomingRequest
 }: {
@@ -67,16 +71,18 @@ export function ActiveMatchesScreen({
   eligibleOutCount: number;
   startOutTonight: () => void;
   stopOutTonight: () => void;
-  simulateCandidateResponses: () => void;
-  showDevTools?: boolean;
   chooseCandidate: (matchId: string) => void;
-  sendMeetOffer: (placeLabel: string) => void;
-  respondToMeetOffer: (accept: boolean) => void;
+  sendMeetOffer: (placeId: string) => void;
   syncMeetupTimers: () => void;
   respondIncomingRequest: (sessionId: string, response: "yes" | "no") => void;
 }) {
   const [showOpenToMeeting, setShowOpenToMeeting] = useState(true);
   const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [places, setPlaces] = useState<ApiPlace[]>([]);
+  const [placesLoading, setPlacesLoading] = useState(false);
+  const [placesError, setPlacesError] = useState<string | null>(null);
+  const [safetyCheckin, setSafetyCheckin] = useState<ApiSafetyCheckin | null>(null);
+  const [safetyNotice, setSafetyNotice] = useState<string | null>(null);
 
   const runBusy = async (key: string, task: () => Promise<void> | void) => {
     if (busyAction) {
@@ -90,9 +96,12 @@ export function ActiveMatchesScreen({
     }
   };
 
+  const syncMeetupTimersRef = useRef(syncMeetupTimers);
+  syncMeetupTimersRef.current = syncMeetupTimers;
+
   useEffect(() => {
     const id = setInterval(() => {
-      syncMeetupTimers();
+      syncMeetupTimersRef.current();
     }, 1000);
     return () => clearInterval(id);
   }, []);
@@ -101,6 +110,99 @@ export function ActiveMatchesScreen({
     (candidate) => candidate.matchId === outTonight.selectedCandidateMatchId
   );
 
+  useEffect(() => {
+    const matchId = selectedCandidate?.matchId;
+    if (!matchId) {
+      setPlaces([]);
+      setPlacesError(null);
+      return;
+    }
+    let cancelled = false;
+    setPlacesLoading(true);
+    setPlacesError(null);
+    getNearbyPlaces(matchId)
+      .then((result) => {
+        if (!cancelled) {
+          setPlaces(result.places);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setPlaces([]);
+          setPlacesError((err as Error).message);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setPlacesLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCandidate?.matchId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadCheckin = () => {
+      void getActiveSafetyCheckin()
+        .then((result) => {
+          if (!cancelled) {
+            setSafetyCheckin(result.checkin);
+          }
+        })
+        .catch(() => null);
+    };
+    loadCheckin();
+    const id = setInterval(loadCheckin, SAFETY_CHECKIN_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+    };
+  }, [outTonight.offerStatus]);
+
+  const confirmCheckin = async () => {
+    if (!safetyCheckin) {
+      return;
+    }
+    await postSafetyCheckinOk(safetyCheckin.id);
+    setSafetyCheckin(null);
+    setSafetyNotice("Glad you're OK. Enjoy the rest of your meetup.");
+  };
+
+  const sendPanic = async () => {
+    let latitude: number | null = null;
+    let longitude: number | null = null;
+    try {
+      const permission = await Location.getForegroundPermissionsAsync();
+      if (permission.granted) {
+        const current = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+        latitude = current.coords.latitude;
+        longitude = current.coords.longitude;
+      }
+    } catch {
+      // Fall back to the last location the server already has.
+    }
+    try {
+      const result = await postSafetyPanic(safetyCheckin?.offerId ?? null, latitude, longitude);
+      setSafetyCheckin(null);
+      setSafetyNotice(
+        result.contactsNotified > 0
+          ? `Alerted ${result.contactsNotified} trusted contact${result.contactsNotified === 1 ? "" : "s"}. If you are in danger, call 911.`
+          : "Help request recorded. Add trusted contacts in Profile. If you are in danger, call 911."
+      );
+    } catch (err) {
+      setSafetyNotice(`Could not send help request: ${(err as Error).message}. If you are in danger, call 911.`);
+    }
+  };
+
+  const confirmPanic = () => {
+    Alert.alert("Send help request?", "We will alert your trusted contacts with your location and meetup place.", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Send", style: "destructive", onPress: () => void runBusy("safety-panic", sendPanic) }
+    ]);
+  };
+
   const yesCandidates = outTonight.candidates.filter((candidate) => candidate.response === "yes");
   const readyMatches = matches.filter((match) => bothMeetYes(match));
   const outLabel = getOutLabel();
@@ -108,6 +210,47 @@ export function ActiveMatchesScreen({
 
   return (
     <View style={styles.wrap}>
+      {safetyCheckin ? (
+        <View style={styles.checkinCard}>
+          <Text style={styles.checkinTitle}>
+            {safetyCheckin.status === "scheduled" ? "Safety check-in" : "Are you OK?"}
+          </Text>
+          <Text style={styles.checkinText}>
+            {safetyCheckin.status === "scheduled"
+              ? `We'll check on you at ${fmtClock(safetyCheckin.dueAt)} after your meetup at ${safetyCheckin.placeLabel}.`
+              : `Let us know your meetup at ${safetyCheckin.placeLabel} is going fine.`}
+          </Text>
+          {safetyCheckin.status === "escalated" ? (
+            <Text style={styles.checkinText}>We haven't heard from you, so your trusted contacts were alerted.</Text>
+          ) : null}
+          <View style={styles.offerActions}>
+            <Pressable
+              style={({ pressed }) => [styles.actionBtn, styles.acceptBtn, pressed && styles.pressedBtn]}
+              onPress={() => void runBusy("safety-ok", confirmCheckin)}
+              disabled={Boolean(busyAction)}
+            >
+              {busyAction === "safety-ok" ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={styles.actionBtnText}>I'm OK</Text>
+              )}
+            </Pressable>
+            <Pressable
+              style={({ pressed }) => [styles.actionBtn, styles.declineBtn, pressed && styles.pressedBtn]}
+              onPress={confirmPanic}
+              disabled={Boolean(busyAction)}
+            >
+              {busyAction === "safety-panic" ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={styles.actionBtnText}>I need help</Text>
+              )}
+            </Pressable>
+          </View>
+        </View>
+      ) : null}
+      {safetyNotice ? <Text style={styles.flowHint}>{safetyNotice}</Text> : null}
+
       <View style={styles.sessionCard}>
         <Text style={styles.sessionTitle}>{outLabel}</Text>
         <Text style={styles.sessionSub}>Eligible tonight: {eligibleOutCount}</Text>
@@ -199,15 +342,6 @@ export function ActiveMatchesScreen({
         {outTonight.enabled && (
           <View style={styles.flowWrap}>
             <Text style={styles.flowTitle}>Interested now</Text>
-            {showDevTools ? (
-              <Pressable
-                style={({ pressed }) => [styles.actionBtn, styles.secondaryBtn, pressed && styles.pressedBtn]}
-                onPress={() => void runBusy("refresh-responses", simulateCandidateResponses)}
-                disabled={Boolean(busyAction)}
-              >
-                <Text style={styles.actionBtnText}>Refresh Responses</Text>
-              </Pressable>
-            ) : null}
 
             {outTonight.candidates.length === 0 ? (
               <Text style={styles.flowHint}>No candidates yet.</Text>
@@ -261,15 +395,23 @@ export function ActiveMatchesScreen({
               <View style={styles.offerWrap}>
                 <Text style={styles.flowTitle}>Send public place to {selectedCandidate.name}</Text>
                 <View style={styles.placeList}>
-                  {PLACE_OPTIONS.map((place) => (
+                  {placesLoading ? <ActivityIndicator color={theme.colors.primary} /> : null}
+                  {!placesLoading && placesError ? <Text style={styles.flowHint}>{placesError}</Text> : null}
+                  {!placesLoading && !placesError && places.length === 0 ? (
+                    <Text style={styles.flowHint}>No open public places nearby right now.</Text>
+                  ) : null}
+                  {places.map((place) => (
                     <Pressable
-                      key={place}
+                      key={place.id}
                       style={({ pressed }) => [styles.placeBtn, meetupLocked && styles.actionBtnDisabled, pressed && styles.pressedBtn]}
-                      onPress={() => void runBusy(`offer-${place}`, () => sendMeetOffer(place))}
+                      onPress={() => void runBusy(`offer-${place.id}`, () => sendMeetOffer(place.id))}
                       disabled={meetupLocked || Boolean(busyAction)}
                     >
                       <Text style={styles.placeBtnText}>
-                        {busyAction === `offer-${place}` ? "Sending..." : place}
+                        {busyAction === `offer-${place.id}` ? "Sending..." : place.name}
+                      </Text>
+                      <Text style={styles.placeMeta}>
+                        {place.category} · {place.distanceMiles.toFixed(1)} mi from midpoint
                       </Text>
                     </Pressable>
                   ))}
@@ -283,30 +425,6 @@ export function ActiveMatchesScreen({
                 <Text style={styles.offerStateText}>
                   Waiting for recipient response: {fmtCountdown(outTonight.offerRespondBy)}
                 </Text>
-                <View style={styles.offerActions}>
-                  <Pressable
-                    style={({ pressed }) => [styles.actionBtn, styles.acceptBtn, pressed && styles.pressedBtn]}
-                    onPress={() => void runBusy("offer-accept", () => respondToMeetOffer(true))}
-                    disabled={Boolean(busyAction)}
-                  >
-                    {busyAction === "offer-accept" ? (
-                      <ActivityIndicator color="#fff" size="small" />
-                    ) : (
-                      <Text style={styles.actionBtnText}>Accept</Text>
-                    )}
-                  </Pressable>
-                  <Pressable
-                    style={({ pressed }) => [styles.actionBtn, styles.declineBtn, pressed && styles.pressedBtn]}
-                    onPress={() => void runBusy("offer-decline", () => respondToMeetOffer(false))}
-                    disabled={Boolean(busyAction)}
-                  >
-                    {busyAction === "offer-decline" ? (
-                      <ActivityIndicator color="#fff" size="small" />
-                    ) : (
-                      <Text style={styles.actionBtnText}>Decline</Text>
-                    )}
-                  </Pressable>
-                </View>
               </View>
             )}
 
@@ -450,11 +568,20 @@ const styles = StyleSheet.create({
   },
   openBtn: { backgroundColor: theme.colors.primary },
   closeBtn: { backgroundColor: theme.colors.danger },
-  secondaryBtn: { backgroundColor: theme.colors.primaryLight },
   acceptBtn: { backgroundColor: theme.colors.success, flex: 1 },
   declineBtn: { backgroundColor: theme.colors.danger, flex: 1 },
   actionBtnText: { color: "#fff", fontWeight: "700", fontFamily: FONT_REGULAR },
   actionBtnDisabled: { opacity: 0.45 },
+  checkinCard: {
+    backgroundColor: "#FFF4F5",
+    borderRadius: theme.radius.md,
+    borderWidth: 1,
+    borderColor: "#F3C4C9",
+    padding: 14,
+    gap: 8
+  },
+  checkinTitle: { color: theme.colors.text, fontWeight: "700", fontSize: 16, fontFamily: FONT_REGULAR },
+  checkinText: { color: theme.colors.muted, fontFamily: FONT_MEDIUM },
   flowWrap: { marginTop: 4, gap: 8 },
   flowTitle: { color: theme.colors.text, fontWeight: "700", fontFamily: FONT_REGULAR },
   flowHint: { color: theme.colors.muted, fontFamily: FONT_MEDIUM },
@@ -543,6 +670,7 @@ const styles = StyleSheet.create({
     paddingHorizontal: 10
   },
   placeBtnText: { color: theme.colors.primary, fontWeight: "700", fontFamily: FONT_REGULAR },
+  placeMeta: { color: theme.colors.muted, fontSize: 12, marginTop: 2, fontFamily: FONT_REGULAR },
   offerState: {
     backgroundColor: theme.colors.card,
     borderRadius: theme.radius.sm,
@@ -10,6 +10,9 @@ import {
   type AdminUserListItem,
   type VerificationSubmission
 } from "../api";
+import { AdminLoginHistory } from "../components/AdminLoginHistory";
+import { AdminReportsQueue } from "../components/AdminReportsQueue";
+import { AdminUserTimeline } from "../components/AdminUserTimeline";
 import { theme } from "../theme";
 
 const PAGE_SIZE = 40;
@@ -21,11 +24,13 @@ export function AdminScreen({ authToken }: { authToken: string }) {
   const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selected, setSelected] = useState<VerificationSubmission | null>(null);
-  const [segment, setSegment] = useState<"not_verified" | "verified">("not_verified");
+  const [segment, setSegment] = useState<"not_verified" | "verified" | "reports">("not_verified");
   const [query, setQuery] = useState("");
   const [queryDraft, setQueryDraft] = useState("");
   const [countVerified, setCountVerified] = useState(0);
   const [countNotVerified, setCountNotVerified] = useState(0);
+  const [timelineVersion, setTimelineVersion] = useState(0);
+  const [loginHistoryUserId, setLoginHistoryUserId] = useState<string | null>(null);
 
   const hasMore = rows.length < total;
 
@@ -39,6 +44,9 @@ export function AdminScreen({ authToken }: { authToken: string }) {
   };
 
   const loadPage = async (reset = false) => {
+    if (segment === "reports") {
+      return;
+    }
     const targetOffset = reset ? 0 : rows.length;
     if (reset) {
       setLoading(true);
@@ -116,6 +124,7 @@ export function AdminScreen({ authToken }: { authToken: string }) {
       } else {
         await postAdminUnbanUser(userId, authToken);
       }
+      setTimelineVersion((prev) => prev + 1);
       await loadPage(true);
       setSelected((prev) =>
         prev && prev.userId === userId
@@ -134,6 +143,7 @@ export function AdminScreen({ authToken }: { authToken: string }) {
     setError(null);
     try {
       await postAdminSetPlanTier(userId, planTier, authToken, undefined, "manual_admin_grant");
+      setTimelineVersion((prev) => prev + 1);
       await loadPage(true);
     } catch (err) {
       setError((err as Error).message);
@@ -172,162 +182,200 @@ export function AdminScreen({ authToken }: { authToken: string }) {
               Verified ({countVerified})
             </Text>
           </Pressable>
-        </View>
-        <TextInput
-          style={styles.searchInput}
-          value={queryDraft}
-          onChangeText={setQueryDraft}
-          placeholder="Search name, username, or email"
-          placeholderTextColor={theme.colors.muted}
-          autoCapitalize="none"
-        />
-        <Pressable
-          style={({ pressed }) => [styles.refreshBtn, pressed && styles.refreshBtnPressed]}
-          onPress={() => void loadPage(true)}
-          disabled={loading}
-        >
-          <Text style={styles.refreshText}>{loading ? "Refreshing..." : "Refresh"}</Text>
-        </Pressable>
-      </View>
-
-      {rows.map((user) => (
-        <View key={user.id} style={styles.itemCard}>
           <Pressable
-            style={({ pressed }) => [pressed && styles.itemCardPressed]}
+            style={({ pressed }) => [
+              styles.segmentBtn,
+              segment === "reports" && styles.segmentBtnActive,
+              pressed && styles.segmentBtnPressed
+            ]}
             onPress={() => {
-              if (!user.verified) {
-                void openSubmission(user);
-              }
+              setSelected(null);
+              setSegment("reports");
             }}
           >
-            <Text style={styles.name}>
-              {user.firstName} {user.lastName ?? ""}
-            </Text>
-            <Text style={styles.meta}>
-              @{user.username ?? "no-username"} • {user.email ?? "no-email"}
-            </Text>
-            <Text style={styles.meta}>Age {user.age} • {user.gender}</Text>
-            {user.verified ? (
-              <Text style={styles.meta}>Membership: {String(user.planTier ?? "free").toUpperCase()}</Text>
-            ) : (
-              <Text style={styles.uri}>Tap card to review verification photos</Text>
-            )}
+            <Text style={[styles.segmentText, segment === "reports" && styles.segmentTextActive]}>Reports</Text>
           </Pressable>
-          <View style={styles.row}>
-            <Pressable
-              style={({ pressed }) => [styles.planBtn, pressed && styles.planBtnPressed]}
-              onPress={() => void setPlanTierForUser(user.id, "plus")}
-            >
-              <Text style={styles.btnText}>Grant Plus</Text>
-            </Pressable>
-            <Pressable
-              style={({ pressed }) => [styles.planResetBtn, pressed && styles.planResetBtnPressed]}
-              onPress={() => void setPlanTierForUser(user.id, "free")}
-            >
-              <Text style={styles.btnText}>Set Free</Text>
-            </Pressable>
-          </View>
-          <View style={styles.row}>
-            <Pressable
-              style={({ pressed }) => [styles.banBtn, pressed && styles.banBtnPressed]}
-              onPress={() => void setBanStateForUser(user.id, true)}
-            >
-              <Text style={styles.btnText}>Ban</Text>
-            </Pressable>
-            <Pressable
-              style={({ pressed }) => [styles.unbanBtn, pressed && styles.unbanBtnPressed]}
-              onPress={() => void setBanStateForUser(user.id, false)}
-            >
-              <Text style={styles.btnText}>Unban</Text>
-            </Pressable>
-          </View>
         </View>
-      ))}
-
-      {hasMore ? (
-        <Pressable
-          style={({ pressed }) => [styles.loadMoreBtn, pressed && styles.loadMoreBtnPressed]}
-          onPress={() => void loadPage(false)}
-          disabled={loadingMore}
-        >
-          <Text style={styles.loadMoreText}>{loadingMore ? "Loading..." : `Load more (${rows.length}/${total})`}</Text>
-        </Pressable>
-      ) : null}
-
-      {selected ? (
-        <View style={styles.detailCard}>
-          <Text style={styles.detailTitle}>Review Submission</Text>
-          <Text style={styles.meta}>
-            {selected.firstName} {selected.lastName ?? ""}
-          </Text>
-          <Text style={styles.meta}>
-            {selectedUser?.email ?? "no-email"} • @{selectedUser?.username ?? "no-username"}
-          </Text>
-          <Text style={styles.meta}>Age {selected.age} • {selected.gender}</Text>
-          <Text style={[styles.meta, selected.isBanned ? styles.bannedMeta : null]}>
-            Status: {selected.isBanned ? "Banned" : "Active"}
-          </Text>
-
-          <Text style={styles.imageLabel}>Selfie</Text>
-          <Image source={{ uri: selected.selfieUri }} style={styles.image} resizeMode="cover" />
-          <Text style={styles.imageLabel}>Driver License</Text>
-          <Image source={{ uri: selected.idDocumentUri }} style={styles.image} resizeMode="cover" />
-
-          <View style={styles.row}>
-            <Pressable
-              style={({ pressed }) => [styles.approveBtn, pressed && styles.approveBtnPressed]}
-              onPress={() => void review(selected.id, "approved")}
-            >
-              <Text style={styles.btnText}>Verify</Text>
-            </Pressable>
+        {segment === "reports" ? null : (
+          <>
+            <TextInput
+              style={styles.searchInput}
+              value={queryDraft}
+              onChangeText={setQueryDraft}
+              placeholder="Search name, username, or email"
+              placeholderTextColor={theme.colors.muted}
+              autoCapitalize="none"
+            />
             <Pressable
-              style={({ pressed }) => [styles.rejectBtn, pressed && styles.rejectBtnPressed]}
-              onPress={() => void review(selected.id, "rejected")}
+              style={({ pressed }) => [styles.refreshBtn, pressed && styles.refreshBtnPressed]}
+              onPress={() => void loadPage(true)}
+              disabled={loading}
             >
-              <Text style={styles.btnText}>Reject</Text>
+              <Text style={styles.refreshText}>{loading ? "Refreshing..." : "Refresh"}</Text>
             </Pressable>
-          </View>
-          <View style={styles.row}>
-            {selected.isBanned ? (
+          </>
+        )}
+      </View>
+
+      {segment === "reports" ? (
+        <AdminReportsQueue authToken={authToken} />
+      ) : (
+        <>
+          {rows.map((user) => (
+            <View key={user.id} style={styles.itemCard}>
               <Pressable
-                style={({ pressed }) => [styles.unbanBtn, pressed && styles.unbanBtnPressed]}
-                onPress={() => void setBanStateForUser(selected.userId, false)}
+                style={({ pressed }) => [pressed && styles.itemCardPressed]}
+                onPress={() => {
+                  if (!user.verified) {
+                    void openSubmission(user);
+                  }
+                }}
               >
-                <Text style={styles.btnText}>Unban User</Text>
+                <Text style={styles.name}>
+                  {user.firstName} {user.lastName ?? ""}
+                </Text>
+                <Text style={styles.meta}>
+                  @{user.username ?? "no-username"} • {user.email ?? "no-email"}
+                </Text>
+                <Text style={styles.meta}>Age {user.age} • {user.gender}</Text>
+                {user.verified ? (
+                  <Text style={styles.meta}>Membership: {String(user.planTier ?? "free").toUpperCase()}</Text>
+                ) : (
+                  <Text style={styles.uri}>Tap card to review verification photos</Text>
+                )}
+                {user.loginLockedUntil && new Date(user.loginLockedUntil).getTime() > Date.now() ? (
+                  <Text style={[styles.meta, styles.bannedMeta]}>
+                    Login locked until {new Date(user.loginLockedUntil).toLocaleTimeString()}
+                  </Text>
+                ) : null}
               </Pressable>
-            ) : (
               <Pressable
-                style={({ pressed }) => [styles.banBtn, pressed && styles.banBtnPressed]}
-                onPress={() => void setBanStateForUser(selected.userId, true)}
+                onPress={() => setLoginHistoryUserId((prev) => (prev === user.id ? null : user.id))}
               >
-                <Text style={styles.btnText}>Ban User</Text>
+                <Text style={[styles.uri, (user.failedLogins24h ?? 0) > 0 ? styles.bannedMeta : null]}>
+                  Failed logins (24h): {user.failedLogins24h ?? 0}
+                  {loginHistoryUserId === user.id ? " • Hide history" : " • Show history"}
+                </Text>
               </Pressable>
-            )}
-          </View>
-          <View style={styles.row}>
-            <Pressable
-              style={({ pressed }) => [styles.planBtn, pressed && styles.planBtnPressed]}
-              onPress={() => void setPlanTierForUser(selected.userId, "plus")}
-            >
-              <Text style={styles.btnText}>Grant Plus</Text>
-            </Pressable>
+              {loginHistoryUserId === user.id ? <AdminLoginHistory authToken={authToken} userId={user.id} /> : null}
+              <View style={styles.row}>
+                <Pressable
+                  style={({ pressed }) => [styles.planBtn, pressed && styles.planBtnPressed]}
+                  onPress={() => void setPlanTierForUser(user.id, "plus")}
+                >
+                  <Text style={styles.btnText}>Grant Plus</Text>
+                </Pressable>
+                <Pressable
+                  style={({ pressed }) => [styles.planResetBtn, pressed && styles.planResetBtnPressed]}
+                  onPress={() => void setPlanTierForUser(user.id, "free")}
+                >
+                  <Text style={styles.btnText}>Set Free</Text>
+                </Pressable>
+              </View>
+              <View style={styles.row}>
+                <Pressable
+                  style={({ pressed }) => [styles.banBtn, pressed && styles.banBtnPressed]}
+                  onPress={() => void setBanStateForUser(user.id, true)}
+                >
+                  <Text style={styles.btnText}>Ban</Text>
+                </Pressable>
+                <Pressable
+                  style={({ pressed }) => [styles.unbanBtn, pressed && styles.unbanBtnPressed]}
+                  onPress={() => void setBanStateForUser(user.id, false)}
+                >
+                  <Text style={styles.btnText}>Unban</Text>
+                </Pressable>
+              </View>
+            </View>
+          ))}
+
+          {hasMore ? (
             <Pressable
-              style={({ pressed }) => [styles.planResetBtn, pressed && styles.planResetBtnPressed]}
-              onPress={() => void setPlanTierForUser(selected.userId, "free")}
+              style={({ pressed }) => [styles.loadMoreBtn, pressed && styles.loadMoreBtnPressed]}
+              onPress={() => void loadPage(false)}
+              disabled={loadingMore}
             >
-              <Text style={styles.btnText}>Set Free</Text>
+              <Text style={styles.loadMoreText}>{loadingMore ? "Loading..." : `Load more (${rows.length}/${total})`}</Text>
             </Pressable>
-          </View>
-          <Pressable
-            style={({ pressed }) => [styles.closeBtn, pressed && styles.closeBtnPressed]}
-            onPress={() => setSelected(null)}
-          >
-            <Text style={styles.closeText}>Close</Text>
-          </Pressable>
-        </View>
-      ) : null}
+          ) : null}
+
+          {selected ? (
+            <View style={styles.detailCard}>
+              <Text style={styles.detailTitle}>Review Submission</Text>
+              <Text style={styles.meta}>
+                {selected.firstName} {selected.lastName ?? ""}
+              </Text>
+              <Text style={styles.meta}>
+                {selectedUser?.email ?? "no-email"} • @{selectedUser?.username ?? "no-username"}
+              </Text>
+              <Text style={styles.meta}>Age {selected.age} • {selected.gender}</Text>
+              <Text style={[styles.meta, selected.isBanned ? styles.bannedMeta : null]}>
+                Status: {selected.isBanned ? "Banned" : "Active"}
+              </Text>
+
+              <Text style={styles.imageLabel}>Selfie</Text>
+              <Image source={{ uri: selected.selfieUri }} style={styles.image} resizeMode="cover" />
+              <Text style={styles.imageLabel}>Driver License</Text>
+              <Image source={{ uri: selected.idDocumentUri }} style={styles.image} resizeMode="cover" />
+
+              <View style={styles.row}>
+                <Pressable
+                  style={({ pressed }) => [styles.approveBtn, pressed && styles.approveBtnPressed]}
+                  onPress={() => void review(selected.id, "approved")}
+                >
+                  <Text style={styles.btnText}>Verify</Text>
+                </Pressable>
+                <Pressable
+                  style={({ pressed }) => [styles.rejectBtn, pressed && styles.rejectBtnPressed]}
+                  onPress={() => void review(selected.id, "rejected")}
+                >
+                  <Text style={styles.btnText}>Reject</Text>
+                </Pressable>
+              </View>
+              <View style={styles.row}>
+                {selected.isBanned ? (
+                  <Pressable
+                    style={({ pressed }) => [styles.unbanBtn, pressed && styles.unbanBtnPressed]}
+                    onPress={() => void setBanStateForUser(selected.userId, false)}
+                  >
+                    <Text style={styles.btnText}>Unban User</Text>
+                  </Pressable>
+                ) : (
+                  <Pressable
+                    style={({ pressed }) => [styles.banBtn, pressed && styles.banBtnPressed]}
+                    onPress={() => void setBanStateForUser(selected.userId, true)}
+                  >
+                    <Text style={styles.btnText}>Ban User</Text>
+                  </Pressable>
+                )}
+              </View>
+              <View style={styles.row}>
+                <Pressable
+                  style={({ pressed }) => [styles.planBtn, pressed && styles.planBtnPressed]}
+                  onPress={() => void setPlanTierForUser(selected.userId, "plus")}
+                >
+                  <Text style={styles.btnText}>Grant Plus</Text>
+                </Pressable>
+                <Pressable
+                  style={({ pressed }) => [styles.planResetBtn, pressed && styles.planResetBtnPressed]}
+                  onPress={() => void setPlanTierForUser(selected.userId, "free")}
+                >
+                  <Text style={styles.btnText}>Set Free</Text>
+                </Pressable>
+              </View>
+              <AdminUserTimeline authToken={authToken} userId={selected.userId} refreshKey={timelineVersion} />
+              <Pressable
+                style={({ pressed }) => [styles.closeBtn, pressed && styles.closeBtnPressed]}
+                onPress={() => setSelected(null)}
+              >
+                <Text style={styles.closeText}>Close</Text>
+              </Pressable>
+            </View>
+          ) : null}
 
-      {!loading && rows.length === 0 ? <Text style={styles.empty}>No users found.</Text> : null}
+          {!loading && rows.length === 0 ? <Text style={styles.empty}>No users found.</Text> : null}
+        </>
+      )}
       {error ? <Text style={styles.error}>{error}</Text> : null}
     </ScrollView>
   );
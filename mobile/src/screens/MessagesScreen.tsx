@@ -13,12 +13,51 @@ import {
   TextInput,
   View
 } from "react-native";
+import * as ImagePicker from "expo-image-picker";
 import { theme } from "../theme";
-import type { MatchPreview, MeetDecision } from "../types";
+import type { ChatMessage, MatchPreview, MeetDecision, MessageAttachment, MessageStatus } from "../types";
 
 const FONT_REGULAR = "Satoshi-Regular";
 const FONT_MEDIUM = "Satoshi-Medium";
 
+// Matches the server's palette; anything else is rejected.
+const REACTION_EMOJIS = ["❤️", "😂", "😮", "😢", "👍", "🔥"];
+
+const RECEIPT_LABELS: Record<MessageStatus, string> = {
+  sent: "Sent",
+  delivered: "Delivered",
+  read: "Seen"
+};
+
+function formatDuration(seconds: number | null) {
+  const total = Math.max(0, Math.round(seconds ?? 0));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+function describeAttachment(attachment: MessageAttachment) {
+  return attachment.kind === "audio" ? `Voice note (${formatDuration(attachment.durationSeconds)})` : "Photo";
+}
+
+function describePresence(match: MatchPreview) {
+  if (match.otherTypingUntil && match.otherTypingUntil > Date.now()) {
+    return "typing...";
+  }
+  if (match.otherOnline) {
+    return "Online now";
+  }
+  if (!match.otherLastActiveAt) {
+    return null;
+  }
+  const minutes = Math.max(1, Math.round((Date.now() - new Date(match.otherLastActiveAt).getTime()) / 60000));
+  if (minutes < 60) {
+    return `Active ${minutes}m ago`;
+  }
+  if (minutes < 24 * 60) {
+    return `Active ${Math.round(minutes / 60)}h ago`;
+  }
+  return `Active ${new Date(match.otherLastActiveAt).toLocaleDateString([], { month: "short", day: "numeric" })}`;
+}
+
 export function MessagesScreen({
   matches,
   activeMatch,
@@ -26,13 +65,13 @@ export function MessagesScreen({
   openChat,
   closeChat,
   sendMessage,
-  sendAutoReply,
+  onReact,
+  onTyping,
   messageCapReached,
   setMeetDecision,
   blockMatch,
   unmatch,
   bothMeetYes,
-  showDevTools = false,
   refreshing = false,
   onRefresh
 }: {
@@ -43,27 +82,29 @@ export function MessagesScreen({
   closeChat: () => void;
   sendMessage: (
     matchId: string,
-    sender: "me" | "them",
-    body: string
-  ) => Promise<{ ok: true } | { ok: false; error: string }>;
-  sendAutoReply: (matchId: string) => Promise<{ ok: true } | { ok: false; error: string }>;
+    body: string,
+    options?: { acknowledgeWarning?: boolean; attachment?: { base64: string; mimeType: string } }
+  ) => Promise<{ ok: true } | { ok: false; error: string; warning?: boolean }>;
+  onReact?: (matchId: string, messageId: string, emoji: string | null) => void;
+  onTyping?: (matchId: string, typing: boolean) => void;
   messageCapReached: (match: MatchPreview) => boolean;
-  setMeetDecision: (matchId: string, user: "me" | "them", decision: MeetDecision) => Promise<void>;
+  setMeetDecision: (matchId: string, decision: MeetDecision) => Promise<void>;
   blockMatch: (matchId: string) => Promise<void>;
   unmatch: (matchId: string) => Promise<void>;
   bothMeetYes: (match: MatchPreview) => boolean;
-  showDevTools?: boolean;
   refreshing?: boolean;
   onRefresh?: () => void;
 }) {
   const [compose, setCompose] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+  const [reactingMessageId, setReactingMessageId] = useState<string | null>(null);
   const [sending, setSending] = useState(false);
   const [meetPromptOpen, setMeetPromptOpen] = useState(false);
   const [decisionBusyKey, setDecisionBusyKey] = useState<string | null>(null);
   const [actionMenuOpen, setActionMenuOpen] = useState(false);
   const [menuBusy, setMenuBusy] = useState<string | null>(null);
-  const listRef = useRef<FlatList<{ id: string; sender: "me" | "them"; body: string }>>(null);
+  const listRef = useRef<FlatList<ChatMessage>>(null);
 
   const capReached = activeMatch ? messageCapReached(activeMatch) : false;
 
@@ -136,10 +177,10 @@ export function MessagesScreen({
                     pressed && styles.pressedBtn
                   ]}
                   disabled={decisionBusyKey !== null}
-                  onPress={() => void submitMeetDecision(activeMatch.id, "me", "yes")}
+                  onPress={() => void submitMeetDecision(activeMatch.id, "yes")}
                 >
                   <Text style={styles.promptBtnText}>
-                    {decisionBusyKey === `${activeMatch.id}:me:yes` ? "..." : "Yes"}
+                    {decisionBusyKey === `${activeMatch.id}:yes` ? "..." : "Yes"}
                   </Text>
                 </Pressable>
                 <Pressable
@@ -149,49 +190,15 @@ export function MessagesScreen({
                     pressed && styles.pressedBtn
                   ]}
                   disabled={decisionBusyKey !== null}
-                  onPress={() => void submitMeetDecision(activeMatch.id, "me", "no")}
+                  onPress={() => void submitMeetDecision(activeMatch.id, "no")}
                 >
                   <Text style={styles.promptBtnText}>
-                    {decisionBusyKey === `${activeMatch.id}:me:no` ? "..." : "No"}
+                    {decisionBusyKey === `${activeMatch.id}:no` ? "..." : "No"}
                   </Text>
                 </Pressable>
               </View>
             </View>
 
-            {showDevTools ? (
-              <View style={styles.promptRow}>
-                <Text style={styles.promptLabel}>Simulate their answer:</Text>
-                <View style={styles.promptActions}>
-                  <Pressable
-                    style={({ pressed }) => [
-                      styles.promptBtn,
-                      activeMatch.meetDecisionByThem === "yes" && styles.promptBtnYes,
-                      pressed && styles.pressedBtn
-                    ]}
-                    disabled={decisionBusyKey !== null}
-                    onPress={() => void submitMeetDecision(activeMatch.id, "them", "yes")}
-                  >
-                    <Text style={styles.promptBtnText}>
-                      {decisionBusyKey === `${activeMatch.id}:them:yes` ? "..." : "Yes"}
-                    </Text>
-                  </Pressable>
-                  <Pressable
-                    style={({ pressed }) => [
-                      styles.promptBtn,
-                      activeMatch.meetDecisionByThem === "no" && styles.promptBtnNo,
-                      pressed && styles.pressedBtn
-                    ]}
-                    disabled={decisionBusyKey !== null}
-                    onPress={() => void submitMeetDecision(activeMatch.id, "them", "no")}
-                  >
-                    <Text style={styles.promptBtnText}>
-                      {decisionBusyKey === `${activeMatch.id}:them:no` ? "..." : "No"}
-                    </Text>
-                  </Pressable>
-                </View>
-              </View>
-            ) : null}
-
             <Text style={styles.promptStatus}>
               {capReached
                 ? "Messages capped. Waiting for both decisions."
@@ -201,7 +208,7 @@ export function MessagesScreen({
         )}
       </View>
     );
-  }, [activeMatch, capReached, bothMeetYes, setMeetDecision, showDevTools, meetPromptOpen, decisionBusyKey]);
+  }, [activeMatch, capReached, bothMeetYes, setMeetDecision, meetPromptOpen, decisionBusyKey]);
 
   const closeChatWithGuard = () => {
     closeChat();
@@ -220,15 +227,11 @@ export function MessagesScreen({
     setActionMenuOpen(false);
   }, [activeMatch?.id]);
 
-  async function submitMeetDecision(
-    matchId: string,
-    user: "me" | "them",
-    decision: MeetDecision
-  ) {
-    const key = `${matchId}:${user}:${decision}`;
+  async function submitMeetDecision(matchId: string, decision: MeetDecision) {
+    const key = `${matchId}:${decision}`;
     setDecisionBusyKey(key);
     try {
-      await setMeetDecision(matchId, user, decision);
+      await setMeetDecision(matchId, decision);
     } finally {
       setDecisionBusyKey(null);
     }
@@ -266,8 +269,11 @@ export function MessagesScreen({
           const timestamp = formatInboxTime(lastMessage?.createdAt);
           const total = item.messagesUsedByMe + item.messagesUsedByThem;
           const isCapped = messageCapReached(item);
-          const preview = lastMessage?.body ?? "No messages yet.";
+          const preview = lastMessage
+            ? lastMessage.body || (lastMessage.attachment ? describeAttachment(lastMessage.attachment) : "")
+            : "No messages yet.";
           const awaitingReply = Boolean(lastMessage && lastMessage.sender === "them" && !isCapped);
+          const unread = item.unreadCount > 0;
           return (
             <Pressable style={styles.listCard} onPress={() => openChat(item.id)}>
               <View style={styles.listRow}>
@@ -279,6 +285,7 @@ export function MessagesScreen({
                       <Text style={styles.avatarFallbackText}>{item.name.slice(0, 1).toUpperCase()}</Text>
                     </View>
                   )}
+                  {item.otherOnline ? <View style={styles.onlineDot} /> : null}
                 </Pressable>
                 <View style={styles.listTextWrap}>
                   <View style={styles.nameRow}>
@@ -286,9 +293,15 @@ export function MessagesScreen({
                     {timestamp ? <Text style={styles.timeText}>{timestamp}</Text> : null}
                   </View>
                   <View style={styles.previewRow}>
-                    {awaitingReply ? <View style={styles.unreadDot} /> : null}
+                    {unread ? (
+                      <View style={styles.unreadBadge}>
+                        <Text style={styles.unreadBadgeText}>{item.unreadCount > 99 ? "99+" : item.unreadCount}</Text>
+                      </View>
+                    ) : awaitingReply ? (
+                      <View style={styles.unreadDot} />
+                    ) : null}
                     <Text
-                      style={[styles.preview, awaitingReply && styles.previewUnread]}
+                      style={[styles.preview, (unread || awaitingReply) && styles.previewUnread]}
                       numberOfLines={1}
                       ellipsizeMode="tail"
                     >
@@ -296,7 +309,7 @@ export function MessagesScreen({
                     </Text>
                   </View>
                   <Text style={styles.meta}>
-                    {awaitingReply ? "Awaiting your reply" : isCapped ? "Messages capped" : `Messages: ${total}/60`}
+                    {awaitingReply ? "Awaiting your reply" : isCapped ? "Messages capped" : `Messages: ${total}/${item.maxMessagesTotal}`}
                   </Text>
                 </View>
               </View>
@@ -307,31 +320,56 @@ export function MessagesScreen({
     );
   }
 
-  const sendMine = async () => {
+  const lastMineId = [...activeMatch.chat].reverse().find((msg) => msg.sender === "me")?.id ?? null;
+  const presenceText = describePresence(activeMatch);
+
+  const sendMine = async (acknowledgeWarning = false) => {
     if (sending) {
       return;
     }
     setSending(true);
     try {
-      const result = await sendMessage(activeMatch.id, "me", compose);
+      const result = await sendMessage(activeMatch.id, compose, { acknowledgeWarning });
       if (!result.ok) {
-        setError(result.error);
+        if (result.warning) {
+          setWarning(result.error);
+          setError(null);
+        } else {
+          setError(result.error);
+        }
         return;
       }
       setError(null);
+      setWarning(null);
       setCompose("");
     } finally {
       setSending(false);
     }
   };
 
-  const sendTheirs = async () => {
-    const result = await sendAutoReply(activeMatch.id);
-    if (!result.ok) {
-      setError(result.error);
+  const sendPhoto = async () => {
+    if (sending) {
+      return;
+    }
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      setError("Photo library permission is required.");
       return;
     }
-    setError(null);
+    const picked = await ImagePicker.launchImageLibraryAsync({ mediaTypes: "images", quality: 0.7, base64: true });
+    const asset = picked.canceled ? null : picked.assets[0];
+    if (!asset?.base64) {
+      return;
+    }
+    setSending(true);
+    try {
+      const result = await sendMessage(activeMatch.id, "", {
+        attachment: { base64: asset.base64, mimeType: asset.mimeType ?? "image/jpeg" }
+      });
+      setError(result.ok ? null : result.error);
+    } finally {
+      setSending(false);
+    }
   };
 
   return (
@@ -401,10 +439,14 @@ export function MessagesScreen({
               </View>
             )}
           </Pressable>
-          <Text style={styles.chatName}>{activeMatch.name}</Text>
+          <View>
+            <Text style={styles.chatName}>{activeMatch.name}</Text>
+            {presenceText ? <Text style={styles.presence}>{presenceText}</Text> : null}
+          </View>
         </View>
         <Text style={styles.counts}>
-          You {activeMatch.messagesUsedByMe}/30 | Them {activeMatch.messagesUsedByThem}/30
+          You {activeMatch.messagesUsedByMe}/{activeMatch.maxMessagesPerUser} | Them{" "}
+          {activeMatch.messagesUsedByThem}/{activeMatch.maxMessagesPerUser}
         </Text>
       </View>
 
@@ -422,38 +464,121 @@ export function MessagesScreen({
         renderItem={({ item }) => {
           const url = getFirstUrl(item.body);
           const bodyText = url ? item.body.replace(url, "").trim() : item.body;
+          const receipt = item.id === lastMineId && item.status ? RECEIPT_LABELS[item.status] : null;
+          const myReaction = item.reactions?.find((reaction) => reaction.sender === "me")?.emoji ?? null;
+          // Offer notices are local system lines, not server messages.
+          const canReact = Boolean(onReact) && !item.id.startsWith("offer-");
           return (
-            <View style={[styles.bubble, item.sender === "me" ? styles.myBubble : styles.theirBubble]}>
-              {bodyText ? (
-                <Text style={[styles.bubbleText, item.sender === "me" && styles.myBubbleText]}>{bodyText}</Text>
+            <>
+              <Pressable
+                style={[styles.bubble, item.sender === "me" ? styles.myBubble : styles.theirBubble]}
+                onLongPress={
+                  canReact ? () => setReactingMessageId((prev) => (prev === item.id ? null : item.id)) : undefined
+                }
+              >
+                {item.attachment?.kind === "image" ? (
+                  <Pressable onPress={() => void Linking.openURL(item.attachment?.url ?? "").catch(() => null)}>
+                    <Image source={{ uri: item.attachment.url }} style={styles.attachmentImage} />
+                  </Pressable>
+                ) : null}
+                {item.attachment?.kind === "audio" ? (
+                  <Pressable
+                    style={({ pressed }) => [
+                      styles.mapBtn,
+                      item.sender === "me" ? styles.mapBtnMine : styles.mapBtnTheirs,
+                      pressed && styles.pressedBtn
+                    ]}
+                    onPress={() => void Linking.openURL(item.attachment?.url ?? "").catch(() => null)}
+                  >
+                    <Text style={[styles.mapBtnText, item.sender === "me" && styles.mapBtnTextMine]}>
+                      ▶ {describeAttachment(item.attachment)}
+                    </Text>
+                  </Pressable>
+                ) : null}
+                {bodyText ? (
+                  <Text style={[styles.bubbleText, item.sender === "me" && styles.myBubbleText]}>{bodyText}</Text>
+                ) : null}
+                {url ? (
+                  <Pressable
+                    style={({ pressed }) => [
+                      styles.mapBtn,
+                      item.sender === "me" ? styles.mapBtnMine : styles.mapBtnTheirs,
+                      pressed && styles.pressedBtn
+                    ]}
+                    onPress={() => {
+                      void Linking.openURL(url).catch(() => null);
+                    }}
+                  >
+                    <Text style={[styles.mapBtnText, item.sender === "me" && styles.mapBtnTextMine]}>Open in Maps</Text>
+                  </Pressable>
+                ) : null}
+              </Pressable>
+              {item.reactions && item.reactions.length > 0 ? (
+                <View style={[styles.reactionRow, item.sender === "me" && styles.reactionRowMine]}>
+                  {item.reactions.map((reaction) => (
+                    <Text key={reaction.sender} style={styles.reactionChip}>
+                      {reaction.emoji}
+                    </Text>
+                  ))}
+                </View>
               ) : null}
-              {url ? (
-                <Pressable
-                  style={({ pressed }) => [
-                    styles.mapBtn,
-                    item.sender === "me" ? styles.mapBtnMine : styles.mapBtnTheirs,
-                    pressed && styles.pressedBtn
-                  ]}
-                  onPress={() => {
-                    void Linking.openURL(url).catch(() => null);
-                  }}
-                >
-                  <Text style={[styles.mapBtnText, item.sender === "me" && styles.mapBtnTextMine]}>Open in Maps</Text>
-                </Pressable>
+              {reactingMessageId === item.id ? (
+                <View style={[styles.reactionPicker, item.sender === "me" && styles.reactionRowMine]}>
+                  {REACTION_EMOJIS.map((emoji) => (
+                    <Pressable
+                      key={emoji}
+                      style={[styles.reactionOption, myReaction === emoji && styles.reactionOptionActive]}
+                      onPress={() => {
+                        onReact?.(activeMatch.id, item.id, myReaction === emoji ? null : emoji);
+                        setReactingMessageId(null);
+                      }}
+                    >
+                      <Text style={styles.reactionOptionText}>{emoji}</Text>
+                    </Pressable>
+                  ))}
+                </View>
               ) : null}
-            </View>
+              {receipt ? <Text style={styles.receipt}>{receipt}</Text> : null}
+            </>
           );
         }}
       />
 
       {error ? <Text style={styles.error}>{error}</Text> : null}
 
+      {warning && !capReached ? (
+        <View style={styles.warningBox}>
+          <Text style={styles.warningText}>{warning}</Text>
+          <Text style={styles.warningHint}>
+            Sharing contact details or moving off Vicino early makes scams easier. Edit the message or send it anyway.
+          </Text>
+          <Pressable
+            style={({ pressed }) => [styles.warningBtn, pressed && styles.pressedBtn]}
+            onPress={() => void sendMine(true)}
+            disabled={sending}
+          >
+            <Text style={styles.warningBtnText}>Send anyway</Text>
+          </Pressable>
+        </View>
+      ) : null}
+
       {!capReached && (
         <View style={styles.composeWrap}>
           <View style={styles.inputRow}>
+            <Pressable
+              style={({ pressed }) => [styles.attachBtn, pressed && styles.pressedBtn]}
+              onPress={() => void sendPhoto()}
+              disabled={sending}
+            >
+              <Text style={styles.attachBtnText}>+</Text>
+            </Pressable>
             <TextInput
               value={compose}
-              onChangeText={setCompose}
+              onChangeText={(text) => {
+                setCompose(text);
+                setWarning(null);
+                onTyping?.(activeMatch.id, text.trim().length > 0);
+              }}
               placeholder="Write a message..."
               placeholderTextColor={theme.colors.muted}
               style={styles.input}
@@ -482,11 +607,6 @@ export function MessagesScreen({
                 <Text style={[styles.composeBtnText, styles.retryBtnText]}>Retry Send</Text>
               </Pressable>
             ) : null}
-            {showDevTools ? (
-              <Pressable style={({ pressed }) => [styles.composeBtn, styles.replyBtn, pressed && styles.pressedBtn]} onPress={sendTheirs}>
-                <Text style={styles.composeBtnText}>Sim Reply</Text>
-              </Pressable>
-            ) : null}
           </View>
         </View>
       )}
@@ -534,6 +654,17 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center"
   },
+  onlineDot: {
+    position: "absolute",
+    right: 1,
+    bottom: 1,
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: theme.colors.card,
+    backgroundColor: theme.colors.success
+  },
   avatarFallbackText: {
     color: theme.colors.primary,
     fontWeight: "800",
@@ -559,6 +690,16 @@ const styles = StyleSheet.create({
     borderRadius: 4,
     backgroundColor: theme.colors.primary
   },
+  unreadBadge: {
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 5,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: theme.colors.primary
+  },
+  unreadBadgeText: { color: "#fff", fontSize: 11, fontWeight: "700", fontFamily: FONT_REGULAR },
   preview: { color: theme.colors.muted, flex: 1, fontSize: 13, fontFamily: FONT_MEDIUM },
   previewUnread: {
     color: theme.colors.text,
@@ -657,6 +798,7 @@ const styles = StyleSheet.create({
     fontFamily: FONT_REGULAR
   },
   chatName: { color: theme.colors.text, fontSize: 18, fontWeight: "700", fontFamily: FONT_REGULAR },
+  presence: { color: theme.colors.muted, fontSize: 12, fontFamily: FONT_MEDIUM },
   counts: { color: theme.colors.muted, fontSize: 12, fontFamily: FONT_MEDIUM },
   chatListSurface: {
     backgroundColor: theme.colors.card,
@@ -685,6 +827,45 @@ const styles = StyleSheet.create({
     backgroundColor: "#EDE7F6"
   },
   bubbleText: { color: theme.colors.text, fontFamily: FONT_MEDIUM },
+  reactionRow: { flexDirection: "row", gap: 2, marginTop: -6, alignSelf: "flex-start", paddingHorizontal: 6 },
+  reactionRowMine: { alignSelf: "flex-end" },
+  reactionChip: {
+    backgroundColor: theme.colors.card,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#EADCF8",
+    paddingHorizontal: 5,
+    fontSize: 13,
+    overflow: "hidden"
+  },
+  reactionPicker: {
+    flexDirection: "row",
+    gap: 4,
+    alignSelf: "flex-start",
+    backgroundColor: theme.colors.card,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: "#EADCF8",
+    paddingHorizontal: 6,
+    paddingVertical: 4
+  },
+  reactionOption: { borderRadius: 14, paddingHorizontal: 4, paddingVertical: 2 },
+  reactionOptionActive: { backgroundColor: "#EDE7F6" },
+  reactionOptionText: { fontSize: 20 },
+  attachmentImage: {
+    width: 200,
+    height: 200,
+    borderRadius: 10,
+    backgroundColor: "#EEE",
+    marginBottom: 4
+  },
+  receipt: {
+    alignSelf: "flex-end",
+    marginTop: -4,
+    color: theme.colors.muted,
+    fontSize: 11,
+    fontFamily: FONT_MEDIUM
+  },
   myBubbleText: { color: "#fff", fontFamily: FONT_MEDIUM },
   mapBtn: {
     marginTop: 8,
@@ -787,6 +968,15 @@ const styles = StyleSheet.create({
     marginLeft: 1,
     fontFamily: FONT_REGULAR
   },
+  attachBtn: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: "#F3ECFB",
+    alignItems: "center",
+    justifyContent: "center"
+  },
+  attachBtnText: { color: theme.colors.primary, fontSize: 20, fontWeight: "700", fontFamily: FONT_REGULAR },
   composeActions: { flexDirection: "row", gap: 8 },
   composeBtn: {
     flex: 1,
@@ -797,9 +987,20 @@ const styles = StyleSheet.create({
   },
   retryBtn: { backgroundColor: "#F3ECFB" },
   retryBtnText: { color: theme.colors.primary },
-  replyBtn: { backgroundColor: theme.colors.primaryLight },
   composeBtnText: { color: "#fff", fontWeight: "700", fontFamily: FONT_REGULAR },
   error: { color: theme.colors.danger, fontWeight: "600", fontFamily: FONT_MEDIUM },
+  warningBox: {
+    backgroundColor: "#FFF6E5",
+    borderRadius: theme.radius.sm,
+    borderWidth: 1,
+    borderColor: "#F2D29B",
+    padding: 12,
+    gap: 6
+  },
+  warningText: { color: theme.colors.text, fontWeight: "700", fontFamily: FONT_REGULAR },
+  warningHint: { color: theme.colors.muted, fontSize: 12, fontFamily: FONT_MEDIUM },
+  warningBtn: { alignSelf: "flex-start", paddingVertical: 4 },
+  warningBtnText: { color: theme.colors.primary, fontWeight: "700", fontFamily: FONT_REGULAR },
   pressedBtn: {
     opacity: 0.78
   },
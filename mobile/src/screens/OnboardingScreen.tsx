@@ -4,8 +4,10 @@ import * as ImagePicker from "expo-image-picker";
 import {
   getAuthSession,
   getVerificationStatus,
+  postForgotPassword,
   postLogin,
   postRegister,
+  postResetPassword,
   postVerificationSubmit,
   uploadImageBase64,
   type ApiUser,
@@ -66,18 +68,23 @@ By creating an account, you acknowledge this policy.`;
 
 interface OnboardingScreenProps {
   currentUser: ApiUser | null;
+  resetToken?: string | null;
   onSignedIn: (token: string, user: ApiUser, verification: VerificationStatus) => void;
   onSignedOut: () => void;
   onVerificationUpdated: (verification: VerificationStatus) => void;
+  onResetTokenHandled?: () => void;
 }
 
 export function OnboardingScreen({
   currentUser,
+  resetToken,
   onSignedIn,
   onSignedOut,
-  onVerificationUpdated
+  onVerificationUpdated,
+  onResetTokenHandled
 }: OnboardingScreenProps) {
   const [mode, setMode] = useState<"signup" | "login">("signup");
+  const [forgotOpen, setForgotOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -135,6 +142,41 @@ export function OnboardingScreen({
     }
   };
 
+  const requestReset = async () => {
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      await postForgotPassword(email.trim());
+      setSuccess("If an account uses that email, we've sent a reset link.");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const completeReset = async () => {
+    if (!resetToken) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      await postResetPassword(resetToken, password);
+      setPassword("");
+      setForgotOpen(false);
+      setMode("login");
+      onResetTokenHandled?.();
+      setSuccess("Password updated. Log in with your new password.");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const pickImage = async (kind: "selfie" | "license", source: "camera" | "library") => {
     const actionKey = `${kind}_${source}` as "selfie_camera" | "selfie_library" | "license_camera" | "license_library";
     setPickingImage(actionKey);
@@ -193,9 +235,19 @@ export function OnboardingScreen({
     setError(null);
     setSuccess(null);
     try {
-      const uploadedSelfie = await uploadImageBase64(selfieBase64, selfieMime, `selfie_${currentUser.id}`);
-      const uploadedLicense = await uploadImageBase64(licenseBase64, licenseMime, `license_${currentUser.id}`);
-      await postVerificationSubmit(currentUser.id, uploadedLicense.url, uploadedSelfie.url, idType);
+      const uploadedSelfie = await uploadImageBase64(
+        selfieBase64,
+        selfieMime,
+        `selfie_${currentUser.id}`,
+        "verification"
+      );
+      const uploadedLicense = await uploadImageBase64(
+        licenseBase64,
+        licenseMime,
+        `license_${currentUser.id}`,
+        "verification"
+      );
+      await postVerificationSubmit(uploadedLicense.url, uploadedSelfie.url, idType);
       const next = await getVerificationStatus(currentUser.id);
       onVerificationUpdated(next);
       setSuccess("Verification submitted. Wait for admin approval.");
@@ -221,7 +273,51 @@ export function OnboardingScreen({
         {statusLabel ? <Text style={styles.status}>Status: {statusLabel}</Text> : null}
       </View>
 
-      {!currentUser ? (
+      {!currentUser && resetToken ? (
+        <View style={styles.card}>
+          <Text style={styles.section}>Choose a New Password</Text>
+          <TextInput
+            style={styles.input}
+            value={password}
+            onChangeText={setPassword}
+            secureTextEntry
+            placeholder="New password"
+            placeholderTextColor={theme.colors.muted}
+          />
+          <Pressable style={styles.btn} onPress={() => void completeReset()} disabled={loading}>
+            <View style={styles.btnContent}>
+              {loading ? <ActivityIndicator size="small" color="#fff" /> : null}
+              <Text style={styles.btnText}>{loading ? "Saving..." : "Set New Password"}</Text>
+            </View>
+          </Pressable>
+          <Pressable style={styles.ghostBtn} onPress={() => onResetTokenHandled?.()} disabled={loading}>
+            <Text style={styles.ghostText}>Cancel</Text>
+          </Pressable>
+        </View>
+      ) : !currentUser && forgotOpen ? (
+        <View style={styles.card}>
+          <Text style={styles.section}>Reset Your Password</Text>
+          <Text style={styles.helper}>Enter the email on your account and we'll send you a reset link.</Text>
+          <TextInput
+            style={styles.input}
+            value={email}
+            onChangeText={setEmail}
+            placeholder="Email"
+            autoCapitalize="none"
+            keyboardType="email-address"
+            placeholderTextColor={theme.colors.muted}
+          />
+          <Pressable style={styles.btn} onPress={() => void requestReset()} disabled={loading}>
+            <View style={styles.btnContent}>
+              {loading ? <ActivityIndicator size="small" color="#fff" /> : null}
+              <Text style={styles.btnText}>{loading ? "Sending..." : "Send Reset Link"}</Text>
+            </View>
+          </Pressable>
+          <Pressable style={styles.ghostBtn} onPress={() => setForgotOpen(false)} disabled={loading}>
+            <Text style={styles.ghostText}>Back to Log In</Text>
+          </Pressable>
+        </View>
+      ) : !currentUser ? (
         <View style={styles.card}>
           <View style={styles.row}>
             <Pressable
@@ -307,6 +403,17 @@ export function OnboardingScreen({
               </Text>
             </View>
           </Pressable>
+          {mode === "login" ? (
+            <Pressable
+              onPress={() => {
+                setError(null);
+                setSuccess(null);
+                setForgotOpen(true);
+              }}
+            >
+              <Text style={styles.consentLink}>Forgot password?</Text>
+            </Pressable>
+          ) : null}
         </View>
       ) : (
         <View style={styles.card}>
@@ -396,6 +503,14 @@ export function OnboardingScreen({
         <Pressable
           style={styles.retryBtn}
           onPress={() => {
+            if (!currentUser && resetToken) {
+              void completeReset();
+              return;
+            }
+            if (!currentUser && forgotOpen) {
+              void requestReset();
+              return;
+            }
             if (!currentUser) {
               void auth();
               return;
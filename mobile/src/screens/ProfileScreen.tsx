@@ -10,13 +10,23 @@ import {
   Pressable,
   ScrollView,
   StyleSheet,
+  Switch,
   Text,
   TextInput,
   View
 } from "react-native";
 import * as ImagePicker from "expo-image-picker";
 import Slider from "@react-native-community/slider";
-import { getUsers, postDistancePreference, postUserProfile, uploadImageBase64, type ApiUser } from "../api";
+import {
+  getCurrentUser,
+  postDistancePreference,
+  postUserProfile,
+  postVisibilityPreference,
+  uploadImageBase64,
+  type ApiUser
+} from "../api";
+import { DevicesCard } from "../components/DevicesCard";
+import { TrustedContactsCard } from "../components/TrustedContactsCard";
 import { theme } from "../theme";
 const FONT_REGULAR = "Satoshi-Regular";
 const FONT_MEDIUM = "Satoshi-Medium";
@@ -99,6 +109,9 @@ export function ProfileScreen({
   const [promptTwo, setPromptTwo] = useState("");
   const [promptThree, setPromptThree] = useState("");
   const [radiusMiles, setRadiusMiles] = useState(25);
+  const [discoverable, setDiscoverable] = useState(true);
+  const [likedOnly, setLikedOnly] = useState(false);
+  const [shareLastActive, setShareLastActive] = useState(true);
   const [previewOpen, setPreviewOpen] = useState(false);
   const [previewPhotoIndex, setPreviewPhotoIndex] = useState(0);
   const [statusText, setStatusText] = useState<string | null>(null);
@@ -205,8 +218,7 @@ export function ProfileScreen({
   const loadProfile = async () => {
     setError(null);
     try {
-      const users = await getUsers();
-      const me = users.find((u) => u.id === userId) ?? null;
+      const me = await getCurrentUser();
       setUser(me);
 
       if (me) {
@@ -224,6 +236,9 @@ export function ProfileScreen({
         setPromptTwo(me.promptTwo ?? "");
         setPromptThree(me.promptThree ?? "");
         setRadiusMiles(Math.round(Number(me.maxDistanceMiles ?? 25)));
+        setDiscoverable(me.discoverable !== false);
+        setLikedOnly(me.discoveryVisibility === "liked_only");
+        setShareLastActive(me.shareLastActive !== false);
       }
     } catch (err) {
       setError((err as Error).message);
@@ -312,6 +327,11 @@ export function ProfileScreen({
         promptThree: promptThree.trim() ? promptThreePacked : undefined
       });
       await postDistancePreference(userId, radiusMiles);
+      await postVisibilityPreference(userId, {
+        discoverable,
+        discoveryVisibility: likedOnly ? "liked_only" : "everyone",
+        shareLastActive
+      });
       setUser(updatedUser);
       onProfileUpdated?.(updatedUser);
       setProfilePhoto(normalizeImageUrl(updatedUser.profilePhotoUrl ?? ""));
@@ -1248,6 +1268,45 @@ export function ProfileScreen({
           </View>
         </View>
 
+        <View style={styles.switchRow}>
+          <View style={styles.switchText}>
+            <Text style={styles.item}>Show me in discovery</Text>
+            <Text style={styles.helper}>
+              {discoverable
+                ? "People nearby can find you."
+                : "Paused. You're hidden from new people, but matches and chats keep working."}
+            </Text>
+          </View>
+          <Switch
+            value={discoverable}
+            onValueChange={setDiscoverable}
+            trackColor={{ false: "#D8C6ED", true: theme.colors.primary }}
+          />
+        </View>
+        <View style={styles.switchRow}>
+          <View style={styles.switchText}>
+            <Text style={styles.item}>Only people I've liked</Text>
+            <Text style={styles.helper}>Only people you've swiped right on will see you.</Text>
+          </View>
+          <Switch
+            value={likedOnly}
+            onValueChange={setLikedOnly}
+            disabled={!discoverable}
+            trackColor={{ false: "#D8C6ED", true: theme.colors.primary }}
+          />
+        </View>
+        <View style={styles.switchRow}>
+          <View style={styles.switchText}>
+            <Text style={styles.item}>Show when I'm active</Text>
+            <Text style={styles.helper}>Matches can see when you're online or were last active.</Text>
+          </View>
+          <Switch
+            value={shareLastActive}
+            onValueChange={setShareLastActive}
+            trackColor={{ false: "#D8C6ED", true: theme.colors.primary }}
+          />
+        </View>
+
         <Pressable
           style={styles.previewBtn}
           onPress={() => {
@@ -1266,6 +1325,10 @@ export function ProfileScreen({
         </Pressable>
       </View>
 
+      <TrustedContactsCard />
+
+      <DevicesCard />
+
       {statusText ? <Text style={styles.success}>{statusText}</Text> : null}
       {error ? <Text style={styles.error}>{error}</Text> : null}
       {error ? (
@@ -1502,6 +1565,16 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     fontFamily: FONT_REGULAR
   },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12
+  },
+  switchText: {
+    flex: 1,
+    gap: 2
+  },
   sliderWrap: {
     backgroundColor: "#F6F1FB",
     borderRadius: theme.radius.sm,
@@ -13,6 +13,7 @@ import {
   Text,
   View
 } from "react-native";
+import type { ApiSwipeQuota } from "../api";
 import type { ProfileCard } from "../types";
 import { theme } from "../theme";
 
@@ -27,10 +28,18 @@ const MODAL_DRAG_ZONE_HEIGHT = SCREEN_HEIGHT * 0.34;
 const FONT_REGULAR = "Satoshi-Regular";
 const FONT_MEDIUM = "Satoshi-Medium";
 
+function formatResetTime(resetsAt: string) {
+  return new Date(resetsAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+}
+
 export function SwipeScreen({
   card,
   remaining,
   onSwipe,
+  onUndo,
+  undoing = false,
+  quota,
+  onUpgrade,
   swipeError,
   onDismissSwipeError,
   onReport,
@@ -40,6 +49,10 @@ export function SwipeScreen({
   card: ProfileCard | null;
   remaining: number;
   onSwipe: (decision: "left" | "right") => void;
+  onUndo?: () => void;
+  undoing?: boolean;
+  quota?: ApiSwipeQuota | null;
+  onUpgrade?: () => void;
   swipeError?: string | null;
   onDismissSwipeError?: () => void;
   onReport?: (userId: string) => void;
@@ -281,6 +294,24 @@ export function SwipeScreen({
     });
   };
 
+  const limitPrompt =
+    quota && quota.remaining === 0 ? (
+      <View style={styles.limitBox}>
+        <Text style={styles.limitTitle}>You're out of swipes for now</Text>
+        <Text style={styles.limitText}>
+          {quota.resetsAt
+            ? `Your next free swipe unlocks at ${formatResetTime(quota.resetsAt)}.`
+            : "Your free swipes refill over the next 24 hours."}{" "}
+          Vicino Plus has no daily limit.
+        </Text>
+        {onUpgrade ? (
+          <Pressable style={({ pressed }) => [styles.limitBtn, pressed && styles.pressedBtn]} onPress={onUpgrade}>
+            <Text style={styles.limitBtnText}>See Vicino Plus</Text>
+          </Pressable>
+        ) : null}
+      </View>
+    ) : null;
+
   if (!card) {
     return (
       <View style={styles.emptyWrap}>
@@ -297,6 +328,21 @@ export function SwipeScreen({
             <Text style={styles.emptyRefreshText}>Refresh Profiles</Text>
           )}
         </Pressable>
+        {onUndo ? (
+          <Pressable
+            style={({ pressed }) => [styles.refreshBtn, styles.emptyUndoBtn, pressed && styles.pressedBtn]}
+            onPress={onUndo}
+            disabled={undoing}
+          >
+            <Text style={styles.refreshBtnText}>Undo last swipe</Text>
+          </Pressable>
+        ) : null}
+        {swipeError ? (
+          <Pressable style={styles.swipeErrorBox} onPress={onDismissSwipeError}>
+            <Text style={styles.swipeErrorText}>{swipeError}</Text>
+          </Pressable>
+        ) : null}
+        {limitPrompt}
       </View>
     );
   }
@@ -304,6 +350,19 @@ export function SwipeScreen({
   return (
     <View style={styles.wrap}>
       <View style={styles.refreshRow}>
+        {onUndo ? (
+          <Pressable
+            style={({ pressed }) => [styles.refreshBtn, pressed && styles.pressedBtn]}
+            onPress={onUndo}
+            disabled={undoing}
+          >
+            {undoing ? (
+              <ActivityIndicator color={theme.colors.primary} size="small" />
+            ) : (
+              <Text style={styles.refreshBtnText}>Undo</Text>
+            )}
+          </Pressable>
+        ) : null}
         <Pressable
           style={({ pressed }) => [styles.refreshBtn, pressed && styles.pressedBtn]}
           onPress={onRefresh}
@@ -321,6 +380,7 @@ export function SwipeScreen({
           <Text style={styles.swipeErrorText}>{swipeError}</Text>
         </Pressable>
       ) : null}
+      {limitPrompt}
       <Animated.View
         style={[
           styles.card,
@@ -354,6 +414,12 @@ export function SwipeScreen({
           </Text>
           <Text style={styles.bio}>{card.bio}</Text>
           <Text style={styles.remaining}>{remaining} profiles remaining</Text>
+          {quota && quota.remaining !== null && quota.remaining > 0 ? (
+            <Text style={styles.quotaText}>
+              {quota.remaining} {quota.remaining === 1 ? "swipe" : "swipes"} left
+              {quota.resetsAt ? `, next one back at ${formatResetTime(quota.resetsAt)}` : " today"}
+            </Text>
+          ) : null}
           <Text style={styles.tapHint}>Tap profile to open full details</Text>
         </View>
       </Animated.View>
@@ -433,7 +499,9 @@ export function SwipeScreen({
 const styles = StyleSheet.create({
   wrap: { gap: 10, flex: 1 },
   refreshRow: {
-    alignItems: "flex-end"
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8
   },
   refreshBtn: {
     backgroundColor: "#EDE7F6",
@@ -553,6 +621,39 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     fontFamily: FONT_MEDIUM
   },
+  quotaText: {
+    color: theme.colors.muted,
+    fontSize: 12,
+    fontFamily: FONT_MEDIUM
+  },
+  limitBox: {
+    backgroundColor: "#F1E8FA",
+    borderRadius: theme.radius.md,
+    padding: 14,
+    gap: 8
+  },
+  limitTitle: {
+    color: theme.colors.text,
+    fontSize: 16,
+    fontWeight: "700",
+    fontFamily: FONT_REGULAR
+  },
+  limitText: {
+    color: theme.colors.muted,
+    fontFamily: FONT_MEDIUM
+  },
+  limitBtn: {
+    alignSelf: "flex-start",
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.radius.sm,
+    paddingHorizontal: 14,
+    paddingVertical: 9
+  },
+  limitBtnText: {
+    color: "#fff",
+    fontWeight: "700",
+    fontFamily: FONT_REGULAR
+  },
   tapHint: {
     color: theme.colors.primaryLight,
     fontSize: 12,
@@ -586,6 +687,9 @@ const styles = StyleSheet.create({
     paddingHorizontal: 14,
     paddingVertical: 10
   },
+  emptyUndoBtn: {
+    alignSelf: "flex-start"
+  },
   emptyRefreshText: {
     color: "#fff",
     fontWeight: "700",
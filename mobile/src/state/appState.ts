@@ -1,40 +1,48 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import {
+  ApiError,
   getAvailabilityState,
   getDiscovery,
   getIncomingAvailability,
+  getMatchPresence,
   getMatches,
   getMessages,
-  getUsers,
+  getSwipeQuota,
   postAvailabilityClose,
   postAvailabilityRespondInterest,
   postAvailabilityStart,
   postBlock,
   postMeetDecision,
   postMessage,
+  postMessageReaction,
+  postMessagesRead,
   postOffer,
-  postOfferRespond,
   postSwipe,
+  postTyping,
+  postUndoSwipe,
   postUnmatch,
   postAnalyticsEvent,
-  type ApiMatch,
+  subscribeToEvents,
+  uploadImageBase64,
+  type ApiMatchListing,
+  type ApiMessage,
   type ApiOffer,
-  type ApiUser,
+  type ApiPublicProfile,
+  type ApiRealtimeEvent,
+  type ApiSwipeQuota,
   type AvailabilityCandidate
 } from "../api";
-import type { MatchPreview, MeetDecision, OutTonightState, ProfileCard, TabKey } from "../types";
+import type { ChatMessage, MatchPreview, MeetDecision, OutTonightState, ProfileCard, TabKey } from "../types";
 import { matchSeed, swipeDeckSeed } from "./mockData";
 
-const MAX_PER_PERSON = 30;
-const MAX_TOTAL = 60;
-
-const cannedReplies = [
-  "Sounds good.",
-  "That works for me.",
-  "I like that idea.",
-  "What time works for you?",
-  "Nice, let's keep chatting."
-];
+// With the realtime stream connected, polling only runs as a slow safety net.
+const CHAT_POLL_MS = 1500;
+const OUT_TONIGHT_POLL_MS = 5000;
+const INCOMING_AVAILABILITY_POLL_MS = 7000;
+const REALTIME_SAFETY_POLL_MS = 30000;
+const PRESENCE_POLL_MS = 30000;
+// Typing pings are refreshed at most this often; the server's expiry covers the gaps.
+const TYPING_SEND_INTERVAL_MS = 4000;
 
 const emptyOutTonight = (): OutTonightState => ({
   sessionId: null,
@@ -51,7 +59,7 @@ const emptyOutTonight = (): OutTonightState => ({
   incomingRequests: []
 });
 
-const toDeckCard = (user: ApiUser): ProfileCard => ({
+const toDeckCard = (user: ApiPublicProfile): ProfileCard => ({
   id: user.id,
   name: user.firstName,
   age: Number(user.age),
@@ -74,29 +82,73 @@ const toDeckCard = (user: ApiUser): ProfileCard => ({
   ]
 });
 
+// The other member's read cursor covers every one of our messages up to it.
+function applyReadCursor(chat: ChatMessage[], lastReadAt: string | null) {
+  if (!lastReadAt) {
+    return chat;
+  }
+  const through = new Date(lastReadAt).getTime();
+  return chat.map((msg) =>
+    msg.sender === "me" && msg.status !== "read" && new Date(msg.createdAt).getTime() <= through
+      ? { ...msg, status: "read" as const }
+      : msg
+  );
+}
+
+// Each member has at most one reaction per message; null clears it.
+function applyReaction(chat: ChatMessage[], messageId: string, sender: "me" | "them", emoji: string | null) {
+  return chat.map((msg) => {
+    if (msg.id !== messageId) {
+      return msg;
+    }
+    const others = (msg.reactions ?? []).filter((reaction) => reaction.sender !== sender);
+    return { ...msg, reactions: emoji ? [...others, { sender, emoji }] : others };
+  });
+}
+
 function toMatchPreview(
-  apiMatch: ApiMatch,
-  usersById: Record<string, ApiUser>,
+  apiMatch: ApiMatchListing,
   currentUserId: string,
   existing?: MatchPreview
 ): MatchPreview {
-  const otherId = apiMatch.userAId === currentUserId ? apiMatch.userBId : apiMatch.userAId;
-  const otherUser = usersById[otherId];
+  const otherId = apiMatch.otherUser.id;
+  const otherUser = apiMatch.otherUser;
+  const lastMessage = apiMatch.lastMessage;
 
   return {
     id: apiMatch.id,
     otherUserId: otherId,
-    name: otherUser?.firstName ?? "Match",
-    avatarUrl: otherUser?.profilePhotoUrl
+    name: otherUser.firstName,
+    avatarUrl: otherUser.profilePhotoUrl
       ? String(otherUser.profilePhotoUrl)
-      : otherUser && Array.isArray(otherUser.photos) && otherUser.photos.length > 0
+      : Array.isArray(otherUser.photos) && otherUser.photos.length > 0
         ? String(otherUser.photos[0])
         : null,
     messagesUsedByMe: Number(apiMatch.messagesByUser?.[currentUserId] ?? 0),
     messagesUsedByThem: Number(apiMatch.messagesByUser?.[otherId] ?? 0),
+    maxMessagesPerUser: apiMatch.messageLimits.maxMessagesPerUser,
+    maxMessagesTotal: apiMatch.messageLimits.maxMessagesTotal,
     meetDecisionByMe: (apiMatch.meetDecisionByUser?.[currentUserId] as MeetDecision | undefined) ?? null,
     meetDecisionByThem: (apiMatch.meetDecisionByUser?.[otherId] as MeetDecision | undefined) ?? null,
-    chat: existing?.chat ?? []
+    unreadCount: Number(apiMatch.unreadCount ?? 0),
+    otherOnline: Boolean(apiMatch.otherPresence?.online),
+    otherLastActiveAt: apiMatch.otherPresence?.lastActiveAt ?? null,
+    otherTypingUntil: existing?.otherTypingUntil ?? null,
+    chat:
+      existing?.chat && existing.chat.length > 0
+        ? applyReadCursor(existing.chat, apiMatch.otherLastReadAt)
+        : lastMessage
+          ? [
+              {
+                id: lastMessage.id,
+                sender: lastMessage.senderUserId === currentUserId ? "me" : "them",
+                body: lastMessage.body,
+                attachment: lastMessage.attachment ?? null,
+                createdAt: lastMessage.createdAt,
+                status: lastMessage.status ?? null
+              }
+            ]
+          : []
   };
 }
 
@@ -137,16 +189,24 @@ export function useVicinoState(currentUserId: string | null) {
   const [tab, setTab] = useState<TabKey>("swipe");
   const [deck, setDeck] = useState<ProfileCard[]>(swipeDeckSeed);
   const [matches, setMatches] = useState<MatchPreview[]>(matchSeed);
-  const [usersById, setUsersById] = useState<Record<string, ApiUser>>({});
+  const [profilesById, setProfilesById] = useState<Record<string, ApiPublicProfile>>({});
   const [activeChatMatchId, setActiveChatMatchId] = useState<string | null>(null);
   const [acknowledgedMatchIds, setAcknowledgedMatchIds] = useState<Set<string>>(new Set());
   const [matchToastName, setMatchToastName] = useState<string | null>(null);
   const [outTonight, setOutTonight] = useState<OutTonightState>(emptyOutTonight);
   const [swipeError, setSwipeError] = useState<string | null>(null);
+  const [canUndoSwipe, setCanUndoSwipe] = useState(false);
+  const [swipeQuota, setSwipeQuota] = useState<ApiSwipeQuota | null>(null);
+  const [undoingSwipe, setUndoingSwipe] = useState(false);
+  const [realtimeConnected, setRealtimeConnected] = useState(false);
 
   const toastTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const outTonightSyncRef = useRef<number>(0);
   const seenOfferIdsRef = useRef<Set<string>>(new Set());
+  const realtimeHandlerRef = useRef<(event: ApiRealtimeEvent) => void>(() => undefined);
+  const lastReadMessageIdRef = useRef<Record<string, string>>({});
+  const typingTimersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const typingSentRef = useRef<{ matchId: string; at: number } | null>(null);
 
   const topCard = deck[0] ?? null;
   const activeChatMatch = matches.find((m) => m.id === activeChatMatchId) ?? null;
@@ -155,30 +215,30 @@ export function useVicinoState(currentUserId: string | null) {
     match.meetDecisionByMe === "yes" && match.meetDecisionByThem === "yes";
 
   const messageCapReached = (match: MatchPreview) =>
-    match.messagesUsedByMe >= MAX_PER_PERSON && match.messagesUsedByThem >= MAX_PER_PERSON;
+    match.messagesUsedByMe >= match.maxMessagesPerUser && match.messagesUsedByThem >= match.maxMessagesPerUser;
 
   const refreshFromApi = async () => {
     if (!currentUserId) {
-      setUsersById({});
+      setProfilesById({});
       setDeck([]);
       setMatches([]);
       return;
     }
 
-    const users = await getUsers();
-    const byId = Object.fromEntries(users.map((user) => [user.id, user])) as Record<string, ApiUser>;
-    setUsersById(byId);
-
-    const apiMatches = await getMatches(currentUserId, 50, 0);
+    const { matches: apiMatches } = await getMatches(50);
+    setProfilesById(
+      Object.fromEntries(apiMatches.map((apiMatch) => [apiMatch.otherUser.id, apiMatch.otherUser])) as Record<
+        string,
+        ApiPublicProfile
+      >
+    );
     setMatches((prev) => {
       const prevById = Object.fromEntries(prev.map((match) => [match.id, match])) as Record<string, MatchPreview>;
-      return apiMatches.map((apiMatch) =>
-        toMatchPreview(apiMatch, byId, currentUserId, prevById[apiMatch.id])
-      );
+      return apiMatches.map((apiMatch) => toMatchPreview(apiMatch, currentUserId, prevById[apiMatch.id]));
     });
 
     const discovery = await getDiscovery(currentUserId);
-    setDeck(discovery.map(toDeckCard));
+    setDeck(discovery.profiles.map(toDeckCard));
   };
 
   const refreshDiscoveryOnly = async () => {
@@ -187,7 +247,7 @@ export function useVicinoState(currentUserId: string | null) {
       return;
     }
     const discovery = await getDiscovery(currentUserId);
-    setDeck(discovery.map(toDeckCard));
+    setDeck(discovery.profiles.map(toDeckCard));
   };
 
   const refreshIncomingAvailability = async () => {
@@ -253,8 +313,17 @@ export function useVicinoState(currentUserId: string | null) {
     }
   };
 
+  const refreshSwipeQuota = async () => {
+    if (!currentUserId) {
+      setSwipeQuota(null);
+      return;
+    }
+    setSwipeQuota(await getSwipeQuota());
+  };
+
   const refreshAll = async () => {
     await refreshFromApi().catch(() => null);
+    await refreshSwipeQuota().catch(() => null);
     await refreshIncomingAvailability().catch(() => null);
     if (outTonight.sessionId) {
       await refreshOutTonightState(outTonight.sessionId).catch(() => null);
@@ -289,7 +358,7 @@ export function useVicinoState(currentUserId: string | null) {
 
   useEffect(() => {
     refreshFromApi().catch(() => {
-      setUsersById({});
+      setProfilesById({});
       setDeck(__DEV__ ? swipeDeckSeed : []);
       setMatches(__DEV__ ? matchSeed : []);
     });
@@ -298,10 +367,15 @@ export function useVicinoState(currentUserId: string | null) {
       if (toastTimerRef.current) {
         clearTimeout(toastTimerRef.current);
       }
+      for (const timer of Object.values(typingTimersRef.current)) {
+        clearTimeout(timer);
+      }
+      typingTimersRef.current = {};
     };
   }, [currentUserId]);
 
   useEffect(() => {
+    void refreshSwipeQuota().catch(() => null);
     if (!currentUserId) {
       return;
     }
@@ -322,34 +396,227 @@ export function useVicinoState(currentUserId: string | null) {
     });
   }, [tab, matches]);
 
+  const markChatRead = (matchId: string, messages: ApiMessage[]) => {
+    const newestTheirs = [...messages].reverse().find((msg) => msg.senderUserId !== currentUserId);
+    if (!newestTheirs || lastReadMessageIdRef.current[matchId] === newestTheirs.id) {
+      return;
+    }
+    lastReadMessageIdRef.current[matchId] = newestTheirs.id;
+    setMatches((prev) => prev.map((m) => (m.id === matchId ? { ...m, unreadCount: 0 } : m)));
+    void postMessagesRead(matchId, newestTheirs.id).catch(() => {
+      delete lastReadMessageIdRef.current[matchId];
+    });
+  };
+
+  const loadChatMessages = async (matchId: string) => {
+    const messages = await getMessages(matchId);
+    if (matchId === activeChatMatchId) {
+      markChatRead(matchId, messages);
+    }
+    setMatches((prev) =>
+      prev.map((m) => {
+        if (m.id !== matchId) {
+          return m;
+        }
+        return {
+          ...m,
+          chat: messages.map((msg) => ({
+            id: msg.id,
+            sender: msg.senderUserId === currentUserId ? "me" : "them",
+            body: msg.body,
+            attachment: msg.attachment ?? null,
+            reactions: (msg.reactions ?? []).map((reaction) => ({
+              sender: reaction.userId === currentUserId ? ("me" as const) : ("them" as const),
+              emoji: reaction.emoji
+            })),
+            createdAt: msg.createdAt,
+            status: msg.status ?? null
+          })),
+          messagesUsedByMe: messages.filter((msg) => msg.senderUserId === currentUserId).length,
+          messagesUsedByThem: messages.filter((msg) => msg.senderUserId !== currentUserId).length
+        };
+      })
+    );
+  };
+
+  const appendRealtimeMessage = (message: ApiMessage) => {
+    const fromMe = message.senderUserId === currentUserId;
+    const chatOpen = message.matchId === activeChatMatchId;
+    if (!fromMe && chatOpen) {
+      markChatRead(message.matchId, [message]);
+    }
+    setMatches((prev) =>
+      prev.map((m) => {
+        if (m.id !== message.matchId || m.chat.some((msg) => msg.id === message.id)) {
+          return m;
+        }
+        return {
+          ...m,
+          messagesUsedByMe: fromMe ? m.messagesUsedByMe + 1 : m.messagesUsedByMe,
+          messagesUsedByThem: fromMe ? m.messagesUsedByThem : m.messagesUsedByThem + 1,
+          unreadCount: fromMe || chatOpen ? m.unreadCount : m.unreadCount + 1,
+          otherTypingUntil: fromMe ? m.otherTypingUntil : null,
+          chat: [
+            ...m.chat,
+            {
+              id: message.id,
+              sender: fromMe ? "me" : "them",
+              body: message.body,
+              attachment: message.attachment ?? null,
+              createdAt: message.createdAt,
+              status: message.status ?? null
+            }
+          ]
+        };
+      })
+    );
+  };
+
+  const setOtherTyping = (matchId: string, until: number | null) => {
+    clearTimeout(typingTimersRef.current[matchId]);
+    delete typingTimersRef.current[matchId];
+    if (until !== null) {
+      typingTimersRef.current[matchId] = setTimeout(() => setOtherTyping(matchId, null), Math.max(0, until - Date.now()));
+    }
+    setMatches((prev) => prev.map((m) => (m.id === matchId ? { ...m, otherTypingUntil: until } : m)));
+  };
+
+  const loadMatchPresence = async (matchId: string) => {
+    const presence = await getMatchPresence(matchId);
+    setMatches((prev) =>
+      prev.map((m) =>
+        m.id === matchId ? { ...m, otherOnline: presence.online, otherLastActiveAt: presence.lastActiveAt } : m
+      )
+    );
+  };
+
+  const notifyTyping = (matchId: string, typing: boolean) => {
+    const last = typingSentRef.current;
+    if (typing) {
+      if (last && last.matchId === matchId && Date.now() - last.at < TYPING_SEND_INTERVAL_MS) {
+        return;
+      }
+      typingSentRef.current = { matchId, at: Date.now() };
+    } else {
+      if (!last || last.matchId !== matchId) {
+        return;
+      }
+      typingSentRef.current = null;
+    }
+    void postTyping(matchId, typing).catch(() => null);
+  };
+
+  const catchUpAfterGap = () => {
+    void refreshIncomingAvailability().catch(() => null);
+    if (outTonight.sessionId) {
+      void refreshOutTonightState(outTonight.sessionId).catch(() => null);
+    }
+    if (activeChatMatchId) {
+      void loadChatMessages(activeChatMatchId).catch(() => null);
+    }
+  };
+
+  const handleRealtimeEvent = (event: ApiRealtimeEvent) => {
+    switch (event.type) {
+      case "resync":
+        // The server may have dropped events while it was reconnecting.
+        void refreshFromApi().catch(() => null);
+        catchUpAfterGap();
+        return;
+      case "match.created":
+        void refreshFromApi().catch(() => null);
+        return;
+      case "message.created":
+        appendRealtimeMessage(event.data.message);
+        return;
+      case "typing":
+        if (event.data.userId !== currentUserId) {
+          const { typing, expiresAt } = event.data;
+          setOtherTyping(event.data.matchId, typing && expiresAt ? new Date(expiresAt).getTime() : null);
+        }
+        return;
+      case "message.reaction": {
+        const { matchId, messageId, userId, emoji } = event.data;
+        const sender = userId === currentUserId ? "me" : "them";
+        setMatches((prev) =>
+          prev.map((m) => (m.id === matchId ? { ...m, chat: applyReaction(m.chat, messageId, sender, emoji) } : m))
+        );
+        return;
+      }
+      case "message.read":
+        if (event.data.userId !== currentUserId) {
+          setMatches((prev) =>
+            prev.map((m) =>
+              m.id === event.data.matchId ? { ...m, chat: applyReadCursor(m.chat, event.data.lastReadAt) } : m
+            )
+          );
+        }
+        return;
+      case "availability.request":
+        void refreshIncomingAvailability().catch(() => null);
+        return;
+      case "offer.created":
+      case "offer.status_changed": {
+        const sessionId = event.type === "offer.created" ? event.data.offer.sessionId : event.data.sessionId;
+        if (event.type === "offer.status_changed") {
+          const { offerId, coordinationEndsAt } = event.data;
+          setOutTonight((prev) =>
+            prev.selectedOfferId === offerId
+              ? { ...prev, coordinationEndsAt: coordinationEndsAt ? new Date(coordinationEndsAt).getTime() : null }
+              : prev
+          );
+        }
+        if (outTonight.sessionId === sessionId) {
+          void refreshOutTonightState(sessionId).catch(() => null);
+        } else {
+          void refreshIncomingAvailability().catch(() => null);
+        }
+        return;
+      }
+    }
+  };
+  realtimeHandlerRef.current = handleRealtimeEvent;
+
+  useEffect(() => {
+    if (!currentUserId) {
+      return;
+    }
+    const unsubscribe = subscribeToEvents({
+      onEvent: (event) => realtimeHandlerRef.current(event),
+      onConnectionChange: setRealtimeConnected
+    });
+    return () => {
+      unsubscribe();
+      setRealtimeConnected(false);
+    };
+  }, [currentUserId]);
+
+  useEffect(() => {
+    if (!realtimeConnected) {
+      return;
+    }
+    // Catch up on anything that happened while the stream was down.
+    catchUpAfterGap();
+  }, [realtimeConnected]);
+
   useEffect(() => {
     if (!activeChatMatchId) {
       return;
     }
     const interval = setInterval(() => {
-      void getMessages(activeChatMatchId)
-        .then((messages) => {
-          setMatches((prev) =>
-            prev.map((m) => {
-              if (m.id !== activeChatMatchId) {
-                return m;
-              }
-              return {
-                ...m,
-                chat: messages.map((msg) => ({
-                  id: msg.id,
-                  sender: msg.senderUserId === currentUserId ? "me" : "them",
-                  body: msg.body,
-                  createdAt: msg.createdAt
-                })),
-                messagesUsedByMe: messages.filter((msg) => msg.senderUserId === currentUserId).length,
-                messagesUsedByThem: messages.filter((msg) => msg.senderUserId !== currentUserId).length
-              };
-            })
-          );
-        })
-        .catch(() => null);
-    }, 1500);
+      void loadChatMessages(activeChatMatchId).catch(() => null);
+    }, realtimeConnected ? REALTIME_SAFETY_POLL_MS : CHAT_POLL_MS);
+    return () => clearInterval(interval);
+  }, [activeChatMatchId, currentUserId, realtimeConnected]);
+
+  useEffect(() => {
+    if (!activeChatMatchId) {
+      return;
+    }
+    void loadMatchPresence(activeChatMatchId).catch(() => null);
+    const interval = setInterval(() => {
+      void loadMatchPresence(activeChatMatchId).catch(() => null);
+    }, PRESENCE_POLL_MS);
     return () => clearInterval(interval);
   }, [activeChatMatchId, currentUserId]);
 
@@ -361,9 +628,13 @@ export function useVicinoState(currentUserId: string | null) {
 
     setDeck((prev) => prev.slice(1));
     setSwipeError(null);
+    setCanUndoSwipe(false);
 
-    void postSwipe(currentUserId, current.id, decision)
+    void postSwipe(current.id, decision)
       .then((result) => {
+        // A swipe that made a match can't be rewound.
+        setCanUndoSwipe(!result.matched);
+        setSwipeQuota(result.quota);
         if (result.matched) {
           if (toastTimerRef.current) {
             clearTimeout(toastTimerRef.current);
@@ -376,13 +647,18 @@ export function useVicinoState(currentUserId: string | null) {
         return refreshFromApi();
       })
       .catch((err) => {
-        const raw = (err as Error).message ?? "";
-        const message =
-          raw && raw.toLowerCase().includes("daily swipe limit")
-            ? raw
-            : "Unable to complete swipe. Please try again.";
-        setSwipeError(message);
-        if (raw.toLowerCase().includes("daily swipe limit") && currentUserId) {
+        const limitReached = err instanceof ApiError && err.code === "swipe_limit_reached";
+        if (limitReached) {
+          const quota = (err.payload as { quota?: ApiSwipeQuota } | null)?.quota;
+          if (quota) {
+            setSwipeQuota(quota);
+          }
+          // SwipeScreen shows the upgrade prompt from the quota instead.
+          setSwipeError(null);
+        } else {
+          setSwipeError("Unable to complete swipe. Please try again.");
+        }
+        if (limitReached && currentUserId) {
           void postAnalyticsEvent("hit_free_swipe_limit", currentUserId, {
             source: "swipe",
             profileId: current.id
@@ -393,16 +669,37 @@ export function useVicinoState(currentUserId: string | null) {
       });
   };
 
+  const undoSwipe = () => {
+    if (!currentUserId || undoingSwipe) {
+      return;
+    }
+    setUndoingSwipe(true);
+    setSwipeError(null);
+
+    void postUndoSwipe()
+      .then((result) => {
+        setCanUndoSwipe(false);
+        setSwipeQuota(result.quota);
+        const profile = result.profile;
+        if (profile) {
+          setDeck((prev) => [toDeckCard(profile), ...prev.filter((card) => card.id !== profile.id)]);
+        }
+      })
+      .catch((err) => {
+        setCanUndoSwipe(false);
+        setSwipeError((err as Error).message || "Unable to undo that swipe.");
+      })
+      .finally(() => setUndoingSwipe(false));
+  };
+
   const openChat = (matchId: string) => {
     setActiveChatMatchId(matchId);
 
-    const match = matches.find((m) => m.id === matchId);
-    const otherId = match
-      ? Object.entries(usersById).find(([, user]) => user.firstName === match.name)?.[0]
-      : null;
+    const otherId = matches.find((m) => m.id === matchId)?.otherUserId ?? null;
 
     void getMessages(matchId)
       .then((messages) => {
+        markChatRead(matchId, messages);
         setMatches((prev) =>
           prev.map((m) => {
             if (m.id !== matchId) {
@@ -414,7 +711,13 @@ export function useVicinoState(currentUserId: string | null) {
                 id: msg.id,
                 sender: msg.senderUserId === currentUserId ? "me" : "them",
                 body: msg.body,
-                createdAt: msg.createdAt
+                attachment: msg.attachment ?? null,
+                reactions: (msg.reactions ?? []).map((reaction) => ({
+                  sender: reaction.userId === currentUserId ? ("me" as const) : ("them" as const),
+                  emoji: reaction.emoji
+                })),
+                createdAt: msg.createdAt,
+                status: msg.status ?? null
               })),
               messagesUsedByMe: messages.filter((msg) => msg.senderUserId === currentUserId).length,
               messagesUsedByThem: otherId
@@ -427,9 +730,15 @@ export function useVicinoState(currentUserId: string | null) {
       .catch(() => {});
   };
 
-  const sendMessage = async (matchId: string, sender: "me" | "them", body: string) => {
+  // Attachments (photos for now) are uploaded first and sent as their own
+  // message, which counts against the chat cap like any other.
+  const sendMessage = async (
+    matchId: string,
+    body: string,
+    options?: { acknowledgeWarning?: boolean; attachment?: { base64: string; mimeType: string } }
+  ) => {
     const trimmed = body.trim();
-    if (!trimmed) {
+    if (!trimmed && !options?.attachment) {
       return { ok: false as const, error: "Message cannot be empty." };
     }
 
@@ -439,42 +748,55 @@ export function useVicinoState(currentUserId: string | null) {
     }
 
     const total = match.messagesUsedByMe + match.messagesUsedByThem;
-    if (total >= MAX_TOTAL) {
-      return { ok: false as const, error: "60-message cap reached for this chat." };
+    if (total >= match.maxMessagesTotal) {
+      return { ok: false as const, error: `${match.maxMessagesTotal}-message cap reached for this chat.` };
     }
 
-    if (sender === "me" && match.messagesUsedByMe >= MAX_PER_PERSON) {
-      return { ok: false as const, error: "You already used your 30 messages." };
+    if (match.messagesUsedByMe >= match.maxMessagesPerUser) {
+      return { ok: false as const, error: `You already used your ${match.maxMessagesPerUser} messages.` };
     }
 
-    if (sender === "them" && match.messagesUsedByThem >= MAX_PER_PERSON) {
-      return { ok: false as const, error: "They already used their 30 messages." };
-    }
-
-    const senderUserId =
-      sender === "me"
-        ? currentUserId ?? "u1"
-        : Object.entries(usersById).find(([, user]) => user.firstName === match.name)?.[0] ?? "u2";
-
     try {
-      const result = await postMessage(matchId, senderUserId, trimmed);
+      const uploaded = options?.attachment
+        ? await uploadImageBase64(
+            options.attachment.base64,
+            options.attachment.mimeType,
+            undefined,
+            "message_attachment"
+          )
+        : null;
+      const result = await postMessage(matchId, trimmed, {
+        acknowledgeWarning: options?.acknowledgeWarning,
+        attachmentUploadId: uploaded?.id
+      });
+      // The recipient drops the typing indicator when the message lands.
+      typingSentRef.current = null;
 
       setMatches((prev) =>
         prev.map((m) => {
           if (m.id !== matchId) {
             return m;
           }
+          const limits = {
+            maxMessagesPerUser: result.messageLimits.maxMessagesPerUser,
+            maxMessagesTotal: result.messageLimits.maxMessagesTotal
+          };
+          if (m.chat.some((msg) => msg.id === result.message.id)) {
+            return { ...m, ...limits };
+          }
           return {
             ...m,
-            messagesUsedByMe: sender === "me" ? m.messagesUsedByMe + 1 : m.messagesUsedByMe,
-            messagesUsedByThem: sender === "them" ? m.messagesUsedByThem + 1 : m.messagesUsedByThem,
+            ...limits,
+            messagesUsedByMe: m.messagesUsedByMe + 1,
             chat: [
               ...m.chat,
               {
                 id: result.message.id,
-                sender,
+                sender: "me",
                 body: result.message.body,
-                createdAt: result.message.createdAt
+                attachment: result.message.attachment ?? null,
+                createdAt: result.message.createdAt,
+                status: result.message.status ?? "sent"
               }
             ]
           };
@@ -483,13 +805,28 @@ export function useVicinoState(currentUserId: string | null) {
 
       return { ok: true as const };
     } catch (err) {
-      return { ok: false as const, error: (err as Error).message };
+      // A warning can be overridden by resending with acknowledgeWarning.
+      const warning = err instanceof ApiError && err.code === "message_warning";
+      return { ok: false as const, error: (err as Error).message, warning };
     }
   };
 
-  const sendAutoReply = (matchId: string) => {
-    const text = cannedReplies[Math.floor(Math.random() * cannedReplies.length)] ?? "Sounds good.";
-    return sendMessage(matchId, "them", text);
+  // Reactions don't use up messages, so there is no cap check here.
+  const reactToMessage = async (matchId: string, messageId: string, emoji: string | null) => {
+    const previous = matches
+      .find((m) => m.id === matchId)
+      ?.chat.find((msg) => msg.id === messageId)
+      ?.reactions?.find((reaction) => reaction.sender === "me")?.emoji ?? null;
+    setMatches((prev) =>
+      prev.map((m) => (m.id === matchId ? { ...m, chat: applyReaction(m.chat, messageId, "me", emoji) } : m))
+    );
+    try {
+      await postMessageReaction(matchId, messageId, emoji);
+    } catch {
+      setMatches((prev) =>
+        prev.map((m) => (m.id === matchId ? { ...m, chat: applyReaction(m.chat, messageId, "me", previous) } : m))
+      );
+    }
   };
 
   const removeMatchLocally = (matchId: string) => {
@@ -508,7 +845,7 @@ export function useVicinoState(currentUserId: string | null) {
     setActiveChatMatchId((prev) => (prev === matchId ? null : prev));
   };
 
-  const setMeetDecision = async (matchId: string, user: "me" | "them", decision: MeetDecision) => {
+  const setMeetDecision = async (matchId: string, decision: MeetDecision) => {
     const match = matches.find((m) => m.id === matchId);
     if (!match) {
       return;
@@ -518,21 +855,14 @@ export function useVicinoState(currentUserId: string | null) {
       return;
     }
 
-    const userId =
-      user === "me"
-        ? currentUserId
-        : Object.entries(usersById).find(([, u]) => u.firstName === match.name)?.[0] ?? "u2";
-
-    await postMeetDecision(matchId, userId, decision).catch(() => null);
+    await postMeetDecision(matchId, decision).catch(() => null);
 
     setMatches((prev) =>
       prev.map((m) => {
         if (m.id !== matchId) {
           return m;
         }
-        return user === "me"
-          ? { ...m, meetDecisionByMe: decision }
-          : { ...m, meetDecisionByThem: decision };
+        return { ...m, meetDecisionByMe: decision };
       })
     );
   };
@@ -541,7 +871,7 @@ export function useVicinoState(currentUserId: string | null) {
     if (!currentUserId) {
       return;
     }
-    await postUnmatch(matchId, currentUserId);
+    await postUnmatch(matchId);
     removeMatchLocally(matchId);
     await refreshDiscoveryOnly().catch(() => null);
   };
@@ -550,7 +880,7 @@ export function useVicinoState(currentUserId: string | null) {
     if (!currentUserId) {
       return;
     }
-    await postBlock(matchId, currentUserId);
+    await postBlock(matchId);
     removeMatchLocally(matchId);
     await refreshDiscoveryOnly().catch(() => null);
   };
@@ -565,7 +895,7 @@ export function useVicinoState(currentUserId: string | null) {
       return;
     }
     try {
-      const result = await postAvailabilityStart(currentUserId);
+      const result = await postAvailabilityStart();
       const next: OutTonightState = {
         sessionId: result.session.id,
         enabled: true,
@@ -594,24 +924,11 @@ export function useVicinoState(currentUserId: string | null) {
       return;
     }
     if (outTonight.sessionId) {
-      await postAvailabilityClose(outTonight.sessionId, currentUserId).catch(() => null);
+      await postAvailabilityClose(outTonight.sessionId).catch(() => null);
     }
     setOutTonight((prev) => ({ ...emptyOutTonight(), incomingRequests: prev.incomingRequests }));
   };
 
-  const simulateCandidateResponses = async () => {
-    if (!outTonight.sessionId) {
-      return;
-    }
-
-    for (const candidate of outTonight.candidates) {
-      const response = Math.random() > 0.4 ? "yes" : "no";
-      await postAvailabilityRespondInterest(outTonight.sessionId, candidate.userId, response).catch(() => null);
-    }
-
-    await refreshOutTonightState(outTonight.sessionId).catch(() => null);
-  };
-
   const chooseCandidate = (matchId: string) => {
     setOutTonight((prev) => {
       const target = prev.candidates.find((candidate) => candidate.matchId === matchId);
@@ -626,7 +943,7 @@ export function useVicinoState(currentUserId: string | null) {
     });
   };
 
-  const sendMeetOffer = async (placeLabel: string) => {
+  const sendMeetOffer = async (placeId: string) => {
     if (!currentUserId || !outTonight.sessionId || !outTonight.selectedCandidateMatchId) {
       return;
     }
@@ -636,47 +953,11 @@ export function useVicinoState(currentUserId: string | null) {
       return;
     }
 
-    const placeId = `poi_${placeLabel.toLowerCase().replace(/[^a-z0-9]+/g, "_")}`;
-    const offer = await postOffer(
-      outTonight.sessionId,
-      currentUserId,
-      candidate.userId,
-      placeId,
-      placeLabel
-    );
+    const offer = await postOffer(outTonight.sessionId, candidate.userId, placeId);
 
     setOutTonight((prev) => applyOffer(prev, offer));
   };
 
-  const respondToMeetOffer = async (accept: boolean) => {
-    if (!outTonight.selectedOfferId || !outTonight.selectedCandidateMatchId) {
-      return;
-    }
-
-    const candidate = outTonight.candidates.find((c) => c.matchId === outTonight.selectedCandidateMatchId);
-    if (!candidate) {
-      return;
-    }
-
-    const result = await postOfferRespond(outTonight.selectedOfferId, candidate.userId, accept);
-
-    setOutTonight((prev) => {
-      let next = applyOffer(prev, result.offer);
-      if (!accept) {
-        next = {
-          ...next,
-          selectedCandidateMatchId: null
-        };
-      } else if (result.coordinationEndsAt) {
-        next = {
-          ...next,
-          coordinationEndsAt: new Date(result.coordinationEndsAt).getTime()
-        };
-      }
-      return next;
-    });
-  };
-
   const respondIncomingRequest = async (sessionId: string, response: "yes" | "no") => {
     if (!currentUserId) {
       return;
@@ -685,7 +966,7 @@ export function useVicinoState(currentUserId: string | null) {
       ...prev,
       incomingRequests: prev.incomingRequests.filter((request) => request.sessionId !== sessionId)
     }));
-    await postAvailabilityRespondInterest(sessionId, currentUserId, response).catch(() => null);
+    await postAvailabilityRespondInterest(sessionId, response).catch(() => null);
     await refreshIncomingAvailability().catch(() => null);
     if (outTonight.sessionId === sessionId) {
       await refreshOutTonightState(sessionId).catch(() => null);
@@ -705,14 +986,16 @@ export function useVicinoState(currentUserId: string | null) {
     });
 
     if (!outTonight.sessionId) {
-      if (Date.now() - outTonightSyncRef.current > 7000) {
+      const pollEvery = realtimeConnected ? REALTIME_SAFETY_POLL_MS : INCOMING_AVAILABILITY_POLL_MS;
+      if (Date.now() - outTonightSyncRef.current > pollEvery) {
         outTonightSyncRef.current = Date.now();
         void refreshIncomingAvailability().catch(() => null);
       }
       return;
     }
 
-    if (Date.now() - outTonightSyncRef.current > 5000) {
+    const pollEvery = realtimeConnected ? REALTIME_SAFETY_POLL_MS : OUT_TONIGHT_POLL_MS;
+    if (Date.now() - outTonightSyncRef.current > pollEvery) {
       outTonightSyncRef.current = Date.now();
       void refreshOutTonightState(outTonight.sessionId).catch(() => null);
     }
@@ -724,9 +1007,9 @@ export function useVicinoState(currentUserId: string | null) {
       return null;
     }
 
-    const user = usersById[match.otherUserId];
-    if (user) {
-      return toDeckCard(user);
+    const profile = profilesById[match.otherUserId];
+    if (profile) {
+      return toDeckCard(profile);
     }
 
     return {
@@ -750,6 +1033,11 @@ export function useVicinoState(currentUserId: string | null) {
     [matches, acknowledgedMatchIds]
   );
 
+  const unreadMessageCount = useMemo(
+    () => matches.reduce((sum, match) => sum + match.unreadCount, 0),
+    [matches]
+  );
+
   return {
     tab,
     setTab,
@@ -762,29 +1050,38 @@ export function useVicinoState(currentUserId: string | null) {
     swipeError,
     clearSwipeError: () => setSwipeError(null),
     unseenMatchCount,
-    inboxBadgeCount: unseenMatchCount,
+    unreadMessageCount,
+    inboxBadgeCount: unseenMatchCount + unreadMessageCount,
     matchToastName,
     stats,
     swipe,
+    canUndoSwipe,
+    swipeQuota,
+    undoingSwipe,
+    undoSwipe,
     messageCapReached,
     sendMessage,
-    sendAutoReply,
+    reactToMessage,
     setMeetDecision,
     unmatch,
     block,
     bothMeetYes,
     startOutTonight,
     stopOutTonight,
-    simulateCandidateResponses,
     chooseCandidate,
     sendMeetOffer,
-    respondToMeetOffer,
     respondIncomingRequest,
     syncMeetupTimers,
     refreshDiscoveryOnly,
     refreshAll,
     getProfileCardByMatchId,
     openChat,
-    closeChat: () => setActiveChatMatchId(null)
+    notifyTyping,
+    closeChat: () => {
+      if (activeChatMatchId) {
+        notifyTyping(activeChatMatchId, false);
+      }
+      setActiveChatMatchId(null);
+    }
   };
 }
@@ -47,8 +47,14 @@ export const matchSeed: MatchPreview[] = [
     avatarUrl: "https://picsum.photos/200/200?41",
     messagesUsedByMe: 2,
     messagesUsedByThem: 2,
+    maxMessagesPerUser: 30,
+    maxMessagesTotal: 60,
     meetDecisionByMe: null,
     meetDecisionByThem: null,
+    unreadCount: 0,
+    otherOnline: false,
+    otherLastActiveAt: null,
+    otherTypingUntil: null,
     chat: [
       {
         id: "c1",
@@ -83,8 +89,14 @@ export const matchSeed: MatchPreview[] = [
     avatarUrl: "https://picsum.photos/200/200?42",
     messagesUsedByMe: 30,
     messagesUsedByThem: 30,
+    maxMessagesPerUser: 30,
+    maxMessagesTotal: 60,
     meetDecisionByMe: null,
     meetDecisionByThem: null,
+    unreadCount: 0,
+    otherOnline: false,
+    otherLastActiveAt: null,
+    otherTypingUntil: null,
     chat: [
       {
         id: "c5",
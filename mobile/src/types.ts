@@ -15,11 +15,24 @@ export interface ProfileCard {
   }>;
 }
 
+export type MessageStatus = "sent" | "delivered" | "read";
+
+export interface MessageAttachment {
+  kind: "image" | "audio";
+  url: string;
+  mimeType: string;
+  sizeBytes: number;
+  durationSeconds: number | null;
+}
+
 export interface ChatMessage {
   id: string;
   sender: "me" | "them";
   body: string;
   createdAt: string;
+  status?: MessageStatus | null;
+  attachment?: MessageAttachment | null;
+  reactions?: { sender: "me" | "them"; emoji: string }[];
 }
 
 export interface MatchPreview {
@@ -29,8 +42,14 @@ export interface MatchPreview {
   avatarUrl: string | null;
   messagesUsedByMe: number;
   messagesUsedByThem: number;
+  maxMessagesPerUser: number;
+  maxMessagesTotal: number;
   meetDecisionByMe: MeetDecision | null;
   meetDecisionByThem: MeetDecision | null;
+  unreadCount: number;
+  otherOnline: boolean;
+  otherLastActiveAt: string | null;
+  otherTypingUntil: number | null;
   chat: ChatMessage[];
 }
 